@@ -0,0 +1,271 @@
+import { Point, Color, PathSegment } from "./turtle";
+
+/**
+ * Geometric measurements of turtle drawings, operating on the segment list from
+ * SimpleTurtle.getPath(). Useful for tests that check what a drawing looks like without
+ * comparing exact floating-point coordinates.
+ */
+
+/** Axis-aligned bounding box, in turtle coordinates. */
+export type Bounds = {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+};
+
+/** Summary of a drawing, as computed by pathStatistics. */
+export type PathStatistics = {
+  segmentCount: number;
+  length: number;
+  bounds: Bounds | undefined;
+  closed: boolean;
+  /** Area enclosed by the path, or undefined if the path is not closed. */
+  area: number | undefined;
+  intersectionCount: number;
+  lengthByColor: Map<Color, number>;
+};
+
+/** Default distance below which two points are considered the same. */
+export const DEFAULT_TOLERANCE = 1e-6;
+
+function segmentLength(segment: PathSegment): number {
+  return Math.hypot(segment.end.x - segment.start.x, segment.end.y - segment.start.y);
+}
+
+function samePoint(p: Point, q: Point, tolerance: number): boolean {
+  return Math.abs(p.x - q.x) <= tolerance && Math.abs(p.y - q.y) <= tolerance;
+}
+
+/**
+ * Computes the total length of a drawing.
+ * @param path segments of the drawing.
+ * @returns sum of the lengths of all segments; 0 for an empty path.
+ */
+export function pathLength(path: ReadonlyArray<PathSegment>): number {
+  return path.reduce((sum, segment) => sum + segmentLength(segment), 0);
+}
+
+/**
+ * Computes the bounding box of a drawing.
+ * @param path segments of the drawing.
+ * @returns the smallest box containing every segment endpoint, or undefined if path is empty.
+ */
+export function computeBounds(path: ReadonlyArray<PathSegment>): Bounds | undefined {
+  if (path.length === 0) {
+    return undefined;
+  }
+  const bounds: Bounds = {
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity,
+  };
+  for (const segment of path) {
+    for (const p of [segment.start, segment.end]) {
+      bounds.minX = Math.min(bounds.minX, p.x);
+      bounds.minY = Math.min(bounds.minY, p.y);
+      bounds.maxX = Math.max(bounds.maxX, p.x);
+      bounds.maxY = Math.max(bounds.maxY, p.y);
+    }
+  }
+  return bounds;
+}
+
+/**
+ * Checks whether a drawing is a single closed loop: every segment starts where the previous
+ * one ended, and the last segment ends where the first one started.
+ * @param path segments of the drawing, in drawing order.
+ * @param tolerance largest coordinate difference treated as equal; default DEFAULT_TOLERANCE.
+ * @returns true iff path is nonempty, continuous and returns to its starting point.
+ */
+export function isClosed(path: ReadonlyArray<PathSegment>, tolerance: number = DEFAULT_TOLERANCE): boolean {
+  if (path.length === 0) {
+    return false;
+  }
+  for (let i = 1; i < path.length; i++) {
+    if (!samePoint(path[i - 1].end, path[i].start, tolerance)) {
+      return false;
+    }
+  }
+  return samePoint(path[path.length - 1].end, path[0].start, tolerance);
+}
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+/**
+ * Finds where two segments meet.
+ * @returns the intersection points: none, one, or the two ends of a collinear overlap.
+ */
+function intersect(a: PathSegment, b: PathSegment, tolerance: number): Point[] {
+  const p = a.start;
+  const r = { x: a.end.x - p.x, y: a.end.y - p.y };
+  const q = b.start;
+  const s = { x: b.end.x - q.x, y: b.end.y - q.y };
+  const denominator = r.x * s.y - r.y * s.x;
+  const qp = { x: q.x - p.x, y: q.y - p.y };
+  const lengthA = Math.hypot(r.x, r.y);
+  const lengthB = Math.hypot(s.x, s.y);
+  if (lengthA <= tolerance || lengthB <= tolerance) {
+    return [];
+  }
+
+  if (Math.abs(denominator) <= tolerance * lengthA * lengthB) {
+    // Parallel: intersect only if collinear and overlapping
+    if (Math.abs(cross(p, a.end, q)) > tolerance * lengthA) {
+      return [];
+    }
+    const t0 = (qp.x * r.x + qp.y * r.y) / (lengthA * lengthA);
+    const t1 = t0 + (s.x * r.x + s.y * r.y) / (lengthA * lengthA);
+    const lo = Math.max(0, Math.min(t0, t1));
+    const hi = Math.min(1, Math.max(t0, t1));
+    const slack = tolerance / lengthA;
+    if (lo > hi + slack) {
+      return [];
+    }
+    const at = (t: number): Point => ({ x: p.x + t * r.x, y: p.y + t * r.y });
+    return hi - lo <= slack ? [at(lo)] : [at(lo), at(hi)];
+  }
+
+  const t = (qp.x * s.y - qp.y * s.x) / denominator;
+  const u = (qp.x * r.y - qp.y * r.x) / denominator;
+  const slackA = tolerance / lengthA;
+  const slackB = tolerance / lengthB;
+  if (t < -slackA || t > 1 + slackA || u < -slackB || u > 1 + slackB) {
+    return [];
+  }
+  return [{ x: p.x + t * r.x, y: p.y + t * r.y }];
+}
+
+/**
+ * Finds the points where a drawing crosses or touches itself.
+ * The joint where one segment ends and the next one starts does not count, nor does the joint
+ * that closes a closed path, unless the two segments also meet somewhere else.
+ * @param path segments of the drawing, in drawing order.
+ * @param tolerance largest coordinate difference treated as equal; default DEFAULT_TOLERANCE.
+ * @returns the distinct intersection points, in the order they are found.
+ */
+export function selfIntersections(
+  path: ReadonlyArray<PathSegment>,
+  tolerance: number = DEFAULT_TOLERANCE
+): Point[] {
+  const points: Point[] = [];
+  const addPoint = (p: Point): void => {
+    if (!points.some((existing) => samePoint(existing, p, tolerance))) {
+      points.push(p);
+    }
+  };
+
+  for (let i = 0; i < path.length; i++) {
+    for (let j = i + 1; j < path.length; j++) {
+      const a = path[i];
+      const b = path[j];
+      // The shared endpoint of two segments drawn one after the other is not a crossing
+      const joints: Point[] = [];
+      if (j === i + 1 && samePoint(a.end, b.start, tolerance)) {
+        joints.push(a.end);
+      }
+      if (i === 0 && j === path.length - 1 && samePoint(b.end, a.start, tolerance)) {
+        joints.push(a.start);
+      }
+      for (const p of intersect(a, b, tolerance)) {
+        if (!joints.some((joint) => samePoint(joint, p, tolerance))) {
+          addPoint(p);
+        }
+      }
+    }
+  }
+  return points;
+}
+
+/**
+ * Splits a drawing into strokes: maximal runs of segments where each one starts where the
+ * previous one ended, i.e. the parts a plotter draws without lifting the pen.
+ * @param path segments of the drawing, in drawing order.
+ * @param tolerance largest coordinate difference treated as equal; default DEFAULT_TOLERANCE.
+ * @returns the strokes of path in drawing order; concatenated, they are path.
+ */
+export function splitStrokes(
+  path: ReadonlyArray<PathSegment>,
+  tolerance: number = DEFAULT_TOLERANCE
+): PathSegment[][] {
+  const strokes: PathSegment[][] = [];
+  for (let i = 0; i < path.length; i++) {
+    if (i === 0 || !samePoint(path[i - 1].end, path[i].start, tolerance)) {
+      strokes.push([]);
+    }
+    strokes[strokes.length - 1].push(path[i]);
+  }
+  return strokes;
+}
+
+/**
+ * Computes how far the pen travels without drawing between consecutive segments.
+ * @param path segments of the drawing, in drawing order.
+ * @returns sum of the distances from the end of each segment to the start of the next one.
+ */
+export function travelDistance(path: ReadonlyArray<PathSegment>): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) {
+    total += Math.hypot(path[i].start.x - path[i - 1].end.x, path[i].start.y - path[i - 1].end.y);
+  }
+  return total;
+}
+
+/**
+ * Computes the area enclosed by a closed drawing using the shoelace formula.
+ * For a self-intersecting loop this is the net signed area, so regions wound in opposite
+ * directions cancel out.
+ * @param path segments of a closed drawing, in drawing order.
+ * @param tolerance largest coordinate difference treated as equal; default DEFAULT_TOLERANCE.
+ * @returns the absolute value of the enclosed area.
+ * @throws Error if path is not closed (see isClosed).
+ */
+export function enclosedArea(path: ReadonlyArray<PathSegment>, tolerance: number = DEFAULT_TOLERANCE): number {
+  if (!isClosed(path, tolerance)) {
+    throw new Error("enclosedArea requires a closed path");
+  }
+  let twiceArea = 0;
+  for (const segment of path) {
+    twiceArea += segment.start.x * segment.end.y - segment.end.x * segment.start.y;
+  }
+  return Math.abs(twiceArea) / 2;
+}
+
+/**
+ * Breaks down the length of a drawing by color.
+ * @param path segments of the drawing.
+ * @returns map from each color used in path to the total length drawn in it,
+ *          in order of first use.
+ */
+export function lengthByColor(path: ReadonlyArray<PathSegment>): Map<Color, number> {
+  const lengths = new Map<Color, number>();
+  for (const segment of path) {
+    lengths.set(segment.color, (lengths.get(segment.color) ?? 0) + segmentLength(segment));
+  }
+  return lengths;
+}
+
+/**
+ * Computes every measurement in this module at once.
+ * @param path segments of the drawing, in drawing order.
+ * @param tolerance largest coordinate difference treated as equal; default DEFAULT_TOLERANCE.
+ * @returns statistics of path.
+ */
+export function pathStatistics(
+  path: ReadonlyArray<PathSegment>,
+  tolerance: number = DEFAULT_TOLERANCE
+): PathStatistics {
+  const closed = isClosed(path, tolerance);
+  return {
+    segmentCount: path.length,
+    length: pathLength(path),
+    bounds: computeBounds(path),
+    closed,
+    area: closed ? enclosedArea(path, tolerance) : undefined,
+    intersectionCount: selfIntersections(path, tolerance).length,
+    lengthByColor: lengthByColor(path),
+  };
+}
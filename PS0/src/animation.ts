@@ -0,0 +1,327 @@
+import { PathSegment } from "./turtle";
+import { computeBounds } from "./analysis";
+import { headingBetween } from "./pathplanner";
+import {
+  ExportOptions,
+  fitViewport,
+  viewBoxOf,
+  withDefaults,
+  formatNumber,
+  escapeXML,
+} from "./export";
+
+/**
+ * Animated exporters that replay a turtle drawing segment by segment, in the order the
+ * turtle drew them, with a cursor showing the turtle's position and heading.
+ */
+
+export type AnimationOptions = ExportOptions & {
+  /** Playback speed, in segments drawn per second; default 20. */
+  segmentsPerSecond?: number;
+  /** Size of the turtle cursor in output pixels; default 12. */
+  cursorSize?: number;
+  /** Fill color of the turtle cursor; default "green". */
+  cursorColor?: string;
+  /** Whether the HTML player starts playing as soon as it loads; default true. */
+  autoplay?: boolean;
+};
+
+/** When one segment is drawn during playback. */
+export type TimelineEntry = {
+  segment: PathSegment;
+  /** Seconds from the start of playback until the segment starts. */
+  startTime: number;
+  /** Seconds from the start of playback until the segment is complete. */
+  endTime: number;
+  /** Heading of the turtle while drawing the segment, in degrees (0 is up, clockwise). */
+  heading: number;
+};
+
+const ANIMATION_DEFAULTS = {
+  segmentsPerSecond: 20,
+  cursorSize: 12,
+  cursorColor: "green",
+  autoplay: true,
+};
+
+/**
+ * Computes the direction of travel along a segment.
+ * @param segment a segment of a turtle drawing.
+ * @returns heading in [0, 360) using the turtle's convention (0 is up, clockwise),
+ *          or 0 for a zero-length segment.
+ */
+export function segmentHeading(segment: PathSegment): number {
+  return headingBetween(segment.start, segment.end);
+}
+
+/**
+ * Schedules every segment of a drawing for playback, one segment after another.
+ * @param path segments of the drawing, in drawing order.
+ * @param segmentsPerSecond playback speed, must be positive.
+ * @returns one entry per segment of path, in the same order.
+ * @throws Error if segmentsPerSecond is not positive.
+ */
+export function buildTimeline(path: ReadonlyArray<PathSegment>, segmentsPerSecond: number): TimelineEntry[] {
+  if (!(segmentsPerSecond > 0)) {
+    throw new Error(`segmentsPerSecond must be positive, got ${segmentsPerSecond}`);
+  }
+  const duration = 1 / segmentsPerSecond;
+  return path.map((segment, i) => ({
+    segment,
+    startTime: i * duration,
+    endTime: (i + 1) * duration,
+    heading: segmentHeading(segment),
+  }));
+}
+
+/**
+ * Cursor outline pointing up (heading 0), centered on the origin, in turtle units.
+ */
+function cursorPoints(size: number): string {
+  const half = size / 2;
+  return [
+    [0, -half],
+    [half * 0.7, half],
+    [0, half * 0.5],
+    [-half * 0.7, half],
+  ]
+    .map(([x, y]) => `${formatNumber(x)},${formatNumber(y)}`)
+    .join(" ");
+}
+
+/**
+ * Renders a drawing as a self-playing SVG animation.
+ * Each line is revealed with a CSS stroke-dashoffset animation delayed until its turn, and the
+ * cursor follows the path with SMIL <animateMotion>. The animation plays once and then holds
+ * the finished drawing; it has no controls (use toAnimatedHTML for those).
+ * @param path segments of the drawing, in drawing order.
+ * @param options viewport, style and playback options.
+ * @returns SVG markup, starting with the <svg> element.
+ */
+export function toAnimatedSVG(path: ReadonlyArray<PathSegment>, options: AnimationOptions = {}): string {
+  const { background, strokeWidth } = withDefaults(options);
+  const { segmentsPerSecond, cursorSize, cursorColor } = { ...ANIMATION_DEFAULTS, ...options };
+  const viewport = fitViewport(computeBounds(path), options);
+  const viewBox = viewBoxOf(viewport);
+  const timeline = buildTimeline(path, segmentsPerSecond);
+  const duration = 1 / segmentsPerSecond;
+
+  const lines: string[] = [];
+  lines.push(
+    "  <style>",
+    "    .segment { stroke-dasharray: 1; stroke-dashoffset: 1; animation-name: draw; animation-timing-function: linear; animation-fill-mode: forwards; }",
+    "    @keyframes draw { to { stroke-dashoffset: 0; } }",
+    "  </style>"
+  );
+  if (background !== "none") {
+    lines.push(
+      `  <rect x="${formatNumber(viewBox[0])}" y="${formatNumber(viewBox[1])}" width="${formatNumber(viewBox[2])}" height="${formatNumber(viewBox[3])}" fill="${escapeXML(background)}"/>`
+    );
+  }
+  lines.push(`  <g fill="none" stroke-width="${formatNumber(strokeWidth)}" stroke-linecap="round">`);
+  for (const entry of timeline) {
+    const { start, end, color, width } = entry.segment;
+    const widthAttribute = width === undefined ? "" : ` stroke-width="${formatNumber(width)}"`;
+    lines.push(
+      `    <line class="segment" pathLength="1" x1="${formatNumber(start.x)}" y1="${formatNumber(start.y)}" x2="${formatNumber(end.x)}" y2="${formatNumber(end.y)}" stroke="${escapeXML(color)}"${widthAttribute} vector-effect="non-scaling-stroke" style="animation-delay: ${formatNumber(entry.startTime)}s; animation-duration: ${formatNumber(duration)}s"/>`
+    );
+  }
+  lines.push("  </g>");
+
+  if (timeline.length > 0) {
+    // The motion path visits every segment endpoint; keyPoints are spaced by segment length
+    // so that each segment takes the same time however long it is.
+    const motion: string[] = [];
+    const lengths: number[] = [0];
+    let total = 0;
+    for (const { segment } of timeline) {
+      motion.push(`M${formatNumber(segment.start.x)},${formatNumber(segment.start.y)}`);
+      motion.push(`L${formatNumber(segment.end.x)},${formatNumber(segment.end.y)}`);
+      total += Math.hypot(segment.end.x - segment.start.x, segment.end.y - segment.start.y);
+      lengths.push(total);
+    }
+    const keyPoints = lengths.map((length) => formatNumber(total > 0 ? length / total : 0)).join(";");
+    const keyTimes = lengths.map((_, i) => formatNumber(i / timeline.length)).join(";");
+    const rotations = timeline.map((entry) => formatNumber(entry.heading));
+    rotations.push(rotations[rotations.length - 1]);
+
+    lines.push(
+      `  <g fill="${escapeXML(cursorColor)}">`,
+      `    <animateMotion dur="${formatNumber(timeline.length * duration)}s" fill="freeze" calcMode="linear" keyPoints="${keyPoints}" keyTimes="${keyTimes}" path="${motion.join(" ")}"/>`,
+      `    <polygon class="cursor" points="${cursorPoints(cursorSize / viewport.scale)}">`,
+      `      <animateTransform attributeName="transform" type="rotate" dur="${formatNumber(timeline.length * duration)}s" fill="freeze" calcMode="discrete" values="${rotations.join(";")}" keyTimes="${keyTimes}"/>`,
+      "    </polygon>",
+      "  </g>"
+    );
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${viewport.width}" height="${viewport.height}" viewBox="${viewBox.map(formatNumber).join(" ")}">
+${lines.join("\n")}
+</svg>`;
+}
+
+/**
+ * Renders a drawing as an HTML player that replays it on a JavaScript timeline.
+ * The page has Play/Pause, Step and Restart buttons and a speed slider; the cursor shows the
+ * turtle's position and heading, and the segment being drawn grows smoothly.
+ * @param path segments of the drawing, in drawing order.
+ * @param options viewport, style and playback options.
+ * @returns a complete HTML document.
+ */
+export function toAnimatedHTML(path: ReadonlyArray<PathSegment>, options: AnimationOptions = {}): string {
+  const { background, strokeWidth, title } = withDefaults(options);
+  const { segmentsPerSecond, cursorSize, cursorColor, autoplay } = { ...ANIMATION_DEFAULTS, ...options };
+  const viewport = fitViewport(computeBounds(path), options);
+  const viewBox = viewBoxOf(viewport);
+  const data = buildTimeline(path, segmentsPerSecond).map((entry) => ({
+    x1: entry.segment.start.x,
+    y1: entry.segment.start.y,
+    x2: entry.segment.end.x,
+    y2: entry.segment.end.y,
+    color: entry.segment.color,
+    width: entry.segment.width,
+    heading: entry.heading,
+  }));
+  const backgroundRect =
+    background === "none"
+      ? ""
+      : `<rect x="${formatNumber(viewBox[0])}" y="${formatNumber(viewBox[1])}" width="${formatNumber(viewBox[2])}" height="${formatNumber(viewBox[3])}" fill="${escapeXML(background)}"/>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+    <title>${escapeXML(title)}</title>
+    <style>
+        body { margin: 0; font-family: sans-serif; }
+        svg { display: block; }
+        #controls { padding: 8px; display: flex; gap: 8px; align-items: center; }
+    </style>
+</head>
+<body>
+<div id="controls">
+    <button id="play">${autoplay ? "Pause" : "Play"}</button>
+    <button id="step">Step</button>
+    <button id="restart">Restart</button>
+    <label>Speed <input id="speed" type="range" min="1" max="500" value="${segmentsPerSecond}"></label>
+    <span id="speedLabel">${segmentsPerSecond}</span> segments/s
+    <span id="counter">0 / ${data.length}</span>
+</div>
+<svg xmlns="http://www.w3.org/2000/svg" width="${viewport.width}" height="${viewport.height}" viewBox="${viewBox.map(formatNumber).join(" ")}">
+    ${backgroundRect}
+    <g id="segments" fill="none" stroke-width="${formatNumber(strokeWidth)}" stroke-linecap="round"></g>
+    <polygon id="cursor" points="${cursorPoints(cursorSize / viewport.scale)}" fill="${escapeXML(cursorColor)}"/>
+</svg>
+<script>
+(function () {
+    var segments = ${JSON.stringify(data).replace(/</g, "\\u003c")};
+    var svgNS = "http://www.w3.org/2000/svg";
+    var group = document.getElementById("segments");
+    var cursor = document.getElementById("cursor");
+    var playButton = document.getElementById("play");
+    var speedInput = document.getElementById("speed");
+    var lines = segments.map(function (s) {
+        var line = document.createElementNS(svgNS, "line");
+        line.setAttribute("stroke", s.color);
+        if (s.width !== undefined) {
+            line.setAttribute("stroke-width", s.width);
+        }
+        line.setAttribute("vector-effect", "non-scaling-stroke");
+        group.appendChild(line);
+        return line;
+    });
+    var index = 0;       // segments[index] is the one being drawn
+    var progress = 0;    // fraction of segments[index] drawn so far
+    var playing = ${autoplay ? "true" : "false"};
+    var speed = ${segmentsPerSecond};
+    var lastTime = null;
+    var frame = null;    // id of the pending animation frame, so that only one loop runs
+
+    function render() {
+        for (var i = 0; i < lines.length; i++) {
+            var s = segments[i];
+            var t = i < index ? 1 : i === index ? progress : 0;
+            lines[i].style.display = t > 0 ? "" : "none";
+            lines[i].setAttribute("x1", s.x1);
+            lines[i].setAttribute("y1", s.y1);
+            lines[i].setAttribute("x2", s.x1 + (s.x2 - s.x1) * t);
+            lines[i].setAttribute("y2", s.y1 + (s.y2 - s.y1) * t);
+        }
+        var current = segments[Math.min(index, segments.length - 1)];
+        if (current) {
+            var done = index < segments.length ? progress : 1;
+            var x = current.x1 + (current.x2 - current.x1) * done;
+            var y = current.y1 + (current.y2 - current.y1) * done;
+            cursor.setAttribute("transform", "translate(" + x + " " + y + ") rotate(" + current.heading + ")");
+        }
+        document.getElementById("counter").textContent = Math.min(index, segments.length) + " / " + segments.length;
+    }
+
+    function setPlaying(value) {
+        playing = value && index < segments.length;
+        playButton.textContent = playing ? "Pause" : "Play";
+        lastTime = null;
+        if (frame !== null) {
+            cancelAnimationFrame(frame);
+            frame = null;
+        }
+        if (playing) {
+            frame = requestAnimationFrame(tick);
+        }
+    }
+
+    function tick(time) {
+        frame = null;
+        if (!playing) {
+            return;
+        }
+        if (lastTime !== null) {
+            progress += ((time - lastTime) / 1000) * speed;
+            while (progress >= 1 && index < segments.length) {
+                progress -= 1;
+                index++;
+            }
+        }
+        lastTime = time;
+        if (index >= segments.length) {
+            progress = 0;
+            render();
+            setPlaying(false);
+            return;
+        }
+        render();
+        frame = requestAnimationFrame(tick);
+    }
+
+    playButton.addEventListener("click", function () {
+        if (index >= segments.length) {
+            index = 0;
+            progress = 0;
+        }
+        setPlaying(!playing);
+    });
+    document.getElementById("step").addEventListener("click", function () {
+        setPlaying(false);
+        if (index < segments.length) {
+            index++;
+            progress = 0;
+        }
+        render();
+    });
+    document.getElementById("restart").addEventListener("click", function () {
+        index = 0;
+        progress = 0;
+        render();
+        setPlaying(true);
+    });
+    speedInput.addEventListener("input", function () {
+        speed = Number(speedInput.value);
+        document.getElementById("speedLabel").textContent = speed;
+    });
+
+    render();
+    setPlaying(playing);
+})();
+</script>
+</body>
+</html>`;
+}
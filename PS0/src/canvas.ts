@@ -0,0 +1,227 @@
+import { Turtle, SimpleTurtle, Point, Color, PathSegment, Fill } from "./turtle";
+import { computeBounds } from "./analysis";
+import {
+  ExportOptions,
+  ExportLayer,
+  layersToSVG,
+  layersToHTML,
+  layersToPDF,
+} from "./export";
+
+/**
+ * A Canvas owns several named turtles, each drawing on its own layer, and merges their
+ * drawings into one picture.
+ */
+
+export type LayerOptions = {
+  /** Painting order: layers with higher zIndex are drawn on top; default one more than the highest so far. */
+  zIndex?: number;
+  /** Stroke width of this layer in output pixels; default the exporter's strokeWidth. */
+  strokeWidth?: number;
+  /** Initial pen color of the layer's turtle; default "black". */
+  color?: Color;
+  /** Where the layer's turtle starts, in its own coordinates; default the origin. */
+  start?: Point;
+  /** Translation applied to the layer when merging, in canvas coordinates; default none. */
+  offset?: Point;
+};
+
+/** A read-only view of one layer of a Canvas. */
+export type LayerInfo = {
+  name: string;
+  zIndex: number;
+  strokeWidth: number | undefined;
+  offset: Point;
+  turtle: SimpleTurtle;
+};
+
+type Layer = {
+  name: string;
+  zIndex: number;
+  strokeWidth: number | undefined;
+  offset: Point;
+  turtle: SimpleTurtle;
+  order: number;
+};
+
+export class Canvas {
+  private readonly layerMap = new Map<string, Layer>();
+  private nextOrder = 0;
+
+  // Abstraction function:
+  //   AF(layerMap) = a picture made of the layers in layerMap, each layer being the drawing of
+  //                  its turtle translated by its offset, painted in increasing (zIndex, order)
+  // Representation invariant:
+  //   every key of layerMap equals the name of its layer; layer orders are distinct
+
+  /**
+   * Adds a new layer with its own turtle.
+   * @param name unique name of the layer.
+   * @param options layer style, stacking and placement.
+   * @returns the layer's turtle.
+   * @throws Error if a layer with this name already exists.
+   */
+  addTurtle(name: string, options: LayerOptions = {}): SimpleTurtle {
+    if (this.layerMap.has(name)) {
+      throw new Error(`layer '${name}' already exists`);
+    }
+    const start = options.start ?? { x: 0, y: 0 };
+    const turtle = new SimpleTurtle(start.x, start.y);
+    if (options.color !== undefined) {
+      turtle.color(options.color);
+    }
+    const highest = Math.max(-1, ...[...this.layerMap.values()].map((layer) => layer.zIndex));
+    this.layerMap.set(name, {
+      name,
+      zIndex: options.zIndex ?? highest + 1,
+      strokeWidth: options.strokeWidth,
+      offset: options.offset ?? { x: 0, y: 0 },
+      turtle,
+      order: this.nextOrder++,
+    });
+    return turtle;
+  }
+
+  /**
+   * @param name layer name.
+   * @returns the turtle of the named layer, or undefined if there is no such layer.
+   */
+  getTurtle(name: string): SimpleTurtle | undefined {
+    return this.layerMap.get(name)?.turtle;
+  }
+
+  /**
+   * Removes a layer and its drawing.
+   * @param name layer name.
+   * @returns true iff the layer existed.
+   */
+  removeTurtle(name: string): boolean {
+    return this.layerMap.delete(name);
+  }
+
+  /**
+   * Runs a drawing function with the turtle of a layer, creating the layer if needed.
+   * @param name layer name.
+   * @param draw drawing function, e.g. `(t) => drawSquare(t, 100)`.
+   * @param options layer options, used only if the layer is created.
+   * @returns the layer's turtle.
+   */
+  run(name: string, draw: (turtle: Turtle) => void, options: LayerOptions = {}): SimpleTurtle {
+    const turtle = this.getTurtle(name) ?? this.addTurtle(name, options);
+    draw(turtle);
+    return turtle;
+  }
+
+  /**
+   * Moves a layer in canvas coordinates.
+   * @param name layer name.
+   * @param offset new translation of the layer.
+   * @throws Error if there is no such layer.
+   */
+  setOffset(name: string, offset: Point): void {
+    this.getLayer(name).offset = { x: offset.x, y: offset.y };
+  }
+
+  /**
+   * Changes the stacking order of a layer.
+   * @param name layer name.
+   * @param zIndex new zIndex; higher is on top.
+   * @throws Error if there is no such layer.
+   */
+  setZIndex(name: string, zIndex: number): void {
+    this.getLayer(name).zIndex = zIndex;
+  }
+
+  /**
+   * @returns the layers, bottom first.
+   */
+  layers(): LayerInfo[] {
+    return [...this.layerMap.values()]
+      .sort((a, b) => a.zIndex - b.zIndex || a.order - b.order)
+      .map(({ name, zIndex, strokeWidth, offset, turtle }) => ({
+        name,
+        zIndex,
+        strokeWidth,
+        offset: { ...offset },
+        turtle,
+      }));
+  }
+
+  /**
+   * Places the layers next to each other from left to right, in stacking order, so that their
+   * drawings do not overlap: each layer's bounding box starts gap units after the previous
+   * one ends, and all boxes are vertically centered on y = 0. Empty layers are left in place.
+   * @param gap horizontal space between neighboring layers; default 20.
+   */
+  arrangeSideBySide(gap: number = 20): void {
+    let nextLeft = 0;
+    for (const info of this.layers()) {
+      const bounds = computeBounds(info.turtle.getPath());
+      if (bounds === undefined) {
+        continue;
+      }
+      this.setOffset(info.name, {
+        x: nextLeft - bounds.minX,
+        y: -(bounds.minY + bounds.maxY) / 2,
+      });
+      nextLeft += bounds.maxX - bounds.minX + gap;
+    }
+  }
+
+  /**
+   * @returns the lines and fills of each layer translated into canvas coordinates, bottom first.
+   */
+  getLayerPaths(): Array<ExportLayer & { name: string }> {
+    return this.layers().map((info) => ({
+      name: info.name,
+      strokeWidth: info.strokeWidth,
+      path: info.turtle.getPath().map((segment) => translate(segment, info.offset)),
+      fills: info.turtle.getFills().map((fill) => translateFill(fill, info.offset)),
+    }));
+  }
+
+  /**
+   * @returns all layers merged into one path in canvas coordinates, bottom layer first.
+   */
+  getPath(): PathSegment[] {
+    return ([] as PathSegment[]).concat(...this.getLayerPaths().map((layer) => layer.path));
+  }
+
+  /** Renders the canvas with layersToSVG. */
+  toSVG(options: ExportOptions = {}): string {
+    return layersToSVG(this.getLayerPaths(), options);
+  }
+
+  /** Renders the canvas with layersToHTML. */
+  toHTML(options: ExportOptions = {}): string {
+    return layersToHTML(this.getLayerPaths(), options);
+  }
+
+  /** Renders the canvas with layersToPDF. */
+  toPDF(options: ExportOptions = {}): string {
+    return layersToPDF(this.getLayerPaths(), options);
+  }
+
+  private getLayer(name: string): Layer {
+    const layer = this.layerMap.get(name);
+    if (layer === undefined) {
+      throw new Error(`no layer named '${name}'`);
+    }
+    return layer;
+  }
+}
+
+function translate(segment: PathSegment, offset: Point): PathSegment {
+  return {
+    ...segment,
+    start: { x: segment.start.x + offset.x, y: segment.start.y + offset.y },
+    end: { x: segment.end.x + offset.x, y: segment.end.y + offset.y },
+  };
+}
+
+function translateFill(fill: Fill, offset: Point): Fill {
+  return {
+    ...fill,
+    points: fill.points.map((p) => ({ x: p.x + offset.x, y: p.y + offset.y })),
+  };
+}
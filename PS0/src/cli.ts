@@ -0,0 +1,430 @@
+import * as fs from "fs";
+import * as readline from "readline";
+import { Turtle, SimpleTurtle } from "./turtle";
+import { drawSquare, drawApproximateCircle, drawPersonalArt, openHTML } from "./turtlesoup";
+import { PRESETS, renderLSystem } from "./lsystem";
+import { ExportOptions, layersToSVG, layersToPDF, layersToHTML, formatNumber } from "./export";
+import { toAnimatedHTML, toAnimatedSVG } from "./animation";
+import { pathStatistics } from "./analysis";
+import { ScriptError, ScriptSyntaxError, parse, execute, tokenize } from "./turtlescript";
+
+/**
+ * Command-line entry point for turtle drawings:
+ *
+ *     turtle run <drawing|script> [--out output.html] [--open]
+ *     turtle export <drawing|script> --out <file> [--format <format>] [--open]
+ *     turtle stats <drawing|script>
+ *     turtle repl [--live <file.html>] [--open]
+ *     turtle list
+ *
+ * A drawing is one of the built-in names listed by `turtle list`; anything else is read as
+ * the path of a TurtleScript file. Nothing is opened in a browser unless --open is given.
+ */
+
+/** Everything the CLI does to the outside world, so that tests can run it in memory. */
+export type CliIO = {
+  /** Prints one line of normal output. */
+  stdout: (line: string) => void;
+  /** Prints one line of error output. */
+  stderr: (line: string) => void;
+  readFile: (path: string) => string;
+  writeFile: (path: string, content: string) => void;
+  /** Opens a written file for viewing, e.g. in a browser. */
+  openFile: (path: string) => void;
+  /** Lines typed into the REPL; default none. */
+  input?: NodeJS.ReadableStream;
+};
+
+/** CliIO backed by the console, the file system and process.stdin. */
+export const NODE_IO: CliIO = {
+  stdout: (line) => console.log(line),
+  stderr: (line) => console.error(line),
+  readFile: (path) => fs.readFileSync(path, "utf8"),
+  writeFile: (path, content) => fs.writeFileSync(path, content),
+  openFile: (path) => openHTML(path),
+  input: process.stdin,
+};
+
+/** Built-in drawings, by name. */
+export const DRAWINGS: Readonly<Record<string, (turtle: Turtle) => void>> = Object.keys(PRESETS).reduce(
+  (drawings, name) => ({ ...drawings, [name]: (turtle: Turtle) => void renderLSystem(PRESETS[name], turtle) }),
+  {
+    square: (turtle: Turtle) => drawSquare(turtle, 200),
+    circle: (turtle: Turtle) => drawApproximateCircle(turtle, 100, 360),
+    art: drawPersonalArt,
+  } as Record<string, (turtle: Turtle) => void>
+);
+
+export type OutputFormat = "html" | "svg" | "pdf" | "animated-html" | "animated-svg";
+
+const FORMATS: ReadonlyArray<OutputFormat> = ["html", "svg", "pdf", "animated-html", "animated-svg"];
+
+const USAGE = [
+  "usage: turtle run <drawing|script> [--out output.html] [--open]",
+  "       turtle export <drawing|script> --out <file> [--format html|svg|pdf|animated-html|animated-svg] [--open]",
+  "       turtle stats <drawing|script>",
+  "       turtle repl [--live <file.html>] [--open]",
+  "       turtle list",
+  "common options: --width <pixels> --height <pixels>",
+];
+
+/** Reported for bad command lines; runCli prints the message and the usage. */
+class UsageError extends Error {}
+
+type ParsedArgs = {
+  positional: string[];
+  options: Map<string, string>;
+  flags: Set<string>;
+};
+
+const VALUE_OPTIONS = new Set(["out", "format", "width", "height", "live"]);
+const FLAG_OPTIONS = new Set(["open"]);
+
+function parseArgs(argv: ReadonlyArray<string>): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], options: new Map(), flags: new Set() };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      parsed.positional.push(arg);
+      continue;
+    }
+    const name = arg.slice(2);
+    if (FLAG_OPTIONS.has(name)) {
+      parsed.flags.add(name);
+    } else if (VALUE_OPTIONS.has(name)) {
+      const value = argv[i + 1];
+      if (value === undefined) {
+        throw new UsageError(`option ${arg} needs a value`);
+      }
+      parsed.options.set(name, value);
+      i++;
+    } else {
+      throw new UsageError(`unknown option ${arg}`);
+    }
+  }
+  return parsed;
+}
+
+function exportOptionsOf(args: ParsedArgs): ExportOptions {
+  const options: ExportOptions = {};
+  for (const key of ["width", "height"] as const) {
+    const value = args.options.get(key);
+    if (value !== undefined) {
+      const pixels = Number(value);
+      if (!(pixels > 0)) {
+        throw new UsageError(`--${key} must be a positive number, got ${value}`);
+      }
+      options[key] = pixels;
+    }
+  }
+  return options;
+}
+
+/**
+ * Chooses an output format from an explicit --format or else the output file's extension.
+ * @param path output file.
+ * @param format value of --format, if given.
+ * @returns the format; "html" if neither says otherwise.
+ */
+export function formatFor(path: string, format?: string): OutputFormat {
+  if (format !== undefined) {
+    if (!(FORMATS as ReadonlyArray<string>).includes(format)) {
+      throw new UsageError(`unknown format '${format}'; expected one of ${FORMATS.join(", ")}`);
+    }
+    return format as OutputFormat;
+  }
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  return extension === "svg" ? "svg" : extension === "pdf" ? "pdf" : "html";
+}
+
+/**
+ * Renders a turtle's drawing in an output format.
+ * @param turtle the turtle whose drawing to render.
+ * @param format output format.
+ * @param options viewport and style options.
+ * @returns the contents of the output file.
+ * @throws Error if the format is animated and the drawing has fills, which animations cannot show.
+ */
+export function render(turtle: SimpleTurtle, format: OutputFormat, options: ExportOptions = {}): string {
+  const path = turtle.getPath();
+  const fills = turtle.getFills();
+  if (format.startsWith("animated-") && fills.length > 0) {
+    throw new Error(`format '${format}' cannot show filled shapes; use html, svg or pdf`);
+  }
+  switch (format) {
+    case "html":
+      return layersToHTML([{ path, fills }], options);
+    case "svg":
+      return layersToSVG([{ path, fills }], options);
+    case "pdf":
+      return layersToPDF([{ path, fills }], options);
+    case "animated-html":
+      return toAnimatedHTML(path, options);
+    case "animated-svg":
+      return toAnimatedSVG(path, options);
+  }
+}
+
+/** Draws a built-in drawing or a script file on a fresh turtle. */
+function draw(source: string | undefined, io: CliIO): SimpleTurtle {
+  if (source === undefined) {
+    throw new UsageError("missing drawing name or script file");
+  }
+  const turtle = new SimpleTurtle();
+  if (Object.prototype.hasOwnProperty.call(DRAWINGS, source)) {
+    DRAWINGS[source](turtle);
+  } else {
+    execute(parse(io.readFile(source)), turtle);
+  }
+  return turtle;
+}
+
+function write(turtle: SimpleTurtle, path: string, format: OutputFormat, args: ParsedArgs, io: CliIO): void {
+  io.writeFile(path, render(turtle, format, exportOptionsOf(args)));
+  io.stdout(`Drawing saved to ${path}`);
+  if (args.flags.has("open")) {
+    io.openFile(path);
+  }
+}
+
+function formatStatistics(turtle: SimpleTurtle): string[] {
+  const stats = pathStatistics(turtle.getPath());
+  const n = formatNumber;
+  const bounds = stats.bounds;
+  return [
+    `segments: ${stats.segmentCount}`,
+    `length: ${n(stats.length)}`,
+    `bounds: ${bounds === undefined ? "none" : `(${n(bounds.minX)}, ${n(bounds.minY)}) to (${n(bounds.maxX)}, ${n(bounds.maxY)})`}`,
+    `closed: ${stats.closed ? "yes" : "no"}`,
+    `area: ${stats.area === undefined ? "n/a" : n(stats.area)}`,
+    `self-intersections: ${stats.intersectionCount}`,
+    `length by color: ${[...stats.lengthByColor].map(([color, length]) => `${color} ${n(length)}`).join(", ") || "none"}`,
+  ];
+}
+
+/**
+ * An interactive TurtleScript session. Each input line is run on top of every line accepted
+ * so far, so procedures and variables persist between lines; a line that fails is rejected
+ * without changing the drawing. Lines starting with "." are session commands (see ".help").
+ */
+export class TurtleRepl {
+  private readonly accepted: string[] = [];
+  private pending: string[] = [];
+  private turtle = new SimpleTurtle();
+
+  // Abstraction function:
+  //   AF(accepted, pending, turtle) = a session whose drawing is the script accepted.join("\n"),
+  //       waiting for the rest of the unfinished input pending (e.g. an open 'repeat [' block)
+  // Representation invariant:
+  //   turtle is the result of running accepted.join("\n") on a fresh SimpleTurtle
+
+  /**
+   * @param onChange called with the turtle whenever the drawing changes.
+   */
+  constructor(private readonly onChange: (turtle: SimpleTurtle) => void = () => {}) {}
+
+  /** @returns the turtle holding the current drawing. */
+  getTurtle(): SimpleTurtle {
+    return this.turtle;
+  }
+
+  /** @returns true iff the previous lines left a command unfinished. */
+  isContinuing(): boolean {
+    return this.pending.length > 0;
+  }
+
+  /** @returns the accepted script so far. */
+  getScript(): string {
+    return this.accepted.join("\n");
+  }
+
+  /**
+   * Runs one line of input. Errors of any kind are reported in the returned lines rather than
+   * thrown, so that one bad line does not end the session.
+   * @param line a TurtleScript fragment or a session command.
+   * @returns lines to show the user.
+   */
+  evaluate(line: string): string[] {
+    try {
+      return this.run(line);
+    } catch (e) {
+      this.pending = [];
+      return [`error: ${e instanceof Error ? e.message : String(e)}`];
+    }
+  }
+
+  private run(line: string): string[] {
+    const trimmed = line.trim();
+    if (trimmed.startsWith(".")) {
+      return this.command(trimmed);
+    }
+    const entry = [...this.pending, line].join("\n");
+    const script = [...this.accepted, entry].join("\n");
+    // Report positions relative to the entry rather than the whole script
+    const offset = this.accepted.length === 0 ? 0 : this.getScript().split("\n").length;
+    const turtle = new SimpleTurtle();
+    try {
+      execute(parse(script), turtle);
+    } catch (e) {
+      if (e instanceof ScriptSyntaxError && atEnd(script, e)) {
+        this.pending.push(line);
+        return [];
+      }
+      this.pending = [];
+      if (e instanceof ScriptError && e.line > offset) {
+        return [`error: ${e.reason} (line ${e.line - offset}, column ${e.column})`];
+      }
+      if (e instanceof ScriptError) {
+        // e.g. a runtime error inside a procedure defined by an earlier entry
+        return [`error: ${e.reason} (in earlier input, line ${e.line}, column ${e.column})`];
+      }
+      throw e;
+    }
+    this.pending = [];
+    const previous = this.turtle;
+    this.accepted.push(entry);
+    try {
+      this.update(turtle);
+    } catch (e) {
+      // Keep the entry only if the drawing could be shown
+      this.accepted.pop();
+      this.turtle = previous;
+      throw e;
+    }
+    return [];
+  }
+
+  private command(text: string): string[] {
+    const [name] = text.split(/\s+/);
+    switch (name) {
+      case ".undo":
+        if (this.accepted.length === 0) {
+          return ["nothing to undo"];
+        }
+        this.accepted.pop();
+        this.rerun();
+        return [];
+      case ".clear":
+        this.accepted.length = 0;
+        this.pending = [];
+        this.rerun();
+        return [];
+      case ".script":
+        return this.accepted.slice();
+      case ".stats":
+        return formatStatistics(this.turtle);
+      case ".help":
+        return [
+          "Type TurtleScript commands, e.g. 'repeat 4 [ fd 100 rt 90 ]'.",
+          ".undo    take back the last accepted input",
+          ".clear   start over, also discarding unfinished input",
+          ".script  show the accepted script",
+          ".stats   show path statistics",
+          ".exit    leave the REPL",
+        ];
+      default:
+        return [`unknown command '${name}'; try .help`];
+    }
+  }
+
+  private rerun(): void {
+    const turtle = new SimpleTurtle();
+    execute(parse(this.getScript()), turtle);
+    this.update(turtle);
+  }
+
+  private update(turtle: SimpleTurtle): void {
+    this.turtle = turtle;
+    this.onChange(turtle);
+  }
+}
+
+/** Checks whether a syntax error is at the very end of the script, i.e. the input is unfinished. */
+function atEnd(script: string, error: ScriptSyntaxError): boolean {
+  const tokens = tokenize(script);
+  const eof = tokens[tokens.length - 1].position;
+  return error.line === eof.line && error.column === eof.column;
+}
+
+async function runRepl(args: ParsedArgs, io: CliIO): Promise<void> {
+  const live = args.options.get("live");
+  let opened = false;
+  const repl = new TurtleRepl((turtle) => {
+    if (live === undefined) {
+      return;
+    }
+    io.writeFile(live, render(turtle, "html", { ...exportOptionsOf(args), refreshSeconds: 1 }));
+    if (args.flags.has("open") && !opened) {
+      io.openFile(live);
+      opened = true;
+    }
+  });
+  io.stdout("TurtleScript REPL; type .help for commands");
+  if (io.input === undefined) {
+    return;
+  }
+  const lines = readline.createInterface({ input: io.input, terminal: false });
+  for await (const line of lines) {
+    if (line.trim() === ".exit") {
+      break;
+    }
+    repl.evaluate(line).forEach(io.stdout);
+  }
+  lines.close();
+}
+
+/**
+ * Runs the CLI.
+ * @param argv command-line arguments after the program name, e.g. ["run", "square"].
+ * @param io where input comes from and output goes; default the real console and file system.
+ * @returns the process exit code: 0 on success, 1 on a failed drawing, 2 on a bad command line.
+ */
+export async function runCli(argv: ReadonlyArray<string>, io: CliIO = NODE_IO): Promise<number> {
+  try {
+    const args = parseArgs(argv);
+    const [command, source, ...extra] = args.positional;
+    if (extra.length > 0) {
+      throw new UsageError(`unexpected argument '${extra[0]}'`);
+    }
+    switch (command) {
+      case "run": {
+        const out = args.options.get("out") ?? "output.html";
+        write(draw(source, io), out, formatFor(out, args.options.get("format")), args, io);
+        return 0;
+      }
+      case "export": {
+        const out = args.options.get("out");
+        if (out === undefined) {
+          throw new UsageError("export needs --out <file>");
+        }
+        write(draw(source, io), out, formatFor(out, args.options.get("format")), args, io);
+        return 0;
+      }
+      case "stats":
+        formatStatistics(draw(source, io)).forEach(io.stdout);
+        return 0;
+      case "repl":
+        await runRepl(args, io);
+        return 0;
+      case "list":
+        Object.keys(DRAWINGS).forEach(io.stdout);
+        return 0;
+      default:
+        throw new UsageError(command === undefined ? "missing command" : `unknown command '${command}'`);
+    }
+  } catch (e) {
+    if (e instanceof UsageError) {
+      io.stderr(`error: ${e.message}`);
+      USAGE.forEach(io.stderr);
+      return 2;
+    }
+    io.stderr(`error: ${e instanceof Error ? e.message : String(e)}`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * Colors a turtle can draw with: the nine named colors, or any CSS-style hex, rgb() or hsl()
+ * color.
+ */
+
+export type NamedColor =
+  | "black"
+  | "red"
+  | "green"
+  | "blue"
+  | "yellow"
+  | "purple"
+  | "orange"
+  | "cyan"
+  | "magenta";
+
+/** "#rgb" or "#rrggbb". */
+export type HexColor = `#${string}`;
+
+/** "rgb(r, g, b)" with components from 0 to 255. */
+export type RgbColor = `rgb(${string})`;
+
+/** "hsl(h, s%, l%)" with hue in degrees. */
+export type HslColor = `hsl(${string})`;
+
+/**
+ * A turtle color. The template types only constrain the prefix; use isColor to check that a
+ * string is well-formed.
+ */
+export type Color = NamedColor | HexColor | RgbColor | HslColor;
+
+/** Red, green and blue components, each from 0 to 255. */
+export type RGB = {
+  r: number;
+  g: number;
+  b: number;
+};
+
+const NAMED_COLORS: Record<NamedColor, RGB> = {
+  black: { r: 0, g: 0, b: 0 },
+  red: { r: 255, g: 0, b: 0 },
+  green: { r: 0, g: 128, b: 0 },
+  blue: { r: 0, g: 0, b: 255 },
+  yellow: { r: 255, g: 255, b: 0 },
+  purple: { r: 128, g: 0, b: 128 },
+  orange: { r: 255, g: 165, b: 0 },
+  cyan: { r: 0, g: 255, b: 255 },
+  magenta: { r: 255, g: 0, b: 255 },
+};
+
+const HEX_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const NUMBER = "\\s*(\\d+(?:\\.\\d+)?|\\.\\d+)";
+const RGB_PATTERN = new RegExp(`^rgb\\(${NUMBER}\\s*,${NUMBER}\\s*,${NUMBER}\\s*\\)$`);
+const HSL_PATTERN = new RegExp(`^hsl\\(\\s*(-?(?:\\d+(?:\\.\\d+)?|\\.\\d+))\\s*,${NUMBER}%\\s*,${NUMBER}%\\s*\\)$`);
+
+function hslToRGB(hue: number, saturation: number, lightness: number): RGB {
+  const h = (((hue % 360) + 360) % 360) / 60;
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const x = chroma * (1 - Math.abs((h % 2) - 1));
+  const [r1, g1, b1] =
+    h < 1 ? [chroma, x, 0]
+    : h < 2 ? [x, chroma, 0]
+    : h < 3 ? [0, chroma, x]
+    : h < 4 ? [0, x, chroma]
+    : h < 5 ? [x, 0, chroma]
+    : [chroma, 0, x];
+  const m = l - chroma / 2;
+  return {
+    r: Math.round((r1 + m) * 255),
+    g: Math.round((g1 + m) * 255),
+    b: Math.round((b1 + m) * 255),
+  };
+}
+
+/**
+ * Converts a color string to its RGB components.
+ * @param color a named, hex, rgb() or hsl() color; named colors are case-insensitive.
+ * @returns the components of color, or undefined if color is not well-formed
+ *          (including rgb() components above 255 and hsl() percentages above 100).
+ */
+export function parseColor(color: string): RGB | undefined {
+  const lower = color.trim().toLowerCase();
+  if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, lower)) {
+    return { ...NAMED_COLORS[lower as NamedColor] };
+  }
+  const hex = lower.match(HEX_PATTERN);
+  if (hex !== null) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, "$&$&") : hex[1];
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+    };
+  }
+  const rgb = lower.match(RGB_PATTERN);
+  if (rgb !== null) {
+    const [r, g, b] = rgb.slice(1).map(Number);
+    return r <= 255 && g <= 255 && b <= 255 ? { r, g, b } : undefined;
+  }
+  const hsl = lower.match(HSL_PATTERN);
+  if (hsl !== null) {
+    const [h, s, l] = hsl.slice(1).map(Number);
+    return s <= 100 && l <= 100 ? hslToRGB(h, s, l) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether a string is a well-formed turtle color.
+ * @param value string to check.
+ * @returns true iff value is a Color that parseColor accepts. Named colors must be lowercase.
+ */
+export function isColor(value: string): value is Color {
+  if (/^[a-z]+$/i.test(value)) {
+    return Object.prototype.hasOwnProperty.call(NAMED_COLORS, value);
+  }
+  return value.trim() === value && parseColor(value) !== undefined;
+}
+
+/**
+ * Formats RGB components as a hex color.
+ * @param rgb components, each rounded and clamped to [0, 255].
+ * @returns "#rrggbb".
+ */
+export function toHex(rgb: RGB): HexColor {
+  const hex = (n: number): string => ("0" + Math.max(0, Math.min(255, Math.round(n))).toString(16)).slice(-2);
+  return `#${hex(rgb.r)}${hex(rgb.g)}${hex(rgb.b)}`;
+}
@@ -0,0 +1,350 @@
+import { Point, PathSegment, Fill, parseColor } from "./turtle";
+import { Bounds, computeBounds } from "./analysis";
+
+/**
+ * Exporters that turn a turtle drawing (the segment list from SimpleTurtle.getPath())
+ * into standalone SVG, PDF and HTML documents.
+ *
+ * Every exporter fits the bounding box of the drawing into a viewport of the requested size,
+ * so nothing is clipped no matter where the turtle wandered.
+ */
+
+export type ExportOptions = {
+  /** Width of the output in pixels (points for PDF); default 500. */
+  width?: number;
+  /** Height of the output in pixels (points for PDF); default 500. */
+  height?: number;
+  /** Empty margin kept around the drawing, in output pixels; default 20. */
+  padding?: number;
+  /** CSS color filling the whole viewport, or "none" for transparent; default "#f0f0f0". */
+  background?: string;
+  /** Stroke width in output pixels, independent of the fitted scale; default 2. */
+  strokeWidth?: number;
+  /** Document title for HTML and PDF; default "Turtle Graphics Output". */
+  title?: string;
+  /** If positive, HTML pages reload themselves every this many seconds, to follow a file being redrawn; default 0. */
+  refreshSeconds?: number;
+};
+
+/**
+ * Maps turtle coordinates to output coordinates: output = turtle * scale + offset.
+ * Output coordinates have the origin at the top left and y growing downward, like turtle coordinates.
+ */
+export type Viewport = {
+  width: number;
+  height: number;
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+};
+
+export const DEFAULTS: Required<ExportOptions> = {
+  width: 500,
+  height: 500,
+  padding: 20,
+  background: "#f0f0f0",
+  strokeWidth: 2,
+  title: "Turtle Graphics Output",
+  refreshSeconds: 0,
+};
+
+/**
+ * Fills in every option the caller left out.
+ * @param options caller's options.
+ * @returns options with DEFAULTS for missing entries.
+ */
+export function withDefaults(options: ExportOptions): Required<ExportOptions> {
+  return { ...DEFAULTS, ...options };
+}
+
+/**
+ * Chooses the transform that fits a bounding box into a viewport.
+ * The box is scaled uniformly to fill the viewport minus padding and centered in it.
+ * A box that is a single point is drawn at scale 1; a box with no area is scaled along its
+ * nonzero dimension only.
+ * @param bounds box to fit, or undefined for an empty drawing (centers the origin at scale 1).
+ * @param options viewport size and padding.
+ * @returns the fitted viewport.
+ * @throws Error if the padding leaves no room to draw a box with extent.
+ */
+export function fitViewport(bounds: Bounds | undefined, options: ExportOptions = {}): Viewport {
+  const { width, height, padding } = withDefaults(options);
+  const box = bounds ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  const boxWidth = box.maxX - box.minX;
+  const boxHeight = box.maxY - box.minY;
+  const availableWidth = Math.max(width - 2 * padding, 0);
+  const availableHeight = Math.max(height - 2 * padding, 0);
+
+  const candidates: number[] = [];
+  if (boxWidth > 0) {
+    candidates.push(availableWidth / boxWidth);
+  }
+  if (boxHeight > 0) {
+    candidates.push(availableHeight / boxHeight);
+  }
+  const scale = candidates.length > 0 ? Math.min(...candidates) : 1;
+  if (!(scale > 0 && Number.isFinite(scale))) {
+    throw new Error(`padding ${padding} leaves no room to draw in a ${width}x${height} viewport`);
+  }
+
+  const centerX = (box.minX + box.maxX) / 2;
+  const centerY = (box.minY + box.maxY) / 2;
+  return {
+    width,
+    height,
+    scale,
+    offsetX: width / 2 - centerX * scale,
+    offsetY: height / 2 - centerY * scale,
+  };
+}
+
+/**
+ * Maps a point from turtle coordinates to output coordinates.
+ * @param viewport fitted viewport.
+ * @param p point in turtle coordinates.
+ * @returns p in output coordinates.
+ */
+export function transformPoint(viewport: Viewport, p: Point): Point {
+  return {
+    x: p.x * viewport.scale + viewport.offsetX,
+    y: p.y * viewport.scale + viewport.offsetY,
+  };
+}
+
+/**
+ * Expresses a fitted viewport as an SVG viewBox in turtle coordinates.
+ * @param viewport fitted viewport.
+ * @returns [minX, minY, width, height] of the viewBox.
+ */
+export function viewBoxOf(viewport: Viewport): [number, number, number, number] {
+  return [
+    -viewport.offsetX / viewport.scale,
+    -viewport.offsetY / viewport.scale,
+    viewport.width / viewport.scale,
+    viewport.height / viewport.scale,
+  ];
+}
+
+/**
+ * Converts a turtle color, or "white" (a common background), to RGB components in [0, 255].
+ * Unrecognized colors are treated as black.
+ */
+function toRGB(color: string): [number, number, number] {
+  const rgb = color.trim().toLowerCase() === "white" ? { r: 255, g: 255, b: 255 } : parseColor(color);
+  return rgb === undefined ? [0, 0, 0] : [rgb.r, rgb.g, rgb.b];
+}
+
+/**
+ * Formats a coordinate with at most 3 decimal places and no trailing zeros.
+ */
+export function formatNumber(n: number): string {
+  const rounded = Math.round(n * 1000) / 1000;
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+}
+
+/**
+ * Escapes text for use in XML/HTML content and attribute values.
+ */
+export function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * One independently styled part of a drawing, e.g. the path of one turtle on a Canvas.
+ * Layers are painted in array order, so later layers appear on top.
+ */
+export type ExportLayer = {
+  /** Identifies the layer in the output (an SVG group id); optional. */
+  name?: string;
+  path: ReadonlyArray<PathSegment>;
+  /** Stroke width in output pixels; default the strokeWidth export option. */
+  strokeWidth?: number;
+  /** Filled polygons, e.g. from SimpleTurtle.getFills(), painted beneath the layer's lines; default none. */
+  fills?: ReadonlyArray<Fill>;
+};
+
+/**
+ * Collects the bounding box of every layer's lines and fills.
+ */
+function layersBounds(layers: ReadonlyArray<ExportLayer>): Bounds | undefined {
+  const segments: PathSegment[] = [];
+  for (const layer of layers) {
+    segments.push(...layer.path);
+    for (const fill of layer.fills ?? []) {
+      segments.push(...fill.points.map((point) => ({ start: point, end: point, color: fill.color })));
+    }
+  }
+  return computeBounds(segments);
+}
+
+/**
+ * Renders a drawing as a standalone SVG document.
+ * Line coordinates are written in turtle coordinates; the fitted transform is expressed through
+ * the viewBox, and strokes use vector-effect="non-scaling-stroke" so strokeWidth stays in pixels.
+ * @param path segments of the drawing.
+ * @param options viewport and style options.
+ * @returns SVG markup, starting with the <svg> element.
+ */
+export function toSVG(path: ReadonlyArray<PathSegment>, options: ExportOptions = {}): string {
+  return layersToSVG([{ path }], options);
+}
+
+/**
+ * Renders a layered drawing as a standalone SVG document, one <g> group per layer.
+ * The viewport is fitted to all layers together.
+ * @param layers layers of the drawing, bottom first.
+ * @param options viewport and style options.
+ * @returns SVG markup, starting with the <svg> element.
+ */
+export function layersToSVG(layers: ReadonlyArray<ExportLayer>, options: ExportOptions = {}): string {
+  const { background, strokeWidth } = withDefaults(options);
+  const viewport = fitViewport(layersBounds(layers), options);
+  const viewBox = viewBoxOf(viewport);
+
+  const lines: string[] = [];
+  if (background !== "none") {
+    lines.push(
+      `  <rect x="${formatNumber(viewBox[0])}" y="${formatNumber(viewBox[1])}" width="${formatNumber(viewBox[2])}" height="${formatNumber(viewBox[3])}" fill="${escapeXML(background)}"/>`
+    );
+  }
+  for (const layer of layers) {
+    const id = layer.name === undefined ? "" : ` id="${escapeXML(layer.name)}"`;
+    lines.push(
+      `  <g${id} fill="none" stroke-width="${formatNumber(layer.strokeWidth ?? strokeWidth)}" stroke-linecap="round">`
+    );
+    for (const fill of layer.fills ?? []) {
+      const points = fill.points.map((p) => `${formatNumber(p.x)},${formatNumber(p.y)}`).join(" ");
+      lines.push(`    <polygon points="${points}" fill="${escapeXML(fill.color)}" stroke="none"/>`);
+    }
+    for (const segment of layer.path) {
+      const width = segment.width === undefined ? "" : ` stroke-width="${formatNumber(segment.width)}"`;
+      lines.push(
+        `    <line x1="${formatNumber(segment.start.x)}" y1="${formatNumber(segment.start.y)}" x2="${formatNumber(segment.end.x)}" y2="${formatNumber(segment.end.y)}" stroke="${escapeXML(segment.color)}"${width} vector-effect="non-scaling-stroke"/>`
+      );
+    }
+    lines.push("  </g>");
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${viewport.width}" height="${viewport.height}" viewBox="${viewBox.map(formatNumber).join(" ")}">
+${lines.join("\n")}
+</svg>`;
+}
+
+/**
+ * Renders a drawing as an HTML page containing the SVG produced by toSVG.
+ * @param path segments of the drawing.
+ * @param options viewport and style options.
+ * @returns a complete HTML document.
+ */
+export function toHTML(path: ReadonlyArray<PathSegment>, options: ExportOptions = {}): string {
+  return layersToHTML([{ path }], options);
+}
+
+/**
+ * Renders a layered drawing as an HTML page containing the SVG produced by layersToSVG.
+ * @param layers layers of the drawing, bottom first.
+ * @param options viewport and style options.
+ * @returns a complete HTML document.
+ */
+export function layersToHTML(layers: ReadonlyArray<ExportLayer>, options: ExportOptions = {}): string {
+  const { title, refreshSeconds } = withDefaults(options);
+  const refresh = refreshSeconds > 0 ? `\n    <meta http-equiv="refresh" content="${refreshSeconds}">` : "";
+  return `<!DOCTYPE html>
+<html>
+<head>${refresh}
+    <title>${escapeXML(title)}</title>
+    <style>
+        body { margin: 0; }
+        svg { display: block; }
+    </style>
+</head>
+<body>
+${layersToSVG(layers, options)}
+</body>
+</html>`;
+}
+
+/**
+ * Renders a drawing as a single-page PDF document.
+ * The page is options.width x options.height points, and only uses ASCII, so the returned
+ * string can be written to a file as-is.
+ * @param path segments of the drawing.
+ * @param options viewport and style options.
+ * @returns the bytes of a PDF 1.4 file, as a string.
+ */
+export function toPDF(path: ReadonlyArray<PathSegment>, options: ExportOptions = {}): string {
+  return layersToPDF([{ path }], options);
+}
+
+/**
+ * Renders a layered drawing as a single-page PDF document, as described for toPDF.
+ * @param layers layers of the drawing, bottom first.
+ * @param options viewport and style options.
+ * @returns the bytes of a PDF 1.4 file, as a string.
+ */
+export function layersToPDF(layers: ReadonlyArray<ExportLayer>, options: ExportOptions = {}): string {
+  const { background, strokeWidth, title } = withDefaults(options);
+  const viewport = fitViewport(layersBounds(layers), options);
+  const rgb = (color: string): string =>
+    toRGB(color)
+      .map((c) => formatNumber(c / 255))
+      .join(" ");
+
+  // PDF has y growing upward from the bottom of the page
+  const pdfPoint = (p: Point): string => {
+    const q = transformPoint(viewport, p);
+    return `${formatNumber(q.x)} ${formatNumber(viewport.height - q.y)}`;
+  };
+
+  const content: string[] = [];
+  if (background !== "none") {
+    content.push(`${rgb(background)} rg 0 0 ${viewport.width} ${viewport.height} re f`);
+  }
+  content.push("1 J 1 j");
+  for (const layer of layers) {
+    for (const fill of layer.fills ?? []) {
+      if (fill.points.length < 3) {
+        continue;
+      }
+      const [first, ...rest] = fill.points;
+      content.push(`${rgb(fill.color)} rg ${pdfPoint(first)} m ${rest.map((p) => `${pdfPoint(p)} l`).join(" ")} h f`);
+    }
+    const layerWidth = layer.strokeWidth ?? strokeWidth;
+    let currentWidth: number | undefined = undefined;
+    for (const segment of layer.path) {
+      const width = segment.width ?? layerWidth;
+      if (width !== currentWidth) {
+        content.push(`${formatNumber(width)} w`);
+        currentWidth = width;
+      }
+      content.push(`${rgb(segment.color)} RG ${pdfPoint(segment.start)} m ${pdfPoint(segment.end)} l S`);
+    }
+  }
+  const stream = content.join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${viewport.width} ${viewport.height}] /Contents 4 0 R >>`,
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    `<< /Title (${title.replace(/[\\()]/g, "\\$&").replace(/[^\x20-\x7e]/g, "?")}) >>`,
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    pdf += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return pdf;
+}
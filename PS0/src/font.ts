@@ -0,0 +1,353 @@
+import { Turtle, Point } from "./turtle";
+
+/**
+ * A built-in single-stroke vector font covering printable ASCII, and functions that lay out
+ * and draw text with it through the Turtle interface.
+ *
+ * Glyphs are designed on a grid in font units with y growing downward like turtle coordinates:
+ * capitals span y = 0 (cap height) to y = 6 (baseline), lowercase letters start at y = 2
+ * (x-height) and descenders reach y = 8.
+ */
+
+/** Cap height of the font in font units; drawing at size s scales font units by s / CAP_HEIGHT. */
+export const CAP_HEIGHT = 6;
+
+/** Space between the rightmost ink of a glyph and the origin of the next one, in font units. */
+const LETTER_SPACING = 2;
+
+/** Advance of a space character, in font units. */
+const SPACE_WIDTH = 3;
+
+/** A character of the font: strokes are polylines in font units. */
+export type Glyph = {
+  strokes: Point[][];
+  /** Horizontal distance from this glyph's origin to the next glyph's, in font units. */
+  advance: number;
+};
+
+export type TextAlign = "left" | "center" | "right";
+
+export type TextOptions = {
+  /** How each line is placed relative to the start position; default "left". */
+  align?: TextAlign;
+  /** Lines are wrapped at spaces (or inside words, if needed) to fit this width in turtle units; default no limit. */
+  maxWidth?: number;
+  /** Distance between baselines as a multiple of size; default 1.6. */
+  lineHeight?: number;
+  /** Whether to tighten spacing between pairs like "AV" and "To"; default true. */
+  kerning?: boolean;
+  /** Whether baselines follow the turtle's heading instead of running left to right; default false. */
+  followHeading?: boolean;
+};
+
+/** The result of laying out text, in turtle units. */
+export type TextMetrics = {
+  /** Text of each line after wrapping, without the spaces where lines were broken. */
+  lines: string[];
+  lineWidths: number[];
+  /** Width of the widest line. */
+  width: number;
+  /** Distance from the cap height of the first line to the baseline of the last line. */
+  height: number;
+};
+
+/*
+ * Each glyph is a space-separated list of strokes; each stroke is a run of two-digit
+ * points "xy" in font units, e.g. "0640" is a line from (0, 6) to (4, 0).
+ */
+const GLYPH_DATA: Record<string, string> = {
+  " ": "",
+  "!": "0004 0506",
+  '"': "0001 2021",
+  "#": "1016 3036 0242 0444",
+  $: "413010010213334445361605 2026",
+  "%": "0640 0010110100 3545463635",
+  "&": "4602011021220405162644",
+  "'": "0001",
+  "(": "10010516",
+  ")": "00111506",
+  "*": "2125 0244 0442",
+  "+": "2125 0343",
+  ",": "151607",
+  "-": "0333",
+  ".": "0506",
+  "/": "0640",
+  "0": "103041453616050110 0541",
+  "1": "112026 1636",
+  "2": "01103041420646",
+  "3": "0110304142334445361605 1333",
+  "4": "36300444",
+  "5": "4000033344453606",
+  "6": "30100105163645443303",
+  "7": "004016",
+  "8": "13020110304142331304051636454433",
+  "9": "43130201103041453616",
+  ":": "0203 0506",
+  ";": "1213 151607",
+  "<": "300336",
+  "=": "0232 0434",
+  ">": "003306",
+  "?": "01103041422324 2526",
+  "@": "34321214344341301001051646",
+  A: "0602204246 0343",
+  B: "06003041423303 3344453606",
+  C: "4130100105163645",
+  D: "00062644422000",
+  E: "40000646 0333",
+  F: "400006 0333",
+  G: "41301001051636454323",
+  H: "0006 4046 0343",
+  I: "1030 2026 1636",
+  J: "4045361605",
+  K: "0006 4004 1346",
+  L: "000646",
+  M: "0600224046",
+  N: "06004640",
+  O: "103041453616050110",
+  P: "06003041423303",
+  Q: "103041453616050110 2446",
+  R: "06003041423303 2346",
+  S: "413010010213334445361605",
+  T: "0040 2026",
+  U: "000516364540",
+  V: "002640",
+  W: "0016233640",
+  X: "0046 4006",
+  Y: "002240 2226",
+  Z: "00400646",
+  "[": "20000626",
+  "\\": "0046",
+  "]": "00202606",
+  "^": "022042",
+  _: "0747",
+  "`": "0011",
+  a: "3236 3322120305162635",
+  b: "0006 0312223335261605",
+  c: "3322120305162635",
+  d: "3036 3322120305162635",
+  e: "043433221203051636",
+  f: "30201116 0222",
+  g: "3237281807 3322120305162635",
+  h: "0006 0312223336",
+  i: "0206 0001",
+  j: "121708 1011",
+  k: "0006 3205 1436",
+  l: "000516",
+  m: "0602 03122326 23324346",
+  n: "0602 0312223336",
+  o: "122233352616050312",
+  p: "0208 0312223335261605",
+  q: "3238 3322120305162635",
+  r: "0206 042232",
+  s: "3212031424352606",
+  t: "10152636 0222",
+  u: "0205162635 3236",
+  v: "022632",
+  w: "0216233642",
+  x: "0236 3206",
+  y: "0205162635 32372818",
+  z: "02320636",
+  "{": "20111203141526",
+  "|": "0007",
+  "}": "00111223141506",
+  "~": "03123443",
+};
+
+/** Kerning adjustments in font units, added to the advance of the first character of each pair. */
+const KERNING: Record<string, number> = {
+  AT: -1,
+  AV: -1,
+  AW: -1,
+  AY: -1,
+  LT: -1,
+  LV: -1,
+  LW: -1,
+  LY: -1,
+  TA: -1,
+  Ta: -1,
+  Te: -1,
+  To: -1,
+  "T.": -1,
+  "T,": -1,
+  VA: -1,
+  Va: -1,
+  Vo: -1,
+  "V.": -1,
+  WA: -1,
+  YA: -1,
+  Ya: -1,
+  Yo: -1,
+  "Y.": -1,
+  "P.": -1,
+  "P,": -1,
+  "F.": -1,
+};
+
+function decodeGlyph(data: string): Glyph {
+  const strokes = data
+    .split(" ")
+    .filter((stroke) => stroke.length > 0)
+    .map((stroke) => {
+      const points: Point[] = [];
+      for (let i = 0; i + 1 < stroke.length; i += 2) {
+        points.push({ x: Number(stroke[i]), y: Number(stroke[i + 1]) });
+      }
+      return points;
+    });
+  const advance =
+    strokes.length === 0
+      ? SPACE_WIDTH
+      : Math.max(...([] as Point[]).concat(...strokes).map((p) => p.x)) + LETTER_SPACING;
+  return { strokes, advance };
+}
+
+const GLYPHS = new Map<string, Glyph>(Object.keys(GLYPH_DATA).map((char) => [char, decodeGlyph(GLYPH_DATA[char])]));
+
+/**
+ * Looks up the glyph of a character.
+ * @param char a single character.
+ * @returns its glyph; tabs are drawn as a space, and characters the font does not cover as "?".
+ */
+export function getGlyph(char: string): Glyph {
+  return GLYPHS.get(char === "\t" ? " " : char) ?? (GLYPHS.get("?") as Glyph);
+}
+
+/**
+ * @param left a character.
+ * @param right the character after it.
+ * @returns the kerning adjustment between them in font units, 0 for most pairs.
+ */
+export function kerningBetween(left: string, right: string): number {
+  return KERNING[left + right] ?? 0;
+}
+
+/** Width of a line in font units, without the letter spacing after its last glyph. */
+function lineWidth(line: string, kerning: boolean): number {
+  const chars = Array.from(line);
+  let width = 0;
+  chars.forEach((char, i) => {
+    width += getGlyph(char).advance;
+    if (kerning && i + 1 < chars.length) {
+      width += kerningBetween(char, chars[i + 1]);
+    }
+  });
+  const last = chars[chars.length - 1];
+  return last === undefined || getGlyph(last).strokes.length === 0 ? width : width - LETTER_SPACING;
+}
+
+/**
+ * Breaks one paragraph into lines no wider than maxWidth font units: greedily at spaces, and
+ * inside a word only when the word alone is too wide.
+ */
+function wrapParagraph(paragraph: string, maxWidth: number, kerning: boolean): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of paragraph.split(" ")) {
+    const candidate = current === "" ? word : `${current} ${word}`;
+    if (lineWidth(candidate, kerning) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    if (current !== "") {
+      lines.push(current);
+    }
+    current = "";
+    for (const char of Array.from(word)) {
+      if (current !== "" && lineWidth(current + char, kerning) > maxWidth) {
+        lines.push(current);
+        current = "";
+      }
+      current += char;
+    }
+  }
+  lines.push(current);
+  return lines;
+}
+
+/**
+ * Lays out text without drawing it.
+ * @param text text to measure; "\n" starts a new line.
+ * @param size cap height in turtle units; must be positive.
+ * @param options wrapping, spacing and kerning options; align and followHeading do not affect the result.
+ * @returns the wrapped lines and their dimensions in turtle units.
+ * @throws Error if size or options.maxWidth is not positive.
+ */
+export function measureText(text: string, size: number, options: TextOptions = {}): TextMetrics {
+  if (!(size > 0)) {
+    throw new Error(`text size must be positive, got ${size}`);
+  }
+  if (options.maxWidth !== undefined && !(options.maxWidth > 0)) {
+    throw new Error(`maxWidth must be positive, got ${options.maxWidth}`);
+  }
+  const kerning = options.kerning ?? true;
+  const scale = size / CAP_HEIGHT;
+  const paragraphs = text.split("\n");
+  const lines =
+    options.maxWidth === undefined
+      ? paragraphs
+      : ([] as string[]).concat(...paragraphs.map((p) => wrapParagraph(p, (options.maxWidth as number) / scale, kerning)));
+  const lineWidths = lines.map((line) => lineWidth(line, kerning) * scale);
+  return {
+    lines,
+    lineWidths,
+    width: Math.max(0, ...lineWidths),
+    height: size + (lines.length - 1) * size * (options.lineHeight ?? 1.6),
+  };
+}
+
+/**
+ * Draws text with the built-in font.
+ * The turtle's position is the start of the first line's baseline: the left end for "left"
+ * alignment, the middle for "center" and the right end for "right". Later lines go below it.
+ * The turtle's position, heading and pen state are the same afterward as before;
+ * the text is drawn in the current pen color.
+ * @param turtle the turtle to draw with.
+ * @param text text to draw; "\n" starts a new line.
+ * @param size cap height in turtle units; must be positive.
+ * @param options alignment, wrapping, spacing and orientation options.
+ * @returns the layout of the drawn text.
+ * @throws Error if size or options.maxWidth is not positive.
+ */
+export function drawText(turtle: Turtle, text: string, size: number, options: TextOptions = {}): TextMetrics {
+  const metrics = measureText(text, size, options);
+  const kerning = options.kerning ?? true;
+  const align = options.align ?? "left";
+  const lineHeight = size * (options.lineHeight ?? 1.6);
+  const scale = size / CAP_HEIGHT;
+
+  // Unit vectors along the baseline and toward the bottom of the glyphs
+  const angle = (((options.followHeading ?? false) ? turtle.getHeading() : 90) * Math.PI) / 180;
+  const along = { x: Math.sin(angle), y: -Math.cos(angle) };
+  const down = { x: Math.cos(angle), y: Math.sin(angle) };
+  const origin = turtle.getPosition();
+  const toTurtle = (u: number, v: number): Point => ({
+    x: origin.x + u * along.x + v * down.x,
+    y: origin.y + u * along.y + v * down.y,
+  });
+
+  turtle.pushState();
+  turtle.penUp();
+  metrics.lines.forEach((line, row) => {
+    const width = metrics.lineWidths[row];
+    let cursor = align === "left" ? 0 : align === "center" ? -width / 2 : -width;
+    const chars = Array.from(line);
+    chars.forEach((char, i) => {
+      const glyph = getGlyph(char);
+      for (const stroke of glyph.strokes) {
+        stroke.forEach((p, j) => {
+          if (j === 1) {
+            turtle.penDown();
+          }
+          turtle.goTo(toTurtle(cursor + p.x * scale, row * lineHeight + (p.y - CAP_HEIGHT) * scale));
+        });
+        turtle.penUp();
+      }
+      cursor += glyph.advance * scale;
+      if (kerning && i + 1 < chars.length) {
+        cursor += kerningBetween(char, chars[i + 1]) * scale;
+      }
+    });
+  });
+  turtle.popState();
+  return metrics;
+}
@@ -0,0 +1,364 @@
+import { Turtle, Color } from "./turtle";
+
+/**
+ * L-systems (Lindenmayer systems) drawn with a Turtle.
+ *
+ * An L-system rewrites every symbol of a string in parallel, once per iteration, starting from
+ * its axiom. The resulting string is then read left to right, and each symbol that has an
+ * action performs it on the turtle. Symbols without an action (such as X in the fractal plant)
+ * only steer the rewriting.
+ */
+
+/**
+ * Rewrites one symbol.
+ * If several rules apply to the same symbol, one is picked at random, weighted by probability.
+ * Rules with a context take precedence over rules without one.
+ */
+export type ProductionRule = {
+  /** The single symbol this rule rewrites. */
+  predecessor: string;
+  /** The string that replaces the predecessor. */
+  successor: string;
+  /** Relative weight among the rules that apply at the same place; default 1. */
+  probability?: number;
+  /** Symbols that must immediately precede the predecessor, e.g. "AB". */
+  leftContext?: string;
+  /** Symbols that must immediately follow the predecessor. */
+  rightContext?: string;
+};
+
+/** What a symbol does to the turtle when the expanded string is drawn. */
+export type TurtleAction =
+  | { kind: "forward"; distance: number }
+  | { kind: "move"; distance: number } // forward without drawing
+  | { kind: "turn"; degrees: number }
+  | { kind: "push" }
+  | { kind: "pop" }
+  | { kind: "color"; color: Color };
+
+export type LSystem = {
+  axiom: string;
+  rules: ProductionRule[];
+  /** Action of each symbol; symbols not listed do nothing when drawn. */
+  actions: Record<string, TurtleAction>;
+  /** Symbols skipped when matching left and right contexts, e.g. "+-". */
+  ignore?: string;
+  /** Heading the turtle is set to before drawing; default leaves the heading alone. */
+  initialHeading?: number;
+};
+
+/** An L-system together with the number of iterations that draws it well. */
+export type LSystemPreset = LSystem & {
+  iterations: number;
+};
+
+export type ExpandOptions = {
+  /** Source of randomness in [0, 1) for stochastic rules; default Math.random. */
+  random?: () => number;
+  /** Longest string expand may produce before giving up; default 1,000,000. */
+  maxLength?: number;
+};
+
+/**
+ * Makes a deterministic pseudo-random number generator (mulberry32), so stochastic L-systems
+ * can be reproduced.
+ * @param seed any integer.
+ * @returns a function returning numbers in [0, 1), the same sequence for the same seed.
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Checks that the symbols before position i match context, skipping ignored symbols.
+ * Following ABOP, a left context may reach across branches: a complete bracketed branch
+ * before i is skipped, and so is the "[" that opens the branch i is in.
+ */
+function matchesLeft(symbols: string, i: number, context: string, ignore: string): boolean {
+  let j = i - 1;
+  for (let k = context.length - 1; k >= 0; k--) {
+    while (j >= 0) {
+      const c = symbols[j];
+      if (ignore.includes(c) || c === "[") {
+        j--;
+      } else if (c === "]") {
+        let depth = 1;
+        j--;
+        while (j >= 0 && depth > 0) {
+          if (symbols[j] === "]") {
+            depth++;
+          }
+          if (symbols[j] === "[") {
+            depth--;
+          }
+          j--;
+        }
+      } else {
+        break;
+      }
+    }
+    if (j < 0 || symbols[j] !== context[k]) {
+      return false;
+    }
+    j--;
+  }
+  return true;
+}
+
+/**
+ * Checks that the symbols after position i match context, skipping ignored symbols and
+ * complete bracketed branches. The end of the enclosing branch ("]") never matches.
+ */
+function matchesRight(symbols: string, i: number, context: string, ignore: string): boolean {
+  let j = i + 1;
+  for (const expected of context) {
+    while (j < symbols.length) {
+      const c = symbols[j];
+      if (ignore.includes(c)) {
+        j++;
+      } else if (c === "[") {
+        let depth = 1;
+        j++;
+        while (j < symbols.length && depth > 0) {
+          if (symbols[j] === "[") {
+            depth++;
+          }
+          if (symbols[j] === "]") {
+            depth--;
+          }
+          j++;
+        }
+      } else {
+        break;
+      }
+    }
+    if (j >= symbols.length || symbols[j] !== expected) {
+      return false;
+    }
+    j++;
+  }
+  return true;
+}
+
+function pickWeighted(rules: ProductionRule[], random: () => number): ProductionRule {
+  if (rules.length === 1) {
+    return rules[0];
+  }
+  const total = rules.reduce((sum, rule) => sum + (rule.probability ?? 1), 0);
+  let threshold = random() * total;
+  for (const rule of rules) {
+    threshold -= rule.probability ?? 1;
+    if (threshold < 0) {
+      return rule;
+    }
+  }
+  return rules[rules.length - 1];
+}
+
+/**
+ * Rewrites the axiom of an L-system the given number of times.
+ * @param system the L-system.
+ * @param iterations number of parallel rewriting steps, a non-negative integer.
+ * @param options randomness for stochastic rules and a size limit.
+ * @returns the string after iterations steps; the axiom itself for 0 iterations.
+ * @throws Error if iterations is not a non-negative integer, or the string grows past options.maxLength.
+ */
+export function expand(system: LSystem, iterations: number, options: ExpandOptions = {}): string {
+  if (!Number.isInteger(iterations) || iterations < 0) {
+    throw new Error(`iterations must be a non-negative integer, got ${iterations}`);
+  }
+  const random = options.random ?? Math.random;
+  const maxLength = options.maxLength ?? 1000000;
+  const ignore = system.ignore ?? "";
+
+  const rulesBySymbol = new Map<string, ProductionRule[]>();
+  for (const rule of system.rules) {
+    const rules = rulesBySymbol.get(rule.predecessor) ?? [];
+    rules.push(rule);
+    rulesBySymbol.set(rule.predecessor, rules);
+  }
+
+  let current = system.axiom;
+  for (let n = 0; n < iterations; n++) {
+    const parts: string[] = [];
+    let length = 0;
+    for (let i = 0; i < current.length; i++) {
+      const symbol = current[i];
+      const applicable = (rulesBySymbol.get(symbol) ?? []).filter(
+        (rule) =>
+          (rule.leftContext === undefined || matchesLeft(current, i, rule.leftContext, ignore)) &&
+          (rule.rightContext === undefined || matchesRight(current, i, rule.rightContext, ignore))
+      );
+      const contextual = applicable.filter(
+        (rule) => rule.leftContext !== undefined || rule.rightContext !== undefined
+      );
+      const candidates = contextual.length > 0 ? contextual : applicable;
+      const replacement = candidates.length > 0 ? pickWeighted(candidates, random).successor : symbol;
+      length += replacement.length;
+      if (length > maxLength) {
+        throw new Error(`L-system expansion exceeded ${maxLength} symbols at iteration ${n + 1}`);
+      }
+      parts.push(replacement);
+    }
+    current = parts.join("");
+  }
+  return current;
+}
+
+/**
+ * Draws an expanded L-system string by performing the action of each symbol in turn.
+ * @param symbols expanded string, e.g. from expand.
+ * @param actions action of each symbol; symbols not listed are skipped.
+ * @param turtle the turtle to draw with.
+ * @param distanceScale factor applied to every forward and move distance; default 1.
+ * @throws Error if a pop action has no matching push.
+ */
+export function drawSymbols(
+  symbols: string,
+  actions: Record<string, TurtleAction>,
+  turtle: Turtle,
+  distanceScale: number = 1
+): void {
+  for (const symbol of symbols) {
+    const action = actions[symbol];
+    if (action === undefined) {
+      continue;
+    }
+    switch (action.kind) {
+      case "forward":
+        turtle.forward(action.distance * distanceScale);
+        break;
+      case "move": {
+        const wasDown = turtle.isPenDown();
+        turtle.penUp();
+        turtle.forward(action.distance * distanceScale);
+        if (wasDown) {
+          turtle.penDown();
+        }
+        break;
+      }
+      case "turn":
+        turtle.turn(action.degrees);
+        break;
+      case "push":
+        turtle.pushState();
+        break;
+      case "pop":
+        turtle.popState();
+        break;
+      case "color":
+        turtle.color(action.color);
+        break;
+    }
+  }
+}
+
+export type RenderOptions = ExpandOptions & {
+  /** Number of iterations; default the preset's iterations, or 0 for a plain LSystem. */
+  iterations?: number;
+  /** Factor applied to every forward and move distance; default 1. */
+  distanceScale?: number;
+};
+
+/**
+ * Expands an L-system and draws the result, starting at the turtle's current position.
+ * @param system the L-system or preset to draw.
+ * @param turtle the turtle to draw with.
+ * @param options iterations, scale, randomness and size limit.
+ * @returns the expanded string that was drawn.
+ * @throws Error as described for expand and drawSymbols.
+ */
+export function renderLSystem(
+  system: LSystem | LSystemPreset,
+  turtle: Turtle,
+  options: RenderOptions = {}
+): string {
+  const iterations = options.iterations ?? ("iterations" in system ? system.iterations : 0);
+  const symbols = expand(system, iterations, options);
+  if (system.initialHeading !== undefined) {
+    turtle.setHeading(system.initialHeading);
+  }
+  drawSymbols(symbols, system.actions, turtle, options.distanceScale ?? 1);
+  return symbols;
+}
+
+/** Koch curve: each edge is replaced by four edges one third as long. */
+export const KOCH_CURVE: LSystemPreset = {
+  axiom: "F",
+  rules: [{ predecessor: "F", successor: "F+F--F+F" }],
+  actions: {
+    F: { kind: "forward", distance: 5 },
+    "+": { kind: "turn", degrees: -60 },
+    "-": { kind: "turn", degrees: 60 },
+  },
+  initialHeading: 90,
+  iterations: 4,
+};
+
+/** Sierpinski triangle drawn as a single closed curve. */
+export const SIERPINSKI_TRIANGLE: LSystemPreset = {
+  axiom: "F-G-G",
+  rules: [
+    { predecessor: "F", successor: "F-G+F+G-F" },
+    { predecessor: "G", successor: "GG" },
+  ],
+  actions: {
+    F: { kind: "forward", distance: 8 },
+    G: { kind: "forward", distance: 8 },
+    "+": { kind: "turn", degrees: -120 },
+    "-": { kind: "turn", degrees: 120 },
+  },
+  initialHeading: 90,
+  iterations: 5,
+};
+
+/** Heighway dragon curve. */
+export const DRAGON_CURVE: LSystemPreset = {
+  axiom: "F",
+  rules: [
+    { predecessor: "F", successor: "F+G" },
+    { predecessor: "G", successor: "F-G" },
+  ],
+  actions: {
+    F: { kind: "forward", distance: 5 },
+    G: { kind: "forward", distance: 5 },
+    "+": { kind: "turn", degrees: -90 },
+    "-": { kind: "turn", degrees: 90 },
+  },
+  initialHeading: 90,
+  iterations: 10,
+};
+
+/** Branching fractal plant, drawn in green. */
+export const FRACTAL_PLANT: LSystemPreset = {
+  axiom: "cX",
+  rules: [
+    { predecessor: "X", successor: "F+[[X]-X]-F[-FX]+X" },
+    { predecessor: "F", successor: "FF" },
+  ],
+  actions: {
+    c: { kind: "color", color: "green" },
+    F: { kind: "forward", distance: 4 },
+    "+": { kind: "turn", degrees: 25 },
+    "-": { kind: "turn", degrees: -25 },
+    "[": { kind: "push" },
+    "]": { kind: "pop" },
+  },
+  initialHeading: 20,
+  iterations: 5,
+};
+
+/** The built-in presets by name. */
+export const PRESETS: Readonly<Record<string, LSystemPreset>> = {
+  koch: KOCH_CURVE,
+  sierpinski: SIERPINSKI_TRIANGLE,
+  dragon: DRAGON_CURVE,
+  plant: FRACTAL_PLANT,
+};
@@ -0,0 +1,228 @@
+import { Point, PathSegment } from "./turtle";
+import { DEFAULT_TOLERANCE, splitStrokes, travelDistance } from "./analysis";
+
+/**
+ * Simplifies turtle drawings without changing how they look, so that exported files stay
+ * small and pen plotters waste less time.
+ */
+
+export type OptimizeOptions = {
+  /**
+   * Points closer than this (in each coordinate) are snapped together, and a joint that
+   * deviates less than this from a straight line counts as collinear; default DEFAULT_TOLERANCE.
+   */
+  tolerance?: number;
+  /** Whether to merge consecutive collinear segments of the same color and width; default true. */
+  mergeCollinear?: boolean;
+  /** Whether to drop segments that repeat an earlier one of the same color and width; default true. */
+  removeDuplicates?: boolean;
+  /**
+   * Whether to reorder and reverse strokes to shorten pen-up travel; default false, because it
+   * changes drawing order (and so the order in which overlapping colors are painted).
+   */
+  reorder?: boolean;
+};
+
+/** What optimizePath did. */
+export type OptimizeReport = {
+  segmentsBefore: number;
+  segmentsAfter: number;
+  removedZeroLength: number;
+  removedDuplicates: number;
+  mergedCollinear: number;
+  travelBefore: number;
+  travelAfter: number;
+};
+
+export type OptimizeResult = {
+  path: PathSegment[];
+  report: OptimizeReport;
+};
+
+/**
+ * Replaces every point by the first point seen within tolerance of it, so that coordinates
+ * which differ only by floating-point error become exactly equal.
+ */
+class PointSnapper {
+  private readonly cells = new Map<string, Point[]>();
+
+  constructor(private readonly tolerance: number) {}
+
+  snap(p: Point): Point {
+    const cx = Math.floor(p.x / this.cellSize());
+    const cy = Math.floor(p.y / this.cellSize());
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const q of this.cells.get(`${cx + dx},${cy + dy}`) ?? []) {
+          if (Math.abs(p.x - q.x) <= this.tolerance && Math.abs(p.y - q.y) <= this.tolerance) {
+            return q;
+          }
+        }
+      }
+    }
+    const key = `${cx},${cy}`;
+    const cell = this.cells.get(key) ?? [];
+    const snapped = { x: p.x, y: p.y };
+    cell.push(snapped);
+    this.cells.set(key, cell);
+    return snapped;
+  }
+
+  private cellSize(): number {
+    return this.tolerance > 0 ? this.tolerance : 1;
+  }
+}
+
+function samePoint(p: Point, q: Point): boolean {
+  return p.x === q.x && p.y === q.y;
+}
+
+/**
+ * Checks whether segment extends a straight run, which goes from start through the given joints
+ * to where segment starts, in the same direction: every joint of the extended run must stay within
+ * tolerance of the line from start to the end of segment, so the error cannot build up.
+ */
+function continuesStraight(start: Point, joints: Point[], segment: PathSegment, tolerance: number): boolean {
+  const ux = segment.end.x - start.x;
+  const uy = segment.end.y - start.y;
+  const length = Math.hypot(ux, uy);
+  if (length === 0) {
+    return false;
+  }
+  // Distance of each joint from the line through the merged segment
+  const deviation = (p: Point): number => Math.abs((p.x - start.x) * uy - (p.y - start.y) * ux) / length;
+  const forwardRun = (segment.start.x - start.x) * ux + (segment.start.y - start.y) * uy > 0;
+  const forwardSegment = (segment.end.x - segment.start.x) * ux + (segment.end.y - segment.start.y) * uy > 0;
+  return joints.every((joint) => deviation(joint) <= tolerance) && forwardRun && forwardSegment;
+}
+
+function reverseStroke(stroke: PathSegment[]): PathSegment[] {
+  return stroke
+    .slice()
+    .reverse()
+    .map((segment) => ({ ...segment, start: segment.end, end: segment.start }));
+}
+
+/**
+ * Orders strokes greedily: starting where the first stroke starts, repeatedly draw the
+ * remaining stroke whose nearer end is closest to the pen, reversing it if its end is nearer.
+ */
+function reorderStrokes(strokes: PathSegment[][]): PathSegment[][] {
+  if (strokes.length === 0) {
+    return [];
+  }
+  const remaining = strokes.slice();
+  const ordered: PathSegment[][] = [];
+  let pen = strokes[0][0].start;
+  while (remaining.length > 0) {
+    let best = 0;
+    let bestReversed = false;
+    let bestDistance = Infinity;
+    remaining.forEach((stroke, i) => {
+      const start = stroke[0].start;
+      const end = stroke[stroke.length - 1].end;
+      const toStart = Math.hypot(start.x - pen.x, start.y - pen.y);
+      const toEnd = Math.hypot(end.x - pen.x, end.y - pen.y);
+      if (toStart < bestDistance) {
+        best = i;
+        bestReversed = false;
+        bestDistance = toStart;
+      }
+      if (toEnd < bestDistance) {
+        best = i;
+        bestReversed = true;
+        bestDistance = toEnd;
+      }
+    });
+    const [stroke] = remaining.splice(best, 1);
+    const next = bestReversed ? reverseStroke(stroke) : stroke;
+    ordered.push(next);
+    pen = next[next.length - 1].end;
+  }
+  return ordered;
+}
+
+/**
+ * Simplifies a drawing: snaps near-equal coordinates together, removes zero-length and
+ * duplicate segments, merges consecutive collinear segments of the same color and width, and optionally
+ * reorders strokes to minimize pen-up travel.
+ * The input is not modified.
+ * @param path segments of the drawing, in drawing order.
+ * @param options which simplifications to apply.
+ * @returns the simplified path and a report comparing it with the original.
+ */
+export function optimizePath(path: ReadonlyArray<PathSegment>, options: OptimizeOptions = {}): OptimizeResult {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const mergeCollinear = options.mergeCollinear ?? true;
+  const removeDuplicates = options.removeDuplicates ?? true;
+  const reorder = options.reorder ?? false;
+
+  const snapper = new PointSnapper(tolerance);
+  let removedZeroLength = 0;
+  let removedDuplicates = 0;
+  let mergedCollinear = 0;
+
+  // Snap, then drop segments that collapsed to a point
+  const snapped: PathSegment[] = [];
+  for (const segment of path) {
+    const start = snapper.snap(segment.start);
+    const end = snapper.snap(segment.end);
+    if (samePoint(start, end)) {
+      removedZeroLength++;
+    } else {
+      snapped.push({ ...segment, start, end });
+    }
+  }
+
+  // Snapped points are shared objects with exact coordinates, so string keys identify them
+  const unique: PathSegment[] = [];
+  const seen = new Set<string>();
+  for (const segment of snapped) {
+    const a = `${segment.start.x},${segment.start.y}`;
+    const b = `${segment.end.x},${segment.end.y}`;
+    const key = `${segment.color}|${segment.width}|${a < b ? a + "|" + b : b + "|" + a}`;
+    if (removeDuplicates && seen.has(key)) {
+      removedDuplicates++;
+    } else {
+      seen.add(key);
+      unique.push(segment);
+    }
+  }
+
+  const merged: PathSegment[] = [];
+  // Joints absorbed into the last merged segment, in drawing order
+  let joints: Point[] = [];
+  for (const segment of unique) {
+    const previous = merged[merged.length - 1];
+    if (
+      mergeCollinear &&
+      previous !== undefined &&
+      previous.color === segment.color &&
+      previous.width === segment.width &&
+      samePoint(previous.end, segment.start) &&
+      continuesStraight(previous.start, [...joints, previous.end], segment, tolerance)
+    ) {
+      joints.push(previous.end);
+      merged[merged.length - 1] = { ...previous, end: segment.end };
+      mergedCollinear++;
+    } else {
+      joints = [];
+      merged.push(segment);
+    }
+  }
+
+  const result = reorder ? ([] as PathSegment[]).concat(...reorderStrokes(splitStrokes(merged, 0))) : merged;
+
+  return {
+    path: result,
+    report: {
+      segmentsBefore: path.length,
+      segmentsAfter: result.length,
+      removedZeroLength,
+      removedDuplicates,
+      mergedCollinear,
+      travelBefore: travelDistance(path),
+      travelAfter: travelDistance(result),
+    },
+  };
+}
@@ -0,0 +1,190 @@
+import { Turtle, Point } from "./turtle";
+
+/**
+ * Plans how a turtle gets from where it is through a list of points, as a list of turn and
+ * forward instructions relative to the turtle's own heading.
+ */
+
+/** One step of a plan: turn clockwise by degrees (negative turns left), or move forward. */
+export type PathInstruction =
+  | { kind: "turn"; degrees: number }
+  | { kind: "forward"; units: number };
+
+/**
+ * Order in which to visit the points:
+ * - "given": exactly as listed
+ * - "nearest-neighbor": always go to the closest unvisited point next
+ * - "two-opt": nearest-neighbor, then improved by 2-opt moves until no move shortens the tour
+ */
+export type VisitOrder = "given" | "nearest-neighbor" | "two-opt";
+
+export type PlanOptions = {
+  /** Order in which to visit the points; default "given". */
+  order?: VisitOrder;
+  /** Moves and turns smaller than this are left out of the plan; default 1e-9. */
+  tolerance?: number;
+};
+
+/**
+ * Computes the heading that points from one point to another.
+ * @param from start point.
+ * @param to end point.
+ * @returns heading in [0, 360) using the turtle's convention (0 is up, clockwise),
+ *          or 0 if the points are equal.
+ */
+export function headingBetween(from: Point, to: Point): number {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  if (dx === 0 && dy === 0) {
+    return 0;
+  }
+  const degrees = (Math.atan2(dx, -dy) * 180) / Math.PI;
+  return degrees < 0 ? degrees + 360 : degrees;
+}
+
+/**
+ * Computes the smallest turn from one heading to another.
+ * @param fromHeading current heading in degrees.
+ * @param toHeading desired heading in degrees.
+ * @returns degrees to turn, in (-180, 180]; positive is clockwise.
+ */
+export function shortestTurn(fromHeading: number, toHeading: number): number {
+  let turn = (toHeading - fromHeading) % 360;
+  if (turn <= -180) {
+    turn += 360;
+  } else if (turn > 180) {
+    turn -= 360;
+  }
+  return turn;
+}
+
+function dist(p: Point, q: Point): number {
+  return Math.hypot(q.x - p.x, q.y - p.y);
+}
+
+function nearestNeighborOrder(start: Point, points: ReadonlyArray<Point>): Point[] {
+  const remaining = points.slice();
+  const ordered: Point[] = [];
+  let current = start;
+  while (remaining.length > 0) {
+    let best = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (dist(current, remaining[i]) < dist(current, remaining[best])) {
+        best = i;
+      }
+    }
+    const [next] = remaining.splice(best, 1);
+    ordered.push(next);
+    current = next;
+  }
+  return ordered;
+}
+
+/**
+ * Improves an open tour that starts at a fixed point by reversing sections of it
+ * while that makes it shorter.
+ */
+function twoOpt(start: Point, points: Point[]): Point[] {
+  const route = [start, ...points];
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < route.length - 1; i++) {
+      for (let k = i + 1; k < route.length; k++) {
+        // Reversing route[i..k] replaces edges (i-1, i) and (k, k+1) by (i-1, k) and (i, k+1)
+        const before = dist(route[i - 1], route[i]) + (k + 1 < route.length ? dist(route[k], route[k + 1]) : 0);
+        const after = dist(route[i - 1], route[k]) + (k + 1 < route.length ? dist(route[i], route[k + 1]) : 0);
+        if (after < before - 1e-12) {
+          const reversed = route.slice(i, k + 1).reverse();
+          route.splice(i, reversed.length, ...reversed);
+          improved = true;
+        }
+      }
+    }
+  }
+  return route.slice(1);
+}
+
+/**
+ * Chooses the order in which to visit a list of points.
+ * @param start where the turtle starts; not included in the result.
+ * @param points points to visit.
+ * @param order visiting strategy.
+ * @returns a permutation of points.
+ */
+export function orderPoints(start: Point, points: ReadonlyArray<Point>, order: VisitOrder): Point[] {
+  switch (order) {
+    case "given":
+      return points.slice();
+    case "nearest-neighbor":
+      return nearestNeighborOrder(start, points);
+    case "two-opt":
+      return twoOpt(start, nearestNeighborOrder(start, points));
+  }
+}
+
+/**
+ * Plans the turns and moves that take a turtle through a list of points.
+ * Each leg turns the shortest way toward the next point and then moves straight to it;
+ * a point the turtle is already at needs no instructions.
+ * @param start the turtle's current position.
+ * @param heading the turtle's current heading in degrees (0 is up, clockwise).
+ * @param points points to visit.
+ * @param options visiting order and tolerance.
+ * @returns the instructions, to be executed in order.
+ */
+export function planPath(
+  start: Point,
+  heading: number,
+  points: ReadonlyArray<Point>,
+  options: PlanOptions = {}
+): PathInstruction[] {
+  const tolerance = options.tolerance ?? 1e-9;
+  const instructions: PathInstruction[] = [];
+  let position = start;
+  let currentHeading = heading;
+  for (const target of orderPoints(start, points, options.order ?? "given")) {
+    const units = dist(position, target);
+    if (units <= tolerance) {
+      continue;
+    }
+    const newHeading = headingBetween(position, target);
+    const degrees = shortestTurn(currentHeading, newHeading);
+    if (Math.abs(degrees) > tolerance) {
+      instructions.push({ kind: "turn", degrees });
+    }
+    instructions.push({ kind: "forward", units });
+    position = target;
+    currentHeading = newHeading;
+  }
+  return instructions;
+}
+
+/**
+ * Executes a plan on a turtle.
+ * @param turtle the turtle to drive.
+ * @param instructions instructions to execute in order.
+ */
+export function executePath(turtle: Turtle, instructions: ReadonlyArray<PathInstruction>): void {
+  for (const instruction of instructions) {
+    switch (instruction.kind) {
+      case "turn":
+        turtle.turn(instruction.degrees);
+        break;
+      case "forward":
+        turtle.forward(instruction.units);
+        break;
+    }
+  }
+}
+
+/**
+ * Formats a plan as text, one instruction per line.
+ * @param instructions instructions to format.
+ * @returns lines like "turn 90" and "forward 10", which together form a TurtleScript program.
+ */
+export function formatInstructions(instructions: ReadonlyArray<PathInstruction>): string[] {
+  return instructions.map((instruction) =>
+    instruction.kind === "turn" ? `turn ${instruction.degrees}` : `forward ${instruction.units}`
+  );
+}
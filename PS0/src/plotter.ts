@@ -0,0 +1,338 @@
+import { Point, PathSegment, Color, parseColor } from "./turtle";
+import { toHex } from "./color";
+import { computeBounds, splitStrokes, DEFAULT_TOLERANCE } from "./analysis";
+import { formatNumber } from "./export";
+
+/**
+ * Exporters for pen plotters: G-code (for plotters built on CNC/3D-printer firmware) and HPGL
+ * (for classic HP-style plotters), plus a dry-run estimate of how long a plot takes.
+ *
+ * Plotter coordinates are in millimeters with the origin at the bottom left of the paper and
+ * y growing upward, so drawings are flipped vertically relative to turtle coordinates.
+ * Segments are grouped by pen, so each pen is loaded once; within a pen, segments keep their
+ * drawing order, and the pen is lifted only between segments that do not connect.
+ */
+
+/** Standard paper sizes, in millimeters, in portrait orientation. */
+export const PAPER_SIZES = {
+  A3: { width: 297, height: 420 },
+  A4: { width: 210, height: 297 },
+  A5: { width: 148, height: 210 },
+  letter: { width: 215.9, height: 279.4 },
+};
+
+export type PaperSize = keyof typeof PAPER_SIZES | { width: number; height: number };
+
+export type PlotterOptions = {
+  /** Paper to plot on; default "A4". */
+  paper?: PaperSize;
+  /** Whether to turn the paper sideways; default false. */
+  landscape?: boolean;
+  /** Empty margin kept on every side of the paper, in millimeters; default 10. */
+  margin?: number;
+  /**
+   * Millimeters per turtle unit. If omitted, the drawing is scaled to fill the paper inside the margins;
+   * if given, the drawing must fit at this scale. Either way it is centered on the paper.
+   */
+  millimetersPerUnit?: number;
+  /** Colors of the pens in the plotter's pen slots 1, 2, ...; default one slot per color, in order of first use. */
+  pens?: ReadonlyArray<Color>;
+  /** Drawing speed in millimeters per second; default 25. */
+  drawSpeed?: number;
+  /** Pen-up travel speed in millimeters per second; default 50. */
+  travelSpeed?: number;
+  /** Seconds to lift or lower the pen; default 0.1. */
+  penLiftSeconds?: number;
+  /** Seconds to change pens; default 15. */
+  penChangeSeconds?: number;
+  /** Largest coordinate difference (in turtle units) at which segments still connect; default DEFAULT_TOLERANCE. */
+  tolerance?: number;
+};
+
+export type GCodeOptions = PlotterOptions & {
+  /** Command that lifts the pen; default "G0 Z5". */
+  penUpCommand?: string;
+  /** Command that lowers the pen; default "G0 Z0". */
+  penDownCommand?: string;
+};
+
+/** A polyline drawn without lifting the pen, in plotter millimeters. */
+export type PlotStroke = {
+  /** Pen slot, starting at 1. */
+  pen: number;
+  color: Color;
+  points: Point[];
+};
+
+/** A drawing laid out on paper, ready to be written for a plotter. */
+export type PlotPlan = {
+  /** Paper size in millimeters, after applying landscape. */
+  paper: { width: number; height: number };
+  /** Millimeters per turtle unit. */
+  scale: number;
+  /** Colors of pen slots 1, 2, ... */
+  pens: Color[];
+  /** Strokes in plotting order, grouped by pen in slot order. */
+  strokes: PlotStroke[];
+};
+
+/** What a plot would take, computed without plotting. */
+export type PlotEstimate = {
+  /** Millimeters drawn with the pen down. */
+  drawDistance: number;
+  /** Millimeters travelled with the pen up, from the origin and back to it at the end. */
+  travelDistance: number;
+  /** Number of times the pen is lowered. */
+  penLifts: number;
+  /** Number of pens loaded, including the first. */
+  penChanges: number;
+  seconds: number;
+};
+
+const PLOTTER_DEFAULTS = {
+  paper: "A4" as PaperSize,
+  landscape: false,
+  margin: 10,
+  drawSpeed: 25,
+  travelSpeed: 50,
+  penLiftSeconds: 0.1,
+  penChangeSeconds: 15,
+};
+
+/** HPGL plotter units per millimeter. */
+const HPGL_UNITS_PER_MILLIMETER = 40;
+
+/** Identifies a color regardless of how it is spelled, e.g. "red", "#f00" and "rgb(255,0,0)". */
+function colorKey(color: Color): string {
+  const rgb = parseColor(color);
+  return rgb === undefined ? color : toHex(rgb);
+}
+
+function paperDimensions(paper: PaperSize, landscape: boolean): { width: number; height: number } {
+  const size = typeof paper === "string" ? PAPER_SIZES[paper] : paper;
+  if (size === undefined || !(size.width > 0 && size.height > 0)) {
+    throw new Error(`unknown or empty paper size ${JSON.stringify(paper)}`);
+  }
+  return landscape ? { width: size.height, height: size.width } : { width: size.width, height: size.height };
+}
+
+/**
+ * Lays a drawing out on paper: scales and centers it, assigns pens, and splits it into strokes.
+ * Zero-length segments are dropped, since a plotter cannot draw them.
+ * @param path segments of the drawing.
+ * @param options paper, scale and pens.
+ * @returns the plan.
+ * @throws Error if the paper has no room inside the margins, the drawing does not fit at
+ *         millimetersPerUnit, or a color of the drawing is in none of the given pens.
+ */
+export function planPlot(path: ReadonlyArray<PathSegment>, options: PlotterOptions = {}): PlotPlan {
+  const paper = paperDimensions(options.paper ?? PLOTTER_DEFAULTS.paper, options.landscape ?? PLOTTER_DEFAULTS.landscape);
+  const margin = options.margin ?? PLOTTER_DEFAULTS.margin;
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const availableWidth = paper.width - 2 * margin;
+  const availableHeight = paper.height - 2 * margin;
+  if (!(availableWidth > 0 && availableHeight > 0)) {
+    throw new Error(`margin of ${margin} mm leaves no room on ${paper.width} x ${paper.height} mm paper`);
+  }
+
+  const segments = path.filter(
+    (s) => Math.abs(s.end.x - s.start.x) > tolerance || Math.abs(s.end.y - s.start.y) > tolerance
+  );
+  const box = computeBounds(segments) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  const boxWidth = box.maxX - box.minX;
+  const boxHeight = box.maxY - box.minY;
+  let scale: number;
+  if (options.millimetersPerUnit !== undefined) {
+    scale = options.millimetersPerUnit;
+    if (!(scale > 0)) {
+      throw new Error(`millimetersPerUnit must be positive, got ${scale}`);
+    }
+    if (boxWidth * scale > availableWidth + 1e-9 || boxHeight * scale > availableHeight + 1e-9) {
+      throw new Error(
+        `drawing is ${formatNumber(boxWidth * scale)} x ${formatNumber(boxHeight * scale)} mm, ` +
+          `larger than the ${formatNumber(availableWidth)} x ${formatNumber(availableHeight)} mm inside the margins`
+      );
+    }
+  } else {
+    const candidates: number[] = [];
+    if (boxWidth > 0) {
+      candidates.push(availableWidth / boxWidth);
+    }
+    if (boxHeight > 0) {
+      candidates.push(availableHeight / boxHeight);
+    }
+    scale = candidates.length > 0 ? Math.min(...candidates) : 1;
+  }
+  const centerX = (box.minX + box.maxX) / 2;
+  const centerY = (box.minY + box.maxY) / 2;
+  const toPaper = (p: Point): Point => ({
+    x: (p.x - centerX) * scale + paper.width / 2,
+    y: paper.height / 2 - (p.y - centerY) * scale,
+  });
+
+  // Pen slots, and the segments each one draws
+  const pens: Color[] = options.pens === undefined ? [] : options.pens.slice();
+  const slotOf = new Map<string, number>();
+  pens.forEach((color, i) => {
+    if (!slotOf.has(colorKey(color))) {
+      slotOf.set(colorKey(color), i);
+    }
+  });
+  const bySlot: PathSegment[][] = pens.map(() => []);
+  for (const segment of segments) {
+    let slot = slotOf.get(colorKey(segment.color));
+    if (slot === undefined) {
+      if (options.pens !== undefined) {
+        throw new Error(`no pen holds color '${segment.color}'`);
+      }
+      slot = pens.length;
+      pens.push(segment.color);
+      bySlot.push([]);
+      slotOf.set(colorKey(segment.color), slot);
+    }
+    bySlot[slot].push(segment);
+  }
+
+  const strokes: PlotStroke[] = [];
+  bySlot.forEach((slotSegments, slot) => {
+    for (const stroke of splitStrokes(slotSegments, tolerance)) {
+      strokes.push({
+        pen: slot + 1,
+        color: pens[slot],
+        points: [toPaper(stroke[0].start), ...stroke.map((s) => toPaper(s.end))],
+      });
+    }
+  });
+  return { paper, scale, pens, strokes };
+}
+
+/**
+ * Estimates how long a plot takes, assuming the plotter starts and ends at the origin and
+ * moves at constant speed (no acceleration).
+ * @param path segments of the drawing.
+ * @param options layout, pens and plotter speeds.
+ * @returns distances, pen movements and estimated time.
+ * @throws Error under the same conditions as planPlot.
+ */
+export function estimatePlot(path: ReadonlyArray<PathSegment>, options: PlotterOptions = {}): PlotEstimate {
+  const plan = planPlot(path, options);
+  const drawSpeed = options.drawSpeed ?? PLOTTER_DEFAULTS.drawSpeed;
+  const travelSpeed = options.travelSpeed ?? PLOTTER_DEFAULTS.travelSpeed;
+  const penLiftSeconds = options.penLiftSeconds ?? PLOTTER_DEFAULTS.penLiftSeconds;
+  const penChangeSeconds = options.penChangeSeconds ?? PLOTTER_DEFAULTS.penChangeSeconds;
+  const distance = (p: Point, q: Point): number => Math.hypot(q.x - p.x, q.y - p.y);
+
+  let drawDistance = 0;
+  let travelDistance = 0;
+  let penChanges = 0;
+  let position: Point = { x: 0, y: 0 };
+  let pen = 0;
+  for (const stroke of plan.strokes) {
+    if (stroke.pen !== pen) {
+      penChanges++;
+      pen = stroke.pen;
+    }
+    travelDistance += distance(position, stroke.points[0]);
+    for (let i = 1; i < stroke.points.length; i++) {
+      drawDistance += distance(stroke.points[i - 1], stroke.points[i]);
+    }
+    position = stroke.points[stroke.points.length - 1];
+  }
+  travelDistance += distance(position, { x: 0, y: 0 });
+
+  const penLifts = plan.strokes.length;
+  const seconds =
+    drawDistance / drawSpeed +
+    travelDistance / travelSpeed +
+    2 * penLifts * penLiftSeconds +
+    penChanges * penChangeSeconds;
+  return { drawDistance, travelDistance, penLifts, penChanges, seconds };
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  const rest = total % 60;
+  return minutes > 0 ? `${minutes}m ${rest}s` : `${rest}s`;
+}
+
+/**
+ * Describes a plot without plotting it: layout, pens and estimated time.
+ * @param path segments of the drawing.
+ * @param options layout, pens and plotter speeds.
+ * @returns one human-readable line per fact.
+ * @throws Error under the same conditions as planPlot.
+ */
+export function dryRun(path: ReadonlyArray<PathSegment>, options: PlotterOptions = {}): string[] {
+  const plan = planPlot(path, options);
+  const estimate = estimatePlot(path, options);
+  return [
+    `paper: ${formatNumber(plan.paper.width)} x ${formatNumber(plan.paper.height)} mm`,
+    `scale: ${formatNumber(plan.scale)} mm per unit`,
+    `pens: ${plan.pens.map((color, i) => `${i + 1}=${color}`).join(", ") || "none"}`,
+    `strokes: ${plan.strokes.length}`,
+    `drawing: ${formatNumber(estimate.drawDistance)} mm`,
+    `travel: ${formatNumber(estimate.travelDistance)} mm`,
+    `pen changes: ${estimate.penChanges}`,
+    `estimated time: ${formatDuration(estimate.seconds)}`,
+  ];
+}
+
+/**
+ * Converts a drawing to G-code in millimeters and absolute coordinates.
+ * Before each pen the program pauses (M0) so the pen can be loaded; strokes are drawn with G1
+ * at drawSpeed, travel between them uses G0 with the pen up, and the program ends at the origin.
+ * @param path segments of the drawing.
+ * @param options layout, pens, speeds and pen commands.
+ * @returns the G-code program, one command per line.
+ * @throws Error under the same conditions as planPlot.
+ */
+export function toGCode(path: ReadonlyArray<PathSegment>, options: GCodeOptions = {}): string {
+  const plan = planPlot(path, options);
+  const penUp = options.penUpCommand ?? "G0 Z5";
+  const penDown = options.penDownCommand ?? "G0 Z0";
+  const feed = formatNumber((options.drawSpeed ?? PLOTTER_DEFAULTS.drawSpeed) * 60);
+  const xy = (p: Point): string => `X${formatNumber(p.x)} Y${formatNumber(p.y)}`;
+
+  const lines = ["G21 ; millimeters", "G90 ; absolute coordinates", penUp];
+  let pen = 0;
+  for (const stroke of plan.strokes) {
+    if (stroke.pen !== pen) {
+      pen = stroke.pen;
+      lines.push(`M0 ; load pen ${pen} (${stroke.color})`);
+    }
+    lines.push(`G0 ${xy(stroke.points[0])}`, penDown);
+    stroke.points.slice(1).forEach((p, i) => lines.push(`G1 ${xy(p)}${i === 0 ? ` F${feed}` : ""}`));
+    lines.push(penUp);
+  }
+  lines.push("G0 X0 Y0");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Converts a drawing to HPGL, in plotter units of 0.025 mm.
+ * Each pen is selected with SP, strokes are drawn with PD after a PU move to their start,
+ * and the plot ends with the pen put away (SP0).
+ * @param path segments of the drawing.
+ * @param options layout, pens and drawing speed.
+ * @returns the HPGL program, one instruction per line.
+ * @throws Error under the same conditions as planPlot.
+ */
+export function toHPGL(path: ReadonlyArray<PathSegment>, options: PlotterOptions = {}): string {
+  const plan = planPlot(path, options);
+  const speed = formatNumber((options.drawSpeed ?? PLOTTER_DEFAULTS.drawSpeed) / 10);
+  const xy = (p: Point): string =>
+    `${Math.round(p.x * HPGL_UNITS_PER_MILLIMETER)},${Math.round(p.y * HPGL_UNITS_PER_MILLIMETER)}`;
+
+  const lines = ["IN;"];
+  let pen = 0;
+  for (const stroke of plan.strokes) {
+    if (stroke.pen !== pen) {
+      pen = stroke.pen;
+      lines.push(`SP${pen};`, `VS${speed};`);
+    }
+    lines.push(`PU${xy(stroke.points[0])};`, `PD${stroke.points.slice(1).map(xy).join(",")};`);
+  }
+  lines.push("PU0,0;", "SP0;");
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,430 @@
+import { Turtle, SimpleTurtle, Point, Color, PathSegment, Fill, isColor } from "./turtle";
+
+/**
+ * A Turtle wrapper that records every drawing call as a command, so that drawings can be undone,
+ * redone, saved as JSON, replayed onto another turtle, and compared.
+ */
+
+/** One recorded call of a Turtle method that changes the turtle. */
+export type TurtleCommand =
+  | { kind: "forward"; units: number }
+  | { kind: "turn"; degrees: number }
+  | { kind: "color"; color: Color }
+  | { kind: "penUp" }
+  | { kind: "penDown" }
+  | { kind: "goTo"; point: Point }
+  | { kind: "setHeading"; degrees: number }
+  | { kind: "pushState" }
+  | { kind: "popState" }
+  | { kind: "strokeWidth"; width: number }
+  | { kind: "beginFill"; color?: Color }
+  | { kind: "endFill" };
+
+/** Version of the JSON format written by RecordingTurtle.toJSON. */
+export const RECORDING_FORMAT_VERSION = 1;
+
+/**
+ * Calls the Turtle method a command was recorded from.
+ * @param turtle the turtle to drive.
+ * @param command the command to apply.
+ * @throws Error if the turtle rejects the call, e.g. popState with no saved state.
+ */
+export function applyCommand(turtle: Turtle, command: TurtleCommand): void {
+  switch (command.kind) {
+    case "forward":
+      turtle.forward(command.units);
+      break;
+    case "turn":
+      turtle.turn(command.degrees);
+      break;
+    case "color":
+      turtle.color(command.color);
+      break;
+    case "penUp":
+      turtle.penUp();
+      break;
+    case "penDown":
+      turtle.penDown();
+      break;
+    case "goTo":
+      turtle.goTo({ x: command.point.x, y: command.point.y });
+      break;
+    case "setHeading":
+      turtle.setHeading(command.degrees);
+      break;
+    case "pushState":
+      turtle.pushState();
+      break;
+    case "popState":
+      turtle.popState();
+      break;
+    case "strokeWidth":
+      turtle.strokeWidth(command.width);
+      break;
+    case "beginFill":
+      turtle.beginFill(command.color);
+      break;
+    case "endFill":
+      turtle.endFill();
+      break;
+  }
+}
+
+/**
+ * Applies commands to a turtle in order.
+ * Replaying the history of a RecordingTurtle onto a turtle made by its factory reproduces
+ * its drawing exactly.
+ * @param commands commands to apply.
+ * @param turtle the turtle to drive.
+ * @throws Error as described for applyCommand; earlier commands have already been applied.
+ */
+export function replay(commands: ReadonlyArray<TurtleCommand>, turtle: Turtle): void {
+  for (const command of commands) {
+    applyCommand(turtle, command);
+  }
+}
+
+export class RecordingTurtle implements Turtle {
+  private readonly commands: TurtleCommand[] = [];
+  private applied = 0;
+  private readonly checkpointMap = new Map<string, number>();
+  private target: SimpleTurtle;
+
+  // Abstraction function:
+  //   AF(commands, applied, checkpointMap, factory) = a turtle whose drawing is the result of
+  //       replaying commands[0..applied) onto factory(), with commands[applied..] available to
+  //       redo, and named positions checkpointMap in its history
+  // Representation invariant:
+  //   0 <= applied <= commands.length; every checkpoint position is in [0, commands.length];
+  //   target is the result of replaying commands[0..applied) onto factory()
+
+  /**
+   * Makes a recording turtle with an empty history.
+   * @param factory makes the turtle that commands are applied to; it is called again whenever
+   *                history is rewound, so it must return a fresh turtle in the same state each
+   *                time. Default makes a SimpleTurtle at the origin.
+   */
+  constructor(private readonly factory: () => SimpleTurtle = () => new SimpleTurtle()) {
+    this.target = factory();
+  }
+
+  /**
+   * Makes a recording turtle from JSON written by toJSON, replaying its history.
+   * @param json text from toJSON.
+   * @param factory as for the constructor.
+   * @returns a recording turtle whose history is the saved one.
+   * @throws Error if json is not a valid recording, or its commands cannot be replayed.
+   */
+  static fromJSON(json: string, factory?: () => SimpleTurtle): RecordingTurtle {
+    const recording = new RecordingTurtle(factory);
+    for (const command of parseCommands(json)) {
+      recording.record(command);
+    }
+    return recording;
+  }
+
+  forward(units: number): void {
+    this.record({ kind: "forward", units });
+  }
+
+  turn(degrees: number): void {
+    this.record({ kind: "turn", degrees });
+  }
+
+  color(color: Color): void {
+    this.record({ kind: "color", color });
+  }
+
+  penUp(): void {
+    this.record({ kind: "penUp" });
+  }
+
+  penDown(): void {
+    this.record({ kind: "penDown" });
+  }
+
+  goTo(point: Point): void {
+    this.record({ kind: "goTo", point: { x: point.x, y: point.y } });
+  }
+
+  setHeading(degrees: number): void {
+    this.record({ kind: "setHeading", degrees });
+  }
+
+  pushState(): void {
+    this.record({ kind: "pushState" });
+  }
+
+  popState(): void {
+    this.record({ kind: "popState" });
+  }
+
+  strokeWidth(width: number): void {
+    this.record({ kind: "strokeWidth", width });
+  }
+
+  beginFill(color?: Color): void {
+    this.record(color === undefined ? { kind: "beginFill" } : { kind: "beginFill", color });
+  }
+
+  endFill(): void {
+    this.record({ kind: "endFill" });
+  }
+
+  getPosition(): Point {
+    return this.target.getPosition();
+  }
+
+  getHeading(): number {
+    return this.target.getHeading();
+  }
+
+  isPenDown(): boolean {
+    return this.target.isPenDown();
+  }
+
+  getPath(): PathSegment[] {
+    return this.target.getPath();
+  }
+
+  getFills(): Fill[] {
+    return this.target.getFills();
+  }
+
+  /**
+   * @returns the commands that made the current drawing, oldest first; undone commands are not included.
+   */
+  history(): TurtleCommand[] {
+    return this.commands.slice(0, this.applied);
+  }
+
+  canUndo(): boolean {
+    return this.applied > 0;
+  }
+
+  canRedo(): boolean {
+    return this.applied < this.commands.length;
+  }
+
+  /**
+   * Takes back the most recent commands.
+   * @param count how many commands to undo; default 1.
+   * @returns how many commands were undone, fewer than count if history ran out.
+   */
+  undo(count: number = 1): number {
+    const undone = Math.min(count, this.applied);
+    this.rewindTo(this.applied - undone);
+    return undone;
+  }
+
+  /**
+   * Re-applies commands taken back by undo. Recording a new command discards any that could be redone.
+   * @param count how many commands to redo; default 1.
+   * @returns how many commands were redone, fewer than count if there were not enough.
+   */
+  redo(count: number = 1): number {
+    const redone = Math.min(count, this.commands.length - this.applied);
+    replay(this.commands.slice(this.applied, this.applied + redone), this.target);
+    this.applied += redone;
+    return redone;
+  }
+
+  /**
+   * Names the current point in history, replacing any checkpoint with the same name.
+   * @param name checkpoint name.
+   */
+  checkpoint(name: string): void {
+    this.checkpointMap.set(name, this.applied);
+  }
+
+  /**
+   * Returns to a checkpoint, as if by undo or redo.
+   * @param name checkpoint name.
+   * @throws Error if there is no such checkpoint, e.g. because recording after an undo
+   *         discarded the history it pointed into.
+   */
+  restore(name: string): void {
+    const position = this.checkpointMap.get(name);
+    if (position === undefined) {
+      throw new Error(`no checkpoint named '${name}'`);
+    }
+    if (position >= this.applied) {
+      this.redo(position - this.applied);
+    } else {
+      this.rewindTo(position);
+    }
+  }
+
+  /**
+   * @returns the names of all checkpoints, in the order they were made.
+   */
+  checkpoints(): string[] {
+    return [...this.checkpointMap.keys()];
+  }
+
+  /**
+   * @returns the current history (without commands that could be redone) as JSON that fromJSON accepts.
+   */
+  toJSON(): string {
+    return JSON.stringify({ version: RECORDING_FORMAT_VERSION, commands: this.history() });
+  }
+
+  private record(command: TurtleCommand): void {
+    // Apply first, so that a command the turtle rejects is never recorded
+    applyCommand(this.target, command);
+    this.commands.splice(this.applied, this.commands.length - this.applied, command);
+    this.applied++;
+    for (const [name, position] of this.checkpointMap) {
+      if (position >= this.applied) {
+        this.checkpointMap.delete(name);
+      }
+    }
+  }
+
+  private rewindTo(position: number): void {
+    this.target = this.factory();
+    replay(this.commands.slice(0, position), this.target);
+    this.applied = position;
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * Checks that a value parsed from JSON is a well-formed command.
+ * @throws Error naming the offending command index otherwise.
+ */
+function validateCommand(value: unknown, index: number): TurtleCommand {
+  const fail = (): never => {
+    throw new Error(`command ${index} is not a valid turtle command: ${JSON.stringify(value)}`);
+  };
+  if (typeof value !== "object" || value === null) {
+    return fail();
+  }
+  const command = value as Record<string, unknown>;
+  switch (command.kind) {
+    case "forward":
+      return isFiniteNumber(command.units) ? { kind: "forward", units: command.units } : fail();
+    case "turn":
+    case "setHeading":
+      return isFiniteNumber(command.degrees) ? { kind: command.kind, degrees: command.degrees } : fail();
+    case "color":
+      return typeof command.color === "string" && isColor(command.color)
+        ? { kind: "color", color: command.color }
+        : fail();
+    case "goTo": {
+      const point = command.point as Record<string, unknown> | null | undefined;
+      return typeof point === "object" && point !== null && isFiniteNumber(point.x) && isFiniteNumber(point.y)
+        ? { kind: "goTo", point: { x: point.x, y: point.y } }
+        : fail();
+    }
+    case "strokeWidth":
+      return isFiniteNumber(command.width) ? { kind: "strokeWidth", width: command.width } : fail();
+    case "beginFill":
+      if (command.color === undefined) {
+        return { kind: "beginFill" };
+      }
+      return typeof command.color === "string" && isColor(command.color)
+        ? { kind: "beginFill", color: command.color }
+        : fail();
+    case "penUp":
+    case "penDown":
+    case "pushState":
+    case "popState":
+    case "endFill":
+      return { kind: command.kind };
+    default:
+      return fail();
+  }
+}
+
+/**
+ * Reads the commands saved by RecordingTurtle.toJSON.
+ * @param json text from toJSON.
+ * @returns the saved commands, oldest first.
+ * @throws Error if json is not valid JSON, has an unsupported version, or contains a malformed command.
+ */
+export function parseCommands(json: string): TurtleCommand[] {
+  const data = JSON.parse(json) as { version?: unknown; commands?: unknown };
+  if (typeof data !== "object" || data === null || data.version !== RECORDING_FORMAT_VERSION) {
+    throw new Error(`unsupported recording version ${JSON.stringify(data?.version)}`);
+  }
+  if (!Array.isArray(data.commands)) {
+    throw new Error("recording has no commands array");
+  }
+  return data.commands.map(validateCommand);
+}
+
+/** One line of a command diff: a command both histories share, or one only the old or new history has. */
+export type CommandDiffEntry =
+  | { kind: "same"; command: TurtleCommand }
+  | { kind: "removed"; command: TurtleCommand }
+  | { kind: "added"; command: TurtleCommand };
+
+function sameCommand(a: TurtleCommand, b: TurtleCommand, tolerance: number): boolean {
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return [...keys].every((key) => {
+    const x = left[key];
+    const y = right[key];
+    if (typeof x === "number" && typeof y === "number") {
+      return Math.abs(x - y) <= tolerance;
+    }
+    if (typeof x === "object" && x !== null && typeof y === "object" && y !== null) {
+      const p = x as Point;
+      const q = y as Point;
+      return Math.abs(p.x - q.x) <= tolerance && Math.abs(p.y - q.y) <= tolerance;
+    }
+    return x === y;
+  });
+}
+
+/**
+ * Compares two command histories, e.g. two versions of a drawing, as a minimal line diff
+ * (a longest common subsequence of commands).
+ * @param before old history.
+ * @param after new history.
+ * @param tolerance numbers differing by at most this much count as equal; default 1e-9.
+ * @returns entries in order, such that the "same" and "removed" commands spell out before,
+ *          and the "same" and "added" commands spell out after.
+ */
+export function diffCommands(
+  before: ReadonlyArray<TurtleCommand>,
+  after: ReadonlyArray<TurtleCommand>,
+  tolerance: number = 1e-9
+): CommandDiffEntry[] {
+  // common[i][j] = length of the longest common subsequence of before[i..] and after[j..]
+  const common: number[][] = [];
+  for (let i = before.length; i >= 0; i--) {
+    common[i] = [];
+    for (let j = after.length; j >= 0; j--) {
+      if (i === before.length || j === after.length) {
+        common[i][j] = 0;
+      } else if (sameCommand(before[i], after[j], tolerance)) {
+        common[i][j] = common[i + 1][j + 1] + 1;
+      } else {
+        common[i][j] = Math.max(common[i + 1][j], common[i][j + 1]);
+      }
+    }
+  }
+  const entries: CommandDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && sameCommand(before[i], after[j], tolerance)) {
+      entries.push({ kind: "same", command: after[j] });
+      i++;
+      j++;
+    } else if (j < after.length && (i === before.length || common[i][j + 1] >= common[i + 1][j])) {
+      entries.push({ kind: "added", command: after[j] });
+      j++;
+    } else {
+      entries.push({ kind: "removed", command: before[i] });
+      i++;
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,373 @@
+import { Turtle, Point } from "./turtle";
+import { chordLength } from "./turtlesoup";
+import { planPath, executePath } from "./pathplanner";
+
+/**
+ * Polygons and curves drawn with a Turtle. Curves are approximated by straight segments, and
+ * the number of segments adapts to the curvature so that no segment strays further than a
+ * tolerance from the true curve.
+ *
+ * Unless stated otherwise, shapes are drawn relative to the turtle: they start at its current
+ * position, their first side or tangent points along its heading, and positive angles bend
+ * clockwise (to the turtle's right), like turn.
+ */
+
+/** Default maximum distance between a curve and the segments approximating it, in turtle units. */
+export const DEFAULT_CURVE_TOLERANCE = 0.1;
+
+export type CurveOptions = {
+  /** Maximum distance between the curve and its approximating segments; default DEFAULT_CURVE_TOLERANCE. */
+  tolerance?: number;
+};
+
+/** Curves are split into at least this many pieces before adaptive subdivision, so that no bulge is missed. */
+const INITIAL_PIECES = 8;
+
+/** Bound on the recursion depth of adaptive subdivision. */
+const MAX_DEPTH = 16;
+
+function toleranceOf(options: CurveOptions): number {
+  const tolerance = options.tolerance ?? DEFAULT_CURVE_TOLERANCE;
+  if (!(tolerance > 0)) {
+    throw new Error(`tolerance must be positive, got ${tolerance}`);
+  }
+  return tolerance;
+}
+
+/**
+ * Computes how many equal chords approximate a circular arc within a tolerance.
+ * A chord spanning angle a of a circle of radius r deviates from the arc by its sagitta
+ * r * (1 - cos(a / 2)), so the chords may span at most 2 * acos(1 - tolerance / r).
+ * @param radius radius of the arc; must be positive.
+ * @param sweepDegrees angle of the arc; its sign is ignored.
+ * @param tolerance maximum sagitta; must be positive.
+ * @returns the smallest number of chords, at least 1.
+ */
+export function arcSegments(radius: number, sweepDegrees: number, tolerance: number): number {
+  const maxAngle = 2 * Math.acos(Math.max(-1, 1 - tolerance / radius));
+  return Math.max(1, Math.ceil((Math.abs(sweepDegrees) * Math.PI) / 180 / maxAngle - 1e-9));
+}
+
+/** Distance from p to the segment from a to b. */
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/**
+ * Approximates a parametric curve by a polyline, subdividing each piece until the curve at the
+ * middle of the piece is within tolerance of its chord.
+ * @param curve maps a parameter in [t0, t1] to a point.
+ * @param t0 first parameter.
+ * @param t1 last parameter.
+ * @param tolerance maximum deviation at piece midpoints; must be positive.
+ * @returns points of the polyline, starting with curve(t0) and ending with curve(t1).
+ */
+export function flattenCurve(curve: (t: number) => Point, t0: number, t1: number, tolerance: number): Point[] {
+  const points: Point[] = [curve(t0)];
+  const subdivide = (a: number, pa: Point, b: number, pb: Point, depth: number): void => {
+    const m = (a + b) / 2;
+    const pm = curve(m);
+    if (depth < MAX_DEPTH && distanceToSegment(pm, pa, pb) > tolerance) {
+      subdivide(a, pa, m, pm, depth + 1);
+      subdivide(m, pm, b, pb, depth + 1);
+    } else {
+      points.push(pb);
+    }
+  };
+  let previous = points[0];
+  for (let i = 1; i <= INITIAL_PIECES; i++) {
+    const a = t0 + ((t1 - t0) * (i - 1)) / INITIAL_PIECES;
+    const b = t0 + ((t1 - t0) * i) / INITIAL_PIECES;
+    const pb = curve(b);
+    subdivide(a, previous, b, pb, 0);
+    previous = pb;
+  }
+  return points;
+}
+
+/**
+ * Approximates a Bezier curve of any degree by a polyline, using de Casteljau subdivision until
+ * every inner control point of a piece is within tolerance of the piece's chord.
+ * @param controlPoints start point, inner control points, and end point; at least 2 points
+ *                      (3 for a quadratic curve, 4 for a cubic one).
+ * @param tolerance maximum distance between the curve and the polyline; default DEFAULT_CURVE_TOLERANCE.
+ * @returns points of the polyline, starting and ending with the curve's end points.
+ * @throws Error if there are fewer than 2 control points or tolerance is not positive.
+ */
+export function flattenBezier(controlPoints: ReadonlyArray<Point>, tolerance: number = DEFAULT_CURVE_TOLERANCE): Point[] {
+  if (controlPoints.length < 2) {
+    throw new Error(`a Bezier curve needs at least 2 control points, got ${controlPoints.length}`);
+  }
+  toleranceOf({ tolerance });
+  const points: Point[] = [controlPoints[0]];
+  const subdivide = (control: Point[], depth: number): void => {
+    const first = control[0];
+    const last = control[control.length - 1];
+    const flat = control.slice(1, -1).every((p) => distanceToSegment(p, first, last) <= tolerance);
+    if (flat || depth >= MAX_DEPTH) {
+      points.push(last);
+      return;
+    }
+    // de Casteljau at t = 1/2: the left half takes the first point of each level, the right half the last
+    const left: Point[] = [];
+    const right: Point[] = [];
+    let level = control;
+    while (level.length > 0) {
+      left.push(level[0]);
+      right.unshift(level[level.length - 1]);
+      level = level.slice(1).map((p, i) => ({ x: (level[i].x + p.x) / 2, y: (level[i].y + p.y) / 2 }));
+    }
+    subdivide(left, depth + 1);
+    subdivide(right, depth + 1);
+  };
+  subdivide(controlPoints.slice(), 0);
+  return points;
+}
+
+/**
+ * Moves the turtle through points in straight lines, turning toward each one first.
+ * Afterward the turtle faces along the last segment.
+ */
+function traceThrough(turtle: Turtle, points: ReadonlyArray<Point>): void {
+  executePath(turtle, planPath(turtle.getPosition(), turtle.getHeading(), points));
+}
+
+/** Converts a point given in the turtle's frame (along its heading, and to its right) to turtle coordinates. */
+function frameOf(turtle: Turtle): (forward: number, right: number) => Point {
+  const origin = turtle.getPosition();
+  const radians = (turtle.getHeading() * Math.PI) / 180;
+  const f = { x: Math.sin(radians), y: -Math.cos(radians) };
+  const r = { x: Math.cos(radians), y: Math.sin(radians) };
+  return (forward, right) => ({
+    x: origin.x + forward * f.x + right * r.x,
+    y: origin.y + forward * f.y + right * r.y,
+  });
+}
+
+/**
+ * Draws a regular polygon, turning clockwise at each corner.
+ * The turtle ends where it started, with the same heading.
+ * @param turtle the turtle to draw with.
+ * @param sides number of sides; an integer of at least 3.
+ * @param sideLength length of each side.
+ * @throws Error if sides is not an integer of at least 3.
+ */
+export function drawRegularPolygon(turtle: Turtle, sides: number, sideLength: number): void {
+  if (!Number.isInteger(sides) || sides < 3) {
+    throw new Error(`a polygon needs an integer number of sides of at least 3, got ${sides}`);
+  }
+  for (let i = 0; i < sides; i++) {
+    turtle.forward(sideLength);
+    turtle.turn(360 / sides);
+  }
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/**
+ * Draws the star polygon {points/step}: points vertices evenly spaced on a circle, each joined
+ * to the one step places further on, e.g. {5/2} is a pentagram. {n/1} is a regular polygon.
+ * The turtle ends where it started, with the same heading.
+ * @param turtle the turtle to draw with.
+ * @param points number of vertices; an integer of at least 3.
+ * @param step how many vertices each edge skips ahead; an integer with 1 <= step < points / 2
+ *             and no common divisor with points, so that the star is one closed line.
+ * @param sideLength length of each edge.
+ * @throws Error if points or step are out of range.
+ */
+export function drawStarPolygon(turtle: Turtle, points: number, step: number, sideLength: number): void {
+  if (!Number.isInteger(points) || points < 3) {
+    throw new Error(`a star polygon needs an integer number of points of at least 3, got ${points}`);
+  }
+  if (!Number.isInteger(step) || step < 1 || 2 * step >= points || gcd(points, step) !== 1) {
+    throw new Error(`step must be an integer below ${points / 2} with no common divisor with ${points}, got ${step}`);
+  }
+  for (let i = 0; i < points; i++) {
+    turtle.forward(sideLength);
+    turtle.turn((360 * step) / points);
+  }
+}
+
+/**
+ * Draws a circular arc that starts tangent to the turtle's heading, using chords of equal length.
+ * The turtle ends at the end of the arc, facing along its tangent: its heading changes by sweepDegrees.
+ * @param turtle the turtle to draw with.
+ * @param radius radius of the arc; must be positive.
+ * @param sweepDegrees angle of the arc; positive bends clockwise, negative counterclockwise.
+ * @param options approximation tolerance.
+ * @throws Error if radius or the tolerance is not positive.
+ */
+export function drawArc(turtle: Turtle, radius: number, sweepDegrees: number, options: CurveOptions = {}): void {
+  if (!(radius > 0)) {
+    throw new Error(`radius must be positive, got ${radius}`);
+  }
+  const steps = arcSegments(radius, sweepDegrees, toleranceOf(options));
+  const step = sweepDegrees / steps;
+  const chord = chordLength(radius, Math.abs(step));
+  for (let i = 0; i < steps; i++) {
+    // Each chord leaves the arc at half the step angle from the tangent
+    turtle.turn(step / 2);
+    turtle.forward(chord);
+    turtle.turn(step / 2);
+  }
+}
+
+/**
+ * Draws an ellipse that starts tangent to the turtle's heading and bends clockwise,
+ * like drawApproximateCircle. The turtle ends where it started, with the same heading.
+ * @param turtle the turtle to draw with.
+ * @param alongRadius semi-axis along the turtle's heading; must be positive.
+ * @param acrossRadius semi-axis across the turtle's heading; the center is this far to the turtle's right.
+ * @param options approximation tolerance.
+ * @throws Error if a radius or the tolerance is not positive.
+ */
+export function drawEllipse(turtle: Turtle, alongRadius: number, acrossRadius: number, options: CurveOptions = {}): void {
+  if (!(alongRadius > 0 && acrossRadius > 0)) {
+    throw new Error(`radii must be positive, got ${alongRadius} and ${acrossRadius}`);
+  }
+  const heading = turtle.getHeading();
+  const start = turtle.getPosition();
+  const toTurtle = frameOf(turtle);
+  const points = flattenCurve(
+    (t) => toTurtle(alongRadius * Math.sin(t), acrossRadius * (1 - Math.cos(t))),
+    0,
+    2 * Math.PI,
+    toleranceOf(options)
+  );
+  // Close exactly, without floating-point drift
+  points[points.length - 1] = start;
+  traceThrough(turtle, points.slice(1));
+  turtle.setHeading(heading);
+}
+
+/**
+ * Points of a spiral centered on the turtle, given the distance from the center as a function
+ * of the angle turned so far, measured clockwise from the turtle's heading.
+ */
+function spiralPoints(turtle: Turtle, radius: (angle: number) => number, turns: number, tolerance: number): Point[] {
+  const toTurtle = frameOf(turtle);
+  return flattenCurve(
+    (angle) => toTurtle(radius(angle) * Math.cos(angle), radius(angle) * Math.sin(angle)),
+    0,
+    2 * Math.PI * turns,
+    tolerance
+  );
+}
+
+/**
+ * Starts a spiral at its first point: moves there without drawing, then traces the rest.
+ * The pen is left as it was.
+ */
+function drawSpiral(turtle: Turtle, points: Point[]): void {
+  const wasDown = turtle.isPenDown();
+  turtle.penUp();
+  turtle.goTo(points[0]);
+  if (wasDown) {
+    turtle.penDown();
+  }
+  traceThrough(turtle, points.slice(1));
+}
+
+export type ArchimedeanSpiralOptions = CurveOptions & {
+  /** Distance from the center where the spiral starts; default 0. */
+  startRadius?: number;
+};
+
+/**
+ * Draws an Archimedean spiral, whose distance from the center grows by the same spacing on every turn.
+ * The spiral is centered on the turtle's position and starts in the direction of its heading,
+ * winding clockwise; the turtle moves to the start without drawing and ends at the outer end,
+ * facing along the last segment.
+ * @param turtle the turtle to draw with.
+ * @param turns number of full turns; must be positive, need not be an integer.
+ * @param spacing distance between neighboring windings; must be positive.
+ * @param options starting radius and approximation tolerance.
+ * @throws Error if turns, spacing or the tolerance is not positive, or startRadius is negative.
+ */
+export function drawArchimedeanSpiral(
+  turtle: Turtle,
+  turns: number,
+  spacing: number,
+  options: ArchimedeanSpiralOptions = {}
+): void {
+  const startRadius = options.startRadius ?? 0;
+  if (!(turns > 0 && spacing > 0) || !(startRadius >= 0)) {
+    throw new Error(`turns and spacing must be positive and startRadius non-negative`);
+  }
+  const radius = (angle: number): number => startRadius + (spacing * angle) / (2 * Math.PI);
+  drawSpiral(turtle, spiralPoints(turtle, radius, turns, toleranceOf(options)));
+}
+
+/**
+ * Draws a logarithmic spiral, whose distance from the center grows by the same factor on every turn.
+ * Placement is as for drawArchimedeanSpiral.
+ * @param turtle the turtle to draw with.
+ * @param turns number of full turns; must be positive, need not be an integer.
+ * @param startRadius distance from the center where the spiral starts; must be positive.
+ * @param growth factor by which the distance grows per turn; must be positive, and below 1 for an inward spiral.
+ * @param options approximation tolerance.
+ * @throws Error if any argument is not positive.
+ */
+export function drawLogarithmicSpiral(
+  turtle: Turtle,
+  turns: number,
+  startRadius: number,
+  growth: number,
+  options: CurveOptions = {}
+): void {
+  if (!(turns > 0 && startRadius > 0 && growth > 0)) {
+    throw new Error(`turns, startRadius and growth must be positive`);
+  }
+  const radius = (angle: number): number => startRadius * Math.pow(growth, angle / (2 * Math.PI));
+  drawSpiral(turtle, spiralPoints(turtle, radius, turns, toleranceOf(options)));
+}
+
+/**
+ * Draws a Bezier curve from the turtle's position, in absolute coordinates.
+ * The turtle ends at the last control point, facing along the last segment.
+ * @param turtle the turtle to draw with.
+ * @param controlPoints the inner control points followed by the end point, e.g. [c1, c2, end]
+ *                      for a cubic curve; the turtle's position is the start point.
+ * @param options approximation tolerance.
+ * @throws Error if controlPoints is empty or the tolerance is not positive.
+ */
+export function drawBezier(turtle: Turtle, controlPoints: ReadonlyArray<Point>, options: CurveOptions = {}): void {
+  const points = flattenBezier([turtle.getPosition(), ...controlPoints], toleranceOf(options));
+  traceThrough(turtle, points.slice(1));
+}
+
+/**
+ * Draws a rectangle with quarter-circle corners, turning clockwise at each corner.
+ * The first straight side starts at the turtle's position; the turtle ends there with the same heading.
+ * @param turtle the turtle to draw with.
+ * @param width length of the sides along the turtle's heading, including the corners.
+ * @param height length of the other sides, including the corners.
+ * @param radius corner radius; 0 gives sharp corners.
+ * @param options approximation tolerance for the corners.
+ * @throws Error if radius is negative or larger than half of width or height.
+ */
+export function drawRoundedRectangle(
+  turtle: Turtle,
+  width: number,
+  height: number,
+  radius: number,
+  options: CurveOptions = {}
+): void {
+  if (!(radius >= 0) || 2 * radius > Math.min(width, height)) {
+    throw new Error(`corner radius must be between 0 and half the smaller side, got ${radius}`);
+  }
+  for (const side of [width, height, width, height]) {
+    turtle.forward(side - 2 * radius);
+    if (radius > 0) {
+      drawArc(turtle, radius, 90, options);
+    } else {
+      turtle.turn(90);
+    }
+  }
+}
@@ -0,0 +1,268 @@
+import * as fs from "fs";
+import * as path from "path";
+import { PathSegment, Color, isColor } from "./turtle";
+import { optimizePath } from "./optimizer";
+import { ExportOptions, layersToHTML } from "./export";
+
+/**
+ * Snapshot testing for turtle drawings: a drawing is reduced to a canonical list of segments,
+ * stored as a golden file, and later drawings are compared with it geometrically, so that
+ * changes which do not change the picture (drawing order, direction, splitting a line in two,
+ * floating-point noise) still match.
+ *
+ * Typical use in a mocha test:
+ *
+ *     matchSnapshot(turtle.getPath(), "personal-art", { directory: path.join(__dirname, "__snapshots__") });
+ *
+ * Run the tests with UPDATE_SNAPSHOTS=1 to (re)write golden files instead of comparing. A missing
+ * golden file is written on a local run, but fails the test under CI, so that a snapshot that was
+ * deleted or never committed cannot pass unnoticed.
+ */
+
+export type SnapshotOptions = {
+  /** Coordinates closer than this count as equal; default 1e-3. */
+  tolerance?: number;
+};
+
+export type MatchSnapshotOptions = SnapshotOptions & {
+  /** Directory holding the golden files; it is created if needed. */
+  directory: string;
+  /** Whether to overwrite the golden file instead of comparing; default true iff UPDATE_SNAPSHOTS=1. */
+  update?: boolean;
+  /**
+   * Whether a missing golden file is an error rather than written, unless in update mode;
+   * default true iff the CI environment variable is set (to anything but "" or "false").
+   */
+  ci?: boolean;
+};
+
+/** Outcome of comparing a drawing with a snapshot. */
+export type SnapshotDiff = {
+  matches: boolean;
+  /** Segments of the new drawing missing from the snapshot. */
+  added: PathSegment[];
+  /** Segments of the snapshot missing from the new drawing. */
+  removed: PathSegment[];
+  /** Segments in both. */
+  unchanged: PathSegment[];
+};
+
+/** Thrown by matchSnapshot when a drawing differs from its golden file. */
+export class SnapshotMismatchError extends Error {
+  constructor(
+    message: string,
+    public readonly diff: SnapshotDiff,
+    public readonly diffFile: string
+  ) {
+    super(message);
+    this.name = "SnapshotMismatchError";
+  }
+}
+
+/** Version of the golden file format written by serializeSnapshot. */
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+const DEFAULT_SNAPSHOT_TOLERANCE = 1e-3;
+
+function compareSegments(a: PathSegment, b: PathSegment): number {
+  return (
+    a.start.x - b.start.x ||
+    a.start.y - b.start.y ||
+    a.end.x - b.end.x ||
+    a.end.y - b.end.y ||
+    (a.color < b.color ? -1 : a.color > b.color ? 1 : 0) ||
+    (a.width ?? 0) - (b.width ?? 0)
+  );
+}
+
+/**
+ * Reduces a drawing to a canonical form: near-equal points are snapped together, zero-length and
+ * duplicate segments are dropped, consecutive collinear segments are merged, coordinates are
+ * rounded to the tolerance, every segment runs from its smaller to its larger end point, and
+ * segments are sorted.
+ * @param drawing segments of the drawing.
+ * @param options comparison tolerance.
+ * @returns the canonical segments; drawings that look the same up to tolerance usually yield the same result.
+ */
+export function canonicalizePath(drawing: ReadonlyArray<PathSegment>, options: SnapshotOptions = {}): PathSegment[] {
+  const tolerance = options.tolerance ?? DEFAULT_SNAPSHOT_TOLERANCE;
+  const decimals = Math.max(0, Math.ceil(-Math.log10(tolerance)));
+  const round = (n: number): number => {
+    const rounded = Number(n.toFixed(decimals));
+    return Object.is(rounded, -0) ? 0 : rounded;
+  };
+  return optimizePath(drawing, { tolerance })
+    .path.map((segment) => {
+      const a = { x: round(segment.start.x), y: round(segment.start.y) };
+      const b = { x: round(segment.end.x), y: round(segment.end.y) };
+      const forward = a.x < b.x || (a.x === b.x && a.y <= b.y);
+      const canonical: PathSegment = { start: forward ? a : b, end: forward ? b : a, color: segment.color };
+      if (segment.width !== undefined) {
+        canonical.width = segment.width;
+      }
+      return canonical;
+    })
+    .sort(compareSegments);
+}
+
+/**
+ * Writes a drawing as the text of a golden file: canonical JSON with one segment per line,
+ * so that version control shows readable diffs.
+ * @param drawing segments of the drawing.
+ * @param options comparison tolerance, used to canonicalize.
+ * @returns the file contents.
+ */
+export function serializeSnapshot(drawing: ReadonlyArray<PathSegment>, options: SnapshotOptions = {}): string {
+  const rows = canonicalizePath(drawing, options).map((s) => {
+    const row: Array<number | string> = [s.start.x, s.start.y, s.end.x, s.end.y, s.color];
+    if (s.width !== undefined) {
+      row.push(s.width);
+    }
+    return `    ${JSON.stringify(row)}`;
+  });
+  return `{
+  "version": ${SNAPSHOT_FORMAT_VERSION},
+  "segments": [
+${rows.join(",\n")}
+  ]
+}
+`;
+}
+
+/**
+ * Reads the text of a golden file.
+ * @param text file contents written by serializeSnapshot.
+ * @returns the canonical segments it holds.
+ * @throws Error if text is not a snapshot of a supported version.
+ */
+export function parseSnapshot(text: string): PathSegment[] {
+  const data = JSON.parse(text) as { version?: unknown; segments?: unknown };
+  if (data.version !== SNAPSHOT_FORMAT_VERSION || !Array.isArray(data.segments)) {
+    throw new Error(`not a version ${SNAPSHOT_FORMAT_VERSION} turtle snapshot`);
+  }
+  return data.segments.map((row: unknown, i: number) => {
+    if (
+      !Array.isArray(row) ||
+      row.length < 5 ||
+      row.length > 6 ||
+      !row.slice(0, 4).every((n) => typeof n === "number") ||
+      typeof row[4] !== "string" ||
+      !isColor(row[4]) ||
+      (row.length === 6 && typeof row[5] !== "number")
+    ) {
+      throw new Error(`snapshot segment ${i} is malformed: ${JSON.stringify(row)}`);
+    }
+    const segment: PathSegment = {
+      start: { x: row[0], y: row[1] },
+      end: { x: row[2], y: row[3] },
+      color: row[4] as Color,
+    };
+    if (row.length === 6) {
+      segment.width = row[5];
+    }
+    return segment;
+  });
+}
+
+function sameSegment(a: PathSegment, b: PathSegment, tolerance: number): boolean {
+  const near = (p: { x: number; y: number }, q: { x: number; y: number }): boolean =>
+    Math.abs(p.x - q.x) <= tolerance && Math.abs(p.y - q.y) <= tolerance;
+  return (
+    a.color === b.color &&
+    (a.width ?? 0) === (b.width ?? 0) &&
+    ((near(a.start, b.start) && near(a.end, b.end)) || (near(a.start, b.end) && near(a.end, b.start)))
+  );
+}
+
+/**
+ * Compares a drawing with a snapshot, matching each segment of one with at most one segment of
+ * the other that has the same color and width and end points within tolerance.
+ * @param expected segments of the snapshot.
+ * @param actual segments of the new drawing.
+ * @param options comparison tolerance.
+ * @returns the segments only in actual, only in expected, and in both (after canonicalization).
+ */
+export function compareSnapshot(
+  expected: ReadonlyArray<PathSegment>,
+  actual: ReadonlyArray<PathSegment>,
+  options: SnapshotOptions = {}
+): SnapshotDiff {
+  const tolerance = options.tolerance ?? DEFAULT_SNAPSHOT_TOLERANCE;
+  const remaining = canonicalizePath(expected, options);
+  const added: PathSegment[] = [];
+  const unchanged: PathSegment[] = [];
+  for (const segment of canonicalizePath(actual, options)) {
+    // Rounding may move an end point by up to half the rounding step on each side
+    const match = remaining.findIndex((candidate) => sameSegment(candidate, segment, tolerance * 2));
+    if (match === -1) {
+      added.push(segment);
+    } else {
+      unchanged.push(segment);
+      remaining.splice(match, 1);
+    }
+  }
+  return { matches: added.length === 0 && remaining.length === 0, added, removed: remaining, unchanged };
+}
+
+/**
+ * Renders a snapshot diff as an HTML page: unchanged segments in light gray, removed ones in red
+ * and added ones in green, drawn thicker on top.
+ * @param diff result of compareSnapshot.
+ * @param options viewport and style options.
+ * @returns a complete HTML document.
+ */
+export function diffToHTML(diff: SnapshotDiff, options: ExportOptions = {}): string {
+  const recolor = (segments: PathSegment[], color: Color): PathSegment[] =>
+    segments.map((segment) => ({ start: segment.start, end: segment.end, color }));
+  return layersToHTML(
+    [
+      { name: "unchanged", path: recolor(diff.unchanged, "#bbbbbb") },
+      { name: "removed", path: recolor(diff.removed, "#dd0000"), strokeWidth: 4 },
+      { name: "added", path: recolor(diff.added, "#00aa00"), strokeWidth: 4 },
+    ],
+    { title: `Snapshot diff: ${diff.added.length} added, ${diff.removed.length} removed`, ...options }
+  );
+}
+
+/**
+ * Checks a drawing against its golden file, creating the file if it does not exist yet and
+ * this is not a CI run.
+ * On a mismatch, writes <name>.diff.html next to the golden file; on a match, deletes any stale one.
+ * @param drawing segments of the drawing.
+ * @param name snapshot name, used as the file name <name>.snap.json.
+ * @param options directory, update mode and tolerance.
+ * @throws SnapshotMismatchError if the drawing differs from the golden file.
+ * @throws Error if the golden file does not exist in a CI run that is not in update mode.
+ */
+export function matchSnapshot(
+  drawing: ReadonlyArray<PathSegment>,
+  name: string,
+  options: MatchSnapshotOptions
+): void {
+  const file = path.join(options.directory, `${name}.snap.json`);
+  const diffFile = path.join(options.directory, `${name}.diff.html`);
+  const update = options.update ?? process.env.UPDATE_SNAPSHOTS === "1";
+  const ci = options.ci ?? (process.env.CI !== undefined && process.env.CI !== "" && process.env.CI !== "false");
+  if (!update && ci && !fs.existsSync(file)) {
+    throw new Error(`snapshot '${name}' has no golden file ${file}; run with UPDATE_SNAPSHOTS=1 to create it`);
+  }
+  if (update || !fs.existsSync(file)) {
+    fs.mkdirSync(options.directory, { recursive: true });
+    fs.writeFileSync(file, serializeSnapshot(drawing, options));
+    return;
+  }
+  const diff = compareSnapshot(parseSnapshot(fs.readFileSync(file, "utf8")), drawing, options);
+  if (diff.matches) {
+    if (fs.existsSync(diffFile)) {
+      fs.unlinkSync(diffFile);
+    }
+    return;
+  }
+  fs.writeFileSync(diffFile, diffToHTML(diff));
+  throw new SnapshotMismatchError(
+    `drawing does not match snapshot '${name}': ${diff.added.length} segments added, ` +
+      `${diff.removed.length} removed; see ${diffFile}`,
+    diff,
+    diffFile
+  );
+}
@@ -0,0 +1,572 @@
+import { Point, PathSegment, Fill, Color, Turtle, isColor, parseColor } from "./turtle";
+import { toHex } from "./color";
+import { CurveOptions, DEFAULT_CURVE_TOLERANCE, flattenBezier, flattenCurve } from "./shapes";
+
+/**
+ * Imports line drawings from SVG, so that drawings exported by toSVG and toHTML (or made in
+ * any vector editor) can be brought back as turtle paths.
+ *
+ * Supported: <line>, <polyline>, <polygon> and <path> elements (every path command, absolute
+ * and relative, with curves and arcs flattened into segments), inside any nesting of <g>
+ * groups, with stroke, stroke-width and fill given as attributes or in a style attribute,
+ * and transform attributes. Other elements, such as <rect> backgrounds and <text>, are ignored.
+ *
+ * SVG user coordinates become turtle coordinates unchanged. The exporters write their viewBox
+ * in turtle coordinates, so an exported drawing imports at its original position and size.
+ */
+
+export type SvgImportOptions = CurveOptions & {
+  /** Color of elements that do not specify a stroke, or whose stroke is not a color; default "black". */
+  defaultColor?: Color;
+};
+
+/** Everything imported from an SVG document. */
+export type ImportedDrawing = {
+  /** Stroked lines, in document order; compatible with SimpleTurtle.getPath(). */
+  path: PathSegment[];
+  /** Filled polygons and closed subpaths whose fill is set to a color, in document order. */
+  fills: Fill[];
+};
+
+/** An affine transform [a, b, c, d, e, f], mapping (x, y) to (a x + c y + e, b x + d y + f) as in SVG. */
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/** Style inherited from enclosing groups; undefined means unspecified. */
+type Inherited = {
+  stroke: string | undefined;
+  fill: string | undefined;
+  transform: Matrix;
+};
+
+/** A connected run of points in a path; closed if it ended with Z. */
+export type Subpath = {
+  points: Point[];
+  closed: boolean;
+};
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function apply(m: Matrix, p: Point): Point {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] };
+}
+
+const NUMBER = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/;
+
+/**
+ * Parses an SVG transform attribute, e.g. "translate(10 20) rotate(45)".
+ * @throws Error if it contains an unknown function or the wrong number of arguments.
+ */
+function parseTransform(text: string): Matrix {
+  let matrix = IDENTITY;
+  const functionPattern = /([a-zA-Z]+)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+  while ((match = functionPattern.exec(text)) !== null) {
+    const name = match[1];
+    const args = match[2]
+      .split(/[\s,]+/)
+      .filter((arg) => arg !== "")
+      .map(Number);
+    const source = match[0];
+    const arity = (...counts: number[]): void => {
+      if (!counts.includes(args.length) || args.some((n) => !isFinite(n))) {
+        throw new Error(`bad SVG transform '${source}'`);
+      }
+    };
+    const radians = ((args[0] ?? 0) * Math.PI) / 180;
+    let step: Matrix;
+    switch (name) {
+      case "matrix":
+        arity(6);
+        step = args as Matrix;
+        break;
+      case "translate":
+        arity(1, 2);
+        step = [1, 0, 0, 1, args[0], args[1] ?? 0];
+        break;
+      case "scale":
+        arity(1, 2);
+        step = [args[0], 0, 0, args[1] ?? args[0], 0, 0];
+        break;
+      case "rotate": {
+        arity(1, 3);
+        const [cx, cy] = args.length === 3 ? [args[1], args[2]] : [0, 0];
+        const rotation: Matrix = [Math.cos(radians), Math.sin(radians), -Math.sin(radians), Math.cos(radians), 0, 0];
+        step = multiply(multiply([1, 0, 0, 1, cx, cy], rotation), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case "skewX":
+        arity(1);
+        step = [1, 0, Math.tan(radians), 1, 0, 0];
+        break;
+      case "skewY":
+        arity(1);
+        step = [1, Math.tan(radians), 0, 1, 0, 0];
+        break;
+      default:
+        throw new Error(`unknown SVG transform '${name}'`);
+    }
+    matrix = multiply(matrix, step);
+  }
+  return matrix;
+}
+
+/**
+ * Reads the numbers and flags of SVG path data one at a time.
+ * Flags get their own method because "a1 1 0 011 1" is valid: flags need no separators.
+ */
+class PathDataScanner {
+  private position = 0;
+
+  constructor(private readonly data: string) {}
+
+  /** Skips whitespace and at most one comma. */
+  private skipSeparators(): void {
+    while (/\s/.test(this.data.charAt(this.position))) {
+      this.position++;
+    }
+    if (this.data.charAt(this.position) === ",") {
+      this.position++;
+      while (/\s/.test(this.data.charAt(this.position))) {
+        this.position++;
+      }
+    }
+  }
+
+  atEnd(): boolean {
+    this.skipSeparators();
+    return this.position >= this.data.length;
+  }
+
+  /** @returns the next command letter, or undefined if the next token is not one. */
+  command(): string | undefined {
+    this.skipSeparators();
+    const c = this.data.charAt(this.position);
+    if (/[MmLlHhVvCcSsQqTtAaZz]/.test(c)) {
+      this.position++;
+      return c;
+    }
+    return undefined;
+  }
+
+  number(): number {
+    this.skipSeparators();
+    const match = NUMBER.exec(this.data.slice(this.position));
+    if (match === null) {
+      throw this.error("a number");
+    }
+    this.position += match[0].length;
+    return Number(match[0]);
+  }
+
+  flag(): boolean {
+    this.skipSeparators();
+    const c = this.data.charAt(this.position);
+    if (c !== "0" && c !== "1") {
+      throw this.error("an arc flag (0 or 1)");
+    }
+    this.position++;
+    return c === "1";
+  }
+
+  error(expected: string): Error {
+    return new Error(`SVG path data: expected ${expected} at offset ${this.position} of '${this.data}'`);
+  }
+}
+
+/**
+ * Flattens an elliptical arc given in SVG endpoint form, following the conversion to center form
+ * in the SVG specification (appendix F.6).
+ * @returns points after from, ending with to.
+ */
+function flattenArc(
+  from: Point,
+  rx: number,
+  ry: number,
+  rotationDegrees: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: Point,
+  tolerance: number
+): Point[] {
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) {
+    return from.x === to.x && from.y === to.y ? [] : [to];
+  }
+  const phi = (rotationDegrees * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+  // Radii too small to reach the end point are scaled up just enough
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const root = Math.sqrt(Math.max(0, numerator / denominator)) * (largeArc === sweep ? -1 : 1);
+  const cx1 = (root * rx * y1) / ry;
+  const cy1 = (-root * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+  const angle = (ux: number, uy: number, vx: number, vy: number): number =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) {
+    delta -= 2 * Math.PI;
+  } else if (sweep && delta < 0) {
+    delta += 2 * Math.PI;
+  }
+  const points = flattenCurve(
+    (t) => {
+      const a = theta + t * delta;
+      return {
+        x: cx + rx * Math.cos(a) * cos - ry * Math.sin(a) * sin,
+        y: cy + rx * Math.cos(a) * sin + ry * Math.sin(a) * cos,
+      };
+    },
+    0,
+    1,
+    tolerance
+  ).slice(1);
+  // End exactly where the path data says, free of rounding error
+  points[points.length - 1] = to;
+  return points;
+}
+
+/**
+ * Flattens SVG path data into polylines.
+ * @param data the d attribute of a <path>.
+ * @param options curve tolerance.
+ * @returns the subpaths, in user coordinates.
+ * @throws Error if data is malformed.
+ */
+export function parsePathData(data: string, options: CurveOptions = {}): Subpath[] {
+  const tolerance = options.tolerance ?? DEFAULT_CURVE_TOLERANCE;
+  const scanner = new PathDataScanner(data);
+  const subpaths: Subpath[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let subpathStart: Point = current;
+  let points: Point[] | undefined = undefined;
+  // Reflected control points for S and T, from the previous cubic or quadratic command
+  let lastCubicControl: Point | undefined = undefined;
+  let lastQuadraticControl: Point | undefined = undefined;
+  let command: string | undefined = undefined;
+
+  const finishSubpath = (closed: boolean): void => {
+    if (points !== undefined && points.length > 1) {
+      subpaths.push({ points, closed });
+    }
+    points = undefined;
+  };
+  const lineTo = (p: Point): void => {
+    if (points === undefined) {
+      points = [current];
+    }
+    points.push(p);
+    current = p;
+  };
+
+  while (!scanner.atEnd()) {
+    const next = scanner.command();
+    if (next !== undefined) {
+      command = next;
+    } else if (command === undefined || command === "Z" || command === "z") {
+      throw scanner.error("a command");
+    }
+    const c = command as string;
+    const relative = c === c.toLowerCase();
+    const point = (): Point => {
+      const x = scanner.number();
+      const y = scanner.number();
+      return relative ? { x: current.x + x, y: current.y + y } : { x, y };
+    };
+    let cubicControl: Point | undefined = undefined;
+    let quadraticControl: Point | undefined = undefined;
+    switch (c.toUpperCase()) {
+      case "M":
+        finishSubpath(false);
+        current = point();
+        subpathStart = current;
+        // Further coordinate pairs are implicit line commands
+        command = relative ? "l" : "L";
+        break;
+      case "L":
+        lineTo(point());
+        break;
+      case "H": {
+        const x = scanner.number();
+        lineTo({ x: relative ? current.x + x : x, y: current.y });
+        break;
+      }
+      case "V": {
+        const y = scanner.number();
+        lineTo({ x: current.x, y: relative ? current.y + y : y });
+        break;
+      }
+      case "C":
+      case "S": {
+        const start = current;
+        const first: Point =
+          c.toUpperCase() === "C"
+            ? point()
+            : lastCubicControl === undefined
+              ? start
+              : { x: 2 * start.x - lastCubicControl.x, y: 2 * start.y - lastCubicControl.y };
+        const second = point();
+        const end = point();
+        flattenBezier([start, first, second, end], tolerance).slice(1).forEach(lineTo);
+        cubicControl = second;
+        break;
+      }
+      case "Q":
+      case "T": {
+        const start = current;
+        const control: Point =
+          c.toUpperCase() === "Q"
+            ? point()
+            : lastQuadraticControl === undefined
+              ? start
+              : { x: 2 * start.x - lastQuadraticControl.x, y: 2 * start.y - lastQuadraticControl.y };
+        const end = point();
+        flattenBezier([start, control, end], tolerance).slice(1).forEach(lineTo);
+        quadraticControl = control;
+        break;
+      }
+      case "A": {
+        const rx = scanner.number();
+        const ry = scanner.number();
+        const rotation = scanner.number();
+        const largeArc = scanner.flag();
+        const sweep = scanner.flag();
+        const end = point();
+        const arc = flattenArc(current, rx, ry, rotation, largeArc, sweep, end, tolerance);
+        arc.forEach(lineTo);
+        current = end;
+        break;
+      }
+      case "Z":
+        if (points !== undefined) {
+          lineTo(subpathStart);
+        }
+        finishSubpath(true);
+        current = subpathStart;
+        break;
+    }
+    lastCubicControl = cubicControl;
+    lastQuadraticControl = quadraticControl;
+  }
+  finishSubpath(false);
+  return subpaths;
+}
+
+function unescapeXML(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+/** Reads an element's attributes, with properties of its style attribute taking precedence. */
+function parseAttributes(text: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  const attributePattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributePattern.exec(text)) !== null) {
+    attributes.set(match[1], unescapeXML(match[2] ?? match[3]));
+  }
+  for (const declaration of (attributes.get("style") ?? "").split(";")) {
+    const colon = declaration.indexOf(":");
+    if (colon > 0) {
+      attributes.set(declaration.slice(0, colon).trim(), declaration.slice(colon + 1).trim());
+    }
+  }
+  return attributes;
+}
+
+/** Reads a list of numbers such as a points attribute. */
+function parseNumbers(text: string): number[] {
+  return text
+    .trim()
+    .split(/[\s,]+/)
+    .filter((n) => n !== "")
+    .map((n) => {
+      const value = Number(n);
+      if (!isFinite(value)) {
+        throw new Error(`SVG: expected a number, got '${n}'`);
+      }
+      return value;
+    });
+}
+
+/** Converts an SVG paint to a turtle color, or undefined for "none". */
+function toColor(paint: string, fallback: Color): Color | undefined {
+  if (paint === "none" || paint === "transparent") {
+    return undefined;
+  }
+  if (isColor(paint)) {
+    return paint;
+  }
+  const rgb = parseColor(paint);
+  return rgb === undefined ? fallback : toHex(rgb);
+}
+
+/**
+ * Imports the lines and filled shapes of an SVG document.
+ * Elements without a stroke are drawn in options.defaultColor (a browser would not stroke them);
+ * elements with stroke "none" draw no lines. Only a stroke-width on the element itself becomes
+ * a segment width, since the exporters put the default width on the enclosing group.
+ * @param svg SVG markup, either a whole document or just the <svg> element, e.g. from toHTML.
+ * @param options curve tolerance and default color.
+ * @returns the imported lines and fills.
+ * @throws Error if an element has malformed coordinates, path data or transform.
+ */
+export function importSVG(svg: string, options: SvgImportOptions = {}): ImportedDrawing {
+  const tolerance = options.tolerance ?? DEFAULT_CURVE_TOLERANCE;
+  if (!(tolerance > 0)) {
+    throw new Error(`tolerance must be positive, got ${tolerance}`);
+  }
+  const defaultColor = options.defaultColor ?? "black";
+  const path: PathSegment[] = [];
+  const fills: Fill[] = [];
+  const stack: Inherited[] = [{ stroke: undefined, fill: undefined, transform: IDENTITY }];
+
+  const text = svg.replace(/<!--[\s\S]*?-->/g, "").replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, "");
+  const tagPattern = /<\s*(\/?)\s*([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)\s*>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(text)) !== null) {
+    const [, closing, name, attributeText, selfClosing] = match;
+    const inherited = stack[stack.length - 1];
+    if (closing === "/") {
+      if ((name === "g" || name === "svg") && stack.length > 1) {
+        stack.pop();
+      }
+      continue;
+    }
+    const attributes = parseAttributes(attributeText);
+    const transform = attributes.get("transform");
+    const style: Inherited = {
+      stroke: attributes.get("stroke") ?? inherited.stroke,
+      fill: attributes.get("fill") ?? inherited.fill,
+      transform: transform === undefined ? inherited.transform : multiply(inherited.transform, parseTransform(transform)),
+    };
+    if ((name === "g" || name === "svg") && selfClosing !== "/") {
+      stack.push(style);
+      continue;
+    }
+
+    let subpaths: Subpath[];
+    const number = (attribute: string): number => parseNumbers(attributes.get(attribute) ?? "0")[0] ?? 0;
+    const pointList = (): Point[] => {
+      const numbers = parseNumbers(attributes.get("points") ?? "");
+      const points: Point[] = [];
+      for (let i = 0; i + 1 < numbers.length; i += 2) {
+        points.push({ x: numbers[i], y: numbers[i + 1] });
+      }
+      return points;
+    };
+    switch (name) {
+      case "line":
+        subpaths = [
+          {
+            points: [
+              { x: number("x1"), y: number("y1") },
+              { x: number("x2"), y: number("y2") },
+            ],
+            closed: false,
+          },
+        ];
+        break;
+      case "polyline":
+        subpaths = [{ points: pointList(), closed: false }];
+        break;
+      case "polygon": {
+        const points = pointList();
+        subpaths = [{ points: points.length > 0 ? [...points, points[0]] : points, closed: true }];
+        break;
+      }
+      case "path":
+        subpaths = parsePathData(attributes.get("d") ?? "", { tolerance });
+        break;
+      default:
+        continue;
+    }
+
+    const stroke = style.stroke === undefined ? defaultColor : toColor(style.stroke, defaultColor);
+    const fill = style.fill === undefined ? undefined : toColor(style.fill, defaultColor);
+    const widthText = attributes.get("stroke-width");
+    const width = widthText === undefined ? undefined : parseNumbers(widthText.replace(/px$/, ""))[0];
+    for (const subpath of subpaths) {
+      const points = subpath.points.map((p) => apply(style.transform, p));
+      if (fill !== undefined && subpath.closed && points.length >= 4) {
+        fills.push({ points: points.slice(0, -1), color: fill });
+      }
+      if (stroke === undefined) {
+        continue;
+      }
+      for (let i = 1; i < points.length; i++) {
+        const segment: PathSegment = { start: points[i - 1], end: points[i], color: stroke };
+        if (width !== undefined) {
+          segment.width = width;
+        }
+        path.push(segment);
+      }
+    }
+  }
+  return { path, fills };
+}
+
+/**
+ * Draws an imported drawing with a turtle: fills first, then lines, moving with the pen up
+ * between lines that do not connect. The turtle's heading is unchanged and its pen is left down.
+ * A turtle cannot go back to the exporter's default width, so once a segment has a width,
+ * later segments without one are drawn at that width too.
+ * @param turtle turtle to draw with.
+ * @param drawing result of importSVG.
+ */
+export function drawImported(turtle: Turtle, drawing: ImportedDrawing): void {
+  const at = (p: Point): boolean => {
+    const position = turtle.getPosition();
+    return position.x === p.x && position.y === p.y;
+  };
+  for (const fill of drawing.fills) {
+    turtle.penUp();
+    turtle.goTo(fill.points[0]);
+    turtle.beginFill(fill.color);
+    fill.points.slice(1).forEach((p) => turtle.goTo(p));
+    turtle.endFill();
+  }
+  for (const segment of drawing.path) {
+    if (!at(segment.start)) {
+      turtle.penUp();
+      turtle.goTo(segment.start);
+    }
+    turtle.penDown();
+    turtle.color(segment.color);
+    if (segment.width !== undefined) {
+      turtle.strokeWidth(segment.width);
+    }
+    turtle.goTo(segment.end);
+  }
+  turtle.penDown();
+}
@@ -1,18 +1,43 @@
+import { Color } from "./color";
+import { World, Collision, MoveResult, validateWorld, isInside, moveInWorld } from "./world";
+
+export { World, BoundaryMode, Obstacle, Collision } from "./world";
+export { Color, isColor, parseColor } from "./color";
+
 export type Point = {
   x: number;
   y: number;
 };
 
-export type Color =
-  | "black"
-  | "red"
-  | "green"
-  | "blue"
-  | "yellow"
-  | "purple"
-  | "orange"
-  | "cyan"
-  | "magenta";
+/**
+ * One straight line drawn by a turtle.
+ */
+export type PathSegment = {
+  start: Point;
+  end: Point;
+  color: Color;
+  /** Stroke width in output pixels, set with strokeWidth; absent means the exporter's default. */
+  width?: number;
+};
+
+/**
+ * A filled polygon drawn by a turtle between beginFill and endFill.
+ */
+export type Fill = {
+  points: Point[];
+  color: Color;
+};
+
+/**
+ * Everything pushState saves and popState restores.
+ */
+export type TurtleState = {
+  position: Point;
+  heading: number;
+  color: Color;
+  penDown: boolean;
+  strokeWidth: number | undefined;
+};
 
 export interface Turtle {
   forward(units: number): void;
@@ -20,6 +45,16 @@ export interface Turtle {
   color(color: Color): void; // Optional for personal art
   getPosition(): Point; // Helpful for testing/debugging
   getHeading(): number; // Helpful for testing/debugging
+  penUp(): void; // Subsequent moves do not draw
+  penDown(): void; // Subsequent moves draw (the initial state)
+  isPenDown(): boolean;
+  goTo(point: Point): void; // Moves in a straight line without changing the heading
+  setHeading(degrees: number): void; // Absolute heading, 0 is up, clockwise
+  pushState(): void; // Saves position, heading, color and pen state
+  popState(): void; // Restores the most recently pushed state; throws Error if none was pushed
+  strokeWidth(width: number): void; // Width of subsequent lines; throws Error unless positive and finite
+  beginFill(color?: Color): void; // Starts a polygon at the current position, filled with color (default the pen color)
+  endFill(): void; // Closes and fills the polygon through every position moved to since beginFill
 }
 
 // A very basic, in-memory Turtle implementation for Problem Set 0.
@@ -28,35 +63,167 @@ export class SimpleTurtle implements Turtle {
   private y: number;
   private headingDegrees: number; // 0 degrees is up
   private penColor: Color = "black";
-  private path: { start: Point; end: Point; color: Color }[] = []; // Store drawn lines
+  private penIsDown: boolean = true;
+  private penWidth: number | undefined = undefined; // undefined means the exporter's default
+  private stateStack: TurtleState[] = [];
+  private path: PathSegment[] = []; // Store drawn lines
+  private fills: Fill[] = [];
+  private currentFill: Fill | undefined = undefined; // The polygon being recorded, if any
+  private collisions: Collision[] = [];
 
-  constructor(startX: number = 0, startY: number = 0) {
+  /**
+   * @param startX starting x coordinate.
+   * @param startY starting y coordinate.
+   * @param world boundaries and obstacles that constrain every move; default none.
+   * @throws Error if the world is invalid or the starting point is outside its bounds.
+   */
+  constructor(
+    startX: number = 0,
+    startY: number = 0,
+    private readonly world: World | undefined = undefined
+  ) {
+    if (world !== undefined) {
+      validateWorld(world);
+      if (!isInside(world, { x: startX, y: startY })) {
+        throw new Error(`start point (${startX}, ${startY}) is outside the world`);
+      }
+    }
     this.x = startX;
     this.y = startY;
     this.headingDegrees = 0; // Start facing up
   }
 
   forward(units: number): void {
+    if (this.world !== undefined) {
+      const direction = units < 0 ? this.headingDegrees + 180 : this.headingDegrees;
+      const result = this.travel(direction, Math.abs(units));
+      this.setHeading(units < 0 ? result.direction + 180 : result.direction);
+      return;
+    }
     const startPoint: Point = { x: this.x, y: this.y };
     const headingRadians = (this.headingDegrees * Math.PI) / 180;
     this.x += units * Math.sin(headingRadians); // Y-axis is typically inverted in graphics
     this.y -= units * Math.cos(headingRadians);
-    const endPoint: Point = { x: this.x, y: this.y };
-    this.path.push({ start: startPoint, end: endPoint, color: this.penColor });
+    this.moved(startPoint);
   }
 
   turn(degrees: number): void {
-    this.headingDegrees += degrees;
-    this.headingDegrees = this.headingDegrees % 360; // Keep heading within 0-360 range
+    this.setHeading(this.headingDegrees + degrees);
+  }
+
+  setHeading(degrees: number): void {
+    this.headingDegrees = degrees % 360; // Keep heading within 0-360 range
     if (this.headingDegrees < 0) {
       this.headingDegrees += 360; // Ensure heading is never negative
     }
   }
 
+  goTo(point: Point): void {
+    if (this.world !== undefined) {
+      const dx = point.x - this.x;
+      const dy = point.y - this.y;
+      this.travel((Math.atan2(dx, -dy) * 180) / Math.PI, Math.hypot(dx, dy));
+      return;
+    }
+    const startPoint: Point = { x: this.x, y: this.y };
+    this.x = point.x;
+    this.y = point.y;
+    this.moved(startPoint);
+  }
+
+  // Records a move from startPoint to the current position: a line if the pen is down,
+  // and a polygon vertex if a fill is in progress
+  private moved(startPoint: Point): void {
+    const endPoint: Point = { x: this.x, y: this.y };
+    if (this.penIsDown) {
+      const segment: PathSegment = { start: startPoint, end: endPoint, color: this.penColor };
+      if (this.penWidth !== undefined) {
+        segment.width = this.penWidth;
+      }
+      this.path.push(segment);
+    }
+    this.currentFill?.points.push(endPoint);
+  }
+
+  // Moves through the world, drawing each piece of the move and recording collisions;
+  // returns the outcome so that forward can follow a bounce
+  private travel(direction: number, distance: number): MoveResult {
+    const result = moveInWorld(this.world as World, { x: this.x, y: this.y }, direction, distance);
+    for (const piece of result.pieces) {
+      this.x = piece.end.x;
+      this.y = piece.end.y;
+      this.moved(piece.start);
+    }
+    this.x = result.position.x;
+    this.y = result.position.y;
+    this.collisions.push(...result.collisions);
+    return result;
+  }
+
+  penUp(): void {
+    this.penIsDown = false;
+  }
+
+  penDown(): void {
+    this.penIsDown = true;
+  }
+
+  isPenDown(): boolean {
+    return this.penIsDown;
+  }
+
+  pushState(): void {
+    this.stateStack.push({
+      position: { x: this.x, y: this.y },
+      heading: this.headingDegrees,
+      color: this.penColor,
+      penDown: this.penIsDown,
+      strokeWidth: this.penWidth,
+    });
+  }
+
+  popState(): void {
+    const state = this.stateStack.pop();
+    if (state === undefined) {
+      throw new Error("popState called with no saved state");
+    }
+    this.x = state.position.x;
+    this.y = state.position.y;
+    this.headingDegrees = state.heading;
+    this.penColor = state.color;
+    this.penIsDown = state.penDown;
+    this.penWidth = state.strokeWidth;
+  }
+
   color(color: Color): void {
     this.penColor = color;
   }
 
+  strokeWidth(width: number): void {
+    if (!(width > 0 && Number.isFinite(width))) {
+      throw new Error(`stroke width must be positive and finite, got ${width}`);
+    }
+    this.penWidth = width;
+  }
+
+  beginFill(color?: Color): void {
+    if (this.currentFill !== undefined) {
+      throw new Error("beginFill called while a fill is already in progress");
+    }
+    this.currentFill = { points: [{ x: this.x, y: this.y }], color: color ?? this.penColor };
+  }
+
+  endFill(): void {
+    if (this.currentFill === undefined) {
+      throw new Error("endFill called without beginFill");
+    }
+    // A polygon needs at least three vertices to cover any area
+    if (this.currentFill.points.length >= 3) {
+      this.fills.push(this.currentFill);
+    }
+    this.currentFill = undefined;
+  }
+
   getPosition(): Point {
     return { x: this.x, y: this.y };
   }
@@ -65,7 +232,18 @@ export class SimpleTurtle implements Turtle {
     return this.headingDegrees;
   }
 
-  getPath(): { start: Point; end: Point; color: Color }[] {
+  getPath(): PathSegment[] {
     return this.path;
   }
+
+  getFills(): Fill[] {
+    return this.fills;
+  }
+
+  /**
+   * @returns every obstacle collision so far, in order; always empty without a world.
+   */
+  getCollisions(): Collision[] {
+    return this.collisions;
+  }
 }
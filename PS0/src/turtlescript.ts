@@ -0,0 +1,711 @@
+import { Turtle, Color, isColor } from "./turtle";
+
+/**
+ * TurtleScript: a small Logo-style command language for driving a Turtle.
+ *
+ * A script is a sequence of commands separated by whitespace (newlines are not significant):
+ *
+ *     ; comments run to the end of the line
+ *     to square :size
+ *       repeat 4 [ forward :size turn 90 ]
+ *     end
+ *     make :side 50
+ *     color red
+ *     square :side * 2
+ *
+ * Commands:
+ * - `forward <expr>` (alias `fd`), `back <expr>` (alias `bk`)
+ * - `turn <expr>` (aliases `right`, `rt`), `left <expr>` (alias `lt`)
+ * - `color <color>`, where color is a named color like `red`, a hex color like `#ff8800`,
+ *   or any other Color written as a string like `"rgb(255, 136, 0)"`
+ * - `width <expr>` (alias `pensize`) sets the stroke width of subsequent lines
+ * - `beginfill` and `endfill` fill the polygon traced between them, in the pen color or in the
+ *   color written as a string or hex color after `beginfill`
+ * - `penup` (alias `pu`), `pendown` (alias `pd`)
+ * - `goto <x> <y>` (alias `setxy`) moves in a straight line to an absolute position
+ * - `setheading <expr>` (alias `seth`) sets the absolute heading
+ * - `push` and `pop` save and restore the turtle's state
+ * - `repeat <expr> [ <commands> ]`
+ * - `to <name> :param1 :param2 ... <commands> end` defines a procedure
+ * - `make :variable <expr>` assigns a variable in the current scope
+ * - `<name> <expr> ...` calls a previously defined procedure with one expression per parameter
+ *
+ * Expressions are numbers, `:variable` references, parentheses, unary minus and the binary
+ * operators `+ - * /` with the usual precedence. Keywords and names are case-insensitive.
+ * As in Logo, a minus sign with a space before it but not after it starts a new negative
+ * argument, so `goto 10 -20` takes two arguments while `goto 10 - 20 5` subtracts.
+ *
+ * The lines produced by formatInstructions (like "turn 90" and "forward 10") form a valid script,
+ * so plans from findPath can be stored as text and replayed.
+ */
+
+/** A 1-based line and column in the source text of a script. */
+export type SourcePosition = {
+  line: number;
+  column: number;
+};
+
+export type TokenKind =
+  | "number"
+  | "word"
+  | "variable"
+  | "string"
+  | "operator"
+  | "eof";
+
+export type Token = {
+  kind: TokenKind;
+  text: string;
+  position: SourcePosition;
+  spaceBefore: boolean; // true iff whitespace, a comment or the start of the script precedes the token
+};
+
+export type BinaryOperator = "+" | "-" | "*" | "/";
+
+export type Expression =
+  | { kind: "number"; value: number; position: SourcePosition }
+  | { kind: "variable"; name: string; position: SourcePosition }
+  | { kind: "negate"; operand: Expression; position: SourcePosition }
+  | {
+      kind: "binary";
+      operator: BinaryOperator;
+      left: Expression;
+      right: Expression;
+      position: SourcePosition;
+    };
+
+export type Statement =
+  | { kind: "forward"; distance: Expression; position: SourcePosition }
+  | { kind: "turn"; degrees: Expression; position: SourcePosition }
+  | { kind: "color"; color: Color; position: SourcePosition }
+  | { kind: "penUp"; position: SourcePosition }
+  | { kind: "penDown"; position: SourcePosition }
+  | { kind: "goTo"; x: Expression; y: Expression; position: SourcePosition }
+  | { kind: "setHeading"; degrees: Expression; position: SourcePosition }
+  | { kind: "pushState"; position: SourcePosition }
+  | { kind: "popState"; position: SourcePosition }
+  | { kind: "strokeWidth"; width: Expression; position: SourcePosition }
+  | { kind: "beginFill"; color: Color | undefined; position: SourcePosition }
+  | { kind: "endFill"; position: SourcePosition }
+  | {
+      kind: "repeat";
+      count: Expression;
+      body: Statement[];
+      position: SourcePosition;
+    }
+  | {
+      kind: "define";
+      name: string;
+      parameters: string[];
+      body: Statement[];
+      position: SourcePosition;
+    }
+  | {
+      kind: "make";
+      name: string;
+      value: Expression;
+      position: SourcePosition;
+    }
+  | {
+      kind: "call";
+      name: string;
+      args: Expression[];
+      position: SourcePosition;
+    };
+
+/** The abstract syntax tree of a whole script. */
+export type Program = {
+  body: Statement[];
+};
+
+/**
+ * Base class of all errors reported for a script, carrying the position of the offending text.
+ */
+export class ScriptError extends Error {
+  constructor(
+    public readonly reason: string, // the message without the position
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(`${reason} (line ${line}, column ${column})`);
+    this.name = "ScriptError";
+  }
+}
+
+/** Thrown by tokenize and parse when a script is not well-formed. */
+export class ScriptSyntaxError extends ScriptError {
+  constructor(message: string, position: SourcePosition) {
+    super(message, position.line, position.column);
+    this.name = "ScriptSyntaxError";
+  }
+}
+
+/** Thrown by execute when a well-formed script fails while running. */
+export class ScriptRuntimeError extends ScriptError {
+  constructor(message: string, position: SourcePosition) {
+    super(message, position.line, position.column);
+    this.name = "ScriptRuntimeError";
+  }
+}
+
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const WORD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+const HEX_COLOR_PATTERN = /^#[A-Za-z0-9]*/;
+const OPERATORS = "+-*/()[]";
+
+/**
+ * Splits the source text of a script into tokens.
+ * @param source script text.
+ * @returns the tokens of source, always ending with a single "eof" token.
+ * @throws ScriptSyntaxError if source contains a character that cannot start a token,
+ *         a number too large to represent, or an unterminated string.
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  let line = 1;
+  let column = 1;
+  let spaceBefore = true;
+
+  const push = (kind: TokenKind, text: string, position: SourcePosition): void => {
+    tokens.push({ kind, text, position, spaceBefore });
+    spaceBefore = false;
+  };
+
+  const advance = (count: number): void => {
+    for (let i = 0; i < count; i++) {
+      if (source[index] === "\n") {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      index++;
+    }
+  };
+
+  while (index < source.length) {
+    const ch = source[index];
+    const position = { line, column };
+    const rest = source.slice(index);
+
+    if (/\s/.test(ch)) {
+      advance(1);
+      spaceBefore = true;
+    } else if (ch === ";") {
+      // Comment: skip to the end of the line
+      while (index < source.length && source[index] !== "\n") {
+        advance(1);
+      }
+      spaceBefore = true;
+    } else if (NUMBER_PATTERN.test(rest)) {
+      const text = (rest.match(NUMBER_PATTERN) as RegExpMatchArray)[0];
+      if (!Number.isFinite(Number(text))) {
+        throw new ScriptSyntaxError(`number '${text}' is too large`, position);
+      }
+      push("number", text, position);
+      advance(text.length);
+    } else if (WORD_PATTERN.test(rest)) {
+      const text = (rest.match(WORD_PATTERN) as RegExpMatchArray)[0];
+      push("word", text.toLowerCase(), position);
+      advance(text.length);
+    } else if (ch === ":") {
+      const name = source.slice(index + 1).match(WORD_PATTERN);
+      if (name === null) {
+        throw new ScriptSyntaxError("expected a variable name after ':'", position);
+      }
+      push("variable", name[0].toLowerCase(), position);
+      advance(name[0].length + 1);
+    } else if (ch === '"') {
+      const end = source.indexOf('"', index + 1);
+      const newline = source.indexOf("\n", index + 1);
+      if (end === -1 || (newline !== -1 && newline < end)) {
+        throw new ScriptSyntaxError("unterminated string", position);
+      }
+      push("string", source.slice(index + 1, end), position);
+      advance(end - index + 1);
+    } else if (ch === "#") {
+      // A hex color is shorthand for the same color written as a string
+      const text = (rest.match(HEX_COLOR_PATTERN) as RegExpMatchArray)[0];
+      push("string", text.toLowerCase(), position);
+      advance(text.length);
+    } else if (OPERATORS.includes(ch)) {
+      push("operator", ch, position);
+      advance(1);
+    } else {
+      throw new ScriptSyntaxError(`unexpected character '${ch}'`, position);
+    }
+  }
+
+  push("eof", "", { line, column });
+  return tokens;
+}
+
+const KEYWORDS = new Set([
+  "forward",
+  "fd",
+  "back",
+  "bk",
+  "turn",
+  "right",
+  "rt",
+  "left",
+  "lt",
+  "color",
+  "penup",
+  "pu",
+  "pendown",
+  "pd",
+  "goto",
+  "setxy",
+  "setheading",
+  "seth",
+  "push",
+  "pop",
+  "width",
+  "pensize",
+  "beginfill",
+  "endfill",
+  "repeat",
+  "to",
+  "end",
+  "make",
+]);
+
+/**
+ * Recursive-descent parser over the token list of one script.
+ * Procedure arities are tracked as definitions are seen, so a procedure must be defined
+ * (textually) before it is called; a procedure may call itself from its own body.
+ */
+class Parser {
+  private index = 0;
+  private readonly arities = new Map<string, number>();
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseProgram(): Program {
+    const body = this.parseStatements(() => this.peek().kind === "eof");
+    return { body };
+  }
+
+  private parseStatements(atEnd: () => boolean): Statement[] {
+    const statements: Statement[] = [];
+    while (!atEnd()) {
+      statements.push(this.parseStatement());
+    }
+    return statements;
+  }
+
+  private parseStatement(): Statement {
+    const token = this.next();
+    const position = token.position;
+    if (token.kind !== "word") {
+      throw new ScriptSyntaxError(describe(token, "expected a command"), position);
+    }
+    switch (token.text) {
+      case "forward":
+      case "fd":
+        return { kind: "forward", distance: this.parseExpression(), position };
+      case "back":
+      case "bk":
+        return {
+          kind: "forward",
+          distance: { kind: "negate", operand: this.parseExpression(), position },
+          position,
+        };
+      case "turn":
+      case "right":
+      case "rt":
+        return { kind: "turn", degrees: this.parseExpression(), position };
+      case "left":
+      case "lt":
+        return {
+          kind: "turn",
+          degrees: { kind: "negate", operand: this.parseExpression(), position },
+          position,
+        };
+      case "color":
+        return { kind: "color", color: this.parseColor(), position };
+      case "penup":
+      case "pu":
+        return { kind: "penUp", position };
+      case "pendown":
+      case "pd":
+        return { kind: "penDown", position };
+      case "goto":
+      case "setxy": {
+        const x = this.parseExpression();
+        return { kind: "goTo", x, y: this.parseExpression(), position };
+      }
+      case "setheading":
+      case "seth":
+        return { kind: "setHeading", degrees: this.parseExpression(), position };
+      case "push":
+        return { kind: "pushState", position };
+      case "pop":
+        return { kind: "popState", position };
+      case "width":
+      case "pensize":
+        return { kind: "strokeWidth", width: this.parseExpression(), position };
+      case "beginfill":
+        return {
+          kind: "beginFill",
+          color: this.peek().kind === "string" ? this.parseColor() : undefined,
+          position,
+        };
+      case "endfill":
+        return { kind: "endFill", position };
+      case "repeat":
+        return this.parseRepeat(position);
+      case "to":
+        return this.parseDefinition(position);
+      case "make": {
+        const variable = this.next();
+        if (variable.kind !== "variable") {
+          throw new ScriptSyntaxError(
+            describe(variable, "expected a :variable after 'make'"),
+            variable.position
+          );
+        }
+        return { kind: "make", name: variable.text, value: this.parseExpression(), position };
+      }
+      case "end":
+        throw new ScriptSyntaxError("'end' without a matching 'to'", position);
+      default: {
+        const arity = this.arities.get(token.text);
+        if (arity === undefined) {
+          throw new ScriptSyntaxError(`unknown command '${token.text}'`, position);
+        }
+        const args: Expression[] = [];
+        for (let i = 0; i < arity; i++) {
+          args.push(this.parseExpression());
+        }
+        return { kind: "call", name: token.text, args, position };
+      }
+    }
+  }
+
+  private parseColor(): Color {
+    const token = this.next();
+    if ((token.kind === "word" || token.kind === "string") && isColor(token.text)) {
+      return token.text;
+    }
+    throw new ScriptSyntaxError(describe(token, "expected a color"), token.position);
+  }
+
+  private parseRepeat(position: SourcePosition): Statement {
+    const count = this.parseExpression();
+    this.expectOperator("[");
+    const body = this.parseStatements(() => this.isOperator("]") || this.peek().kind === "eof");
+    this.expectOperator("]");
+    return { kind: "repeat", count, body, position };
+  }
+
+  private parseDefinition(position: SourcePosition): Statement {
+    const name = this.next();
+    if (name.kind !== "word") {
+      throw new ScriptSyntaxError(describe(name, "expected a procedure name after 'to'"), name.position);
+    }
+    if (KEYWORDS.has(name.text)) {
+      throw new ScriptSyntaxError(`cannot redefine built-in command '${name.text}'`, name.position);
+    }
+    const parameters: string[] = [];
+    while (this.peek().kind === "variable") {
+      const parameter = this.next();
+      if (parameters.includes(parameter.text)) {
+        throw new ScriptSyntaxError(`duplicate parameter ':${parameter.text}'`, parameter.position);
+      }
+      parameters.push(parameter.text);
+    }
+    // Register before parsing the body so that the procedure can call itself
+    this.arities.set(name.text, parameters.length);
+    const body = this.parseStatements(() => this.isWord("end") || this.peek().kind === "eof");
+    const end = this.next();
+    if (end.kind !== "word" || end.text !== "end") {
+      throw new ScriptSyntaxError(`missing 'end' for procedure '${name.text}'`, end.position);
+    }
+    return { kind: "define", name: name.text, parameters, body, position };
+  }
+
+  private parseExpression(): Expression {
+    let left = this.parseTerm();
+    while (this.isOperator("+") || (this.isOperator("-") && !this.startsNegativeArgument())) {
+      const operator = this.next();
+      const right = this.parseTerm();
+      left = {
+        kind: "binary",
+        operator: operator.text as BinaryOperator,
+        left,
+        right,
+        position: operator.position,
+      };
+    }
+    return left;
+  }
+
+  private parseTerm(): Expression {
+    let left = this.parseUnary();
+    while (this.isOperator("*") || this.isOperator("/")) {
+      const operator = this.next();
+      const right = this.parseUnary();
+      left = {
+        kind: "binary",
+        operator: operator.text as BinaryOperator,
+        left,
+        right,
+        position: operator.position,
+      };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    if (this.isOperator("-")) {
+      const operator = this.next();
+      return { kind: "negate", operand: this.parseUnary(), position: operator.position };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+    switch (token.kind) {
+      case "number":
+        return { kind: "number", value: Number(token.text), position: token.position };
+      case "variable":
+        return { kind: "variable", name: token.text, position: token.position };
+      case "operator":
+        if (token.text === "(") {
+          const inner = this.parseExpression();
+          this.expectOperator(")");
+          return inner;
+        }
+        break;
+    }
+    throw new ScriptSyntaxError(describe(token, "expected a number, :variable or '('"), token.position);
+  }
+
+  private startsNegativeArgument(): boolean {
+    const minus = this.tokens[this.index];
+    const following = this.tokens[this.index + 1];
+    return minus.spaceBefore && following !== undefined && !following.spaceBefore;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== "eof") {
+      this.index++;
+    }
+    return token;
+  }
+
+  private isOperator(text: string): boolean {
+    const token = this.peek();
+    return token.kind === "operator" && token.text === text;
+  }
+
+  private isWord(text: string): boolean {
+    const token = this.peek();
+    return token.kind === "word" && token.text === text;
+  }
+
+  private expectOperator(text: string): void {
+    const token = this.next();
+    if (token.kind !== "operator" || token.text !== text) {
+      throw new ScriptSyntaxError(describe(token, `expected '${text}'`), token.position);
+    }
+  }
+}
+
+function describe(token: Token, expectation: string): string {
+  return token.kind === "eof"
+    ? `${expectation} but reached the end of the script`
+    : `${expectation} but found '${token.text}'`;
+}
+
+/**
+ * Parses the source text of a script.
+ * @param source script text.
+ * @returns the abstract syntax tree of the script.
+ * @throws ScriptSyntaxError with the line and column of the first problem if source is not well-formed.
+ */
+export function parse(source: string): Program {
+  return new Parser(tokenize(source)).parseProgram();
+}
+
+export type ExecuteOptions = {
+  /** Maximum nesting depth of procedure calls before execution is aborted; default 1000. */
+  maxCallDepth?: number;
+};
+
+type Procedure = { parameters: string[]; body: Statement[] };
+
+/**
+ * Executes a parsed script, driving the given turtle.
+ * Procedure calls get a fresh scope holding their parameters; variables not found there are
+ * looked up in the top-level scope. `make` assigns in the innermost scope.
+ * @param program parsed script.
+ * @param turtle the turtle to drive.
+ * @param options execution limits.
+ * @throws ScriptRuntimeError if a variable is undefined, a repeat count is not a non-negative
+ *         integer, a computed number is not finite, a width is not positive, `pop` finds no
+ *         saved state, `beginfill` and `endfill` are unbalanced, or the call depth limit is exceeded.
+ *         Commands executed before the error have already been applied to turtle.
+ */
+export function execute(program: Program, turtle: Turtle, options: ExecuteOptions = {}): void {
+  const maxCallDepth = options.maxCallDepth ?? 1000;
+  const procedures = new Map<string, Procedure>();
+  const globals = new Map<string, number>();
+
+  const evaluate = (expression: Expression, scope: Map<string, number>): number => {
+    let value: number;
+    switch (expression.kind) {
+      case "number":
+        return expression.value;
+      case "variable": {
+        const found = scope.get(expression.name) ?? globals.get(expression.name);
+        if (found === undefined) {
+          throw new ScriptRuntimeError(`undefined variable ':${expression.name}'`, expression.position);
+        }
+        return found;
+      }
+      case "negate":
+        return -evaluate(expression.operand, scope);
+      case "binary": {
+        const left = evaluate(expression.left, scope);
+        const right = evaluate(expression.right, scope);
+        switch (expression.operator) {
+          case "+":
+            value = left + right;
+            break;
+          case "-":
+            value = left - right;
+            break;
+          case "*":
+            value = left * right;
+            break;
+          case "/":
+            value = left / right;
+            break;
+        }
+        if (!Number.isFinite(value)) {
+          throw new ScriptRuntimeError(`'${expression.operator}' produced ${value}`, expression.position);
+        }
+        return value;
+      }
+    }
+  };
+
+  const run = (statements: Statement[], scope: Map<string, number>, depth: number): void => {
+    for (const statement of statements) {
+      switch (statement.kind) {
+        case "forward":
+          turtle.forward(evaluate(statement.distance, scope));
+          break;
+        case "turn":
+          turtle.turn(evaluate(statement.degrees, scope));
+          break;
+        case "color":
+          turtle.color(statement.color);
+          break;
+        case "penUp":
+          turtle.penUp();
+          break;
+        case "penDown":
+          turtle.penDown();
+          break;
+        case "goTo":
+          turtle.goTo({ x: evaluate(statement.x, scope), y: evaluate(statement.y, scope) });
+          break;
+        case "setHeading":
+          turtle.setHeading(evaluate(statement.degrees, scope));
+          break;
+        case "pushState":
+          turtle.pushState();
+          break;
+        case "popState":
+          try {
+            turtle.popState();
+          } catch {
+            throw new ScriptRuntimeError("'pop' without a matching 'push'", statement.position);
+          }
+          break;
+        case "strokeWidth": {
+          const width = evaluate(statement.width, scope);
+          if (!(width > 0)) {
+            throw new ScriptRuntimeError(`width must be positive, got ${width}`, statement.width.position);
+          }
+          turtle.strokeWidth(width);
+          break;
+        }
+        case "beginFill":
+          try {
+            turtle.beginFill(statement.color);
+          } catch {
+            throw new ScriptRuntimeError("'beginfill' while a fill is already in progress", statement.position);
+          }
+          break;
+        case "endFill":
+          try {
+            turtle.endFill();
+          } catch {
+            throw new ScriptRuntimeError("'endfill' without a matching 'beginfill'", statement.position);
+          }
+          break;
+        case "repeat": {
+          const count = evaluate(statement.count, scope);
+          if (!Number.isInteger(count) || count < 0) {
+            throw new ScriptRuntimeError(
+              `repeat count must be a non-negative integer, got ${count}`,
+              statement.count.position
+            );
+          }
+          for (let i = 0; i < count; i++) {
+            run(statement.body, scope, depth);
+          }
+          break;
+        }
+        case "define":
+          procedures.set(statement.name, { parameters: statement.parameters, body: statement.body });
+          break;
+        case "make":
+          scope.set(statement.name, evaluate(statement.value, scope));
+          break;
+        case "call": {
+          const procedure = procedures.get(statement.name);
+          if (procedure === undefined) {
+            // Defined in a branch that has not run yet, e.g. inside a procedure body
+            throw new ScriptRuntimeError(`procedure '${statement.name}' is not defined yet`, statement.position);
+          }
+          if (depth >= maxCallDepth) {
+            throw new ScriptRuntimeError(`call depth exceeded ${maxCallDepth}`, statement.position);
+          }
+          const locals = new Map<string, number>();
+          procedure.parameters.forEach((parameter, i) => {
+            locals.set(parameter, evaluate(statement.args[i], scope));
+          });
+          run(procedure.body, locals, depth + 1);
+          break;
+        }
+      }
+    }
+  };
+
+  run(program.body, globals, 0);
+}
+
+/**
+ * Parses and executes a script, driving the given turtle.
+ * @param source script text.
+ * @param turtle the turtle to drive.
+ * @param options execution limits.
+ * @throws ScriptSyntaxError if source is not well-formed, in which case turtle is not moved.
+ * @throws ScriptRuntimeError as described for execute.
+ */
+export function runScript(source: string, turtle: Turtle, options: ExecuteOptions = {}): void {
+  execute(parse(source), turtle, options);
+}
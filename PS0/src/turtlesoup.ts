@@ -1,6 +1,9 @@
-import { Turtle, SimpleTurtle, Point, Color } from "./turtle";
+import { Turtle, SimpleTurtle, Point, Color, PathSegment } from "./turtle";
+import { toHTML, ExportOptions } from "./export";
+import { PathInstruction, PlanOptions, planPath } from "./pathplanner";
 import * as fs from "fs";
-import { execSync } from "child_process";
+import * as path from "path";
+import { execFileSync } from "child_process";
 
 /**
  * Draws a square of the given side length using the turtle.
@@ -59,34 +62,21 @@ export function distance(p1: Point, p2: Point): number {
 }
 
 /**
- * Finds a path (sequence of turns and moves) for the turtle to visit a list of points in order.
- * You should use your distance method as appropriate.
- * @param turtle The turtle to move.
- * @param points An array of points to visit in order.
- * @returns An array of instructions (e.g., strings like "forward 10", "turn 90") representing the path.
- *          This is simplified for Problem Set 0 and we won't actually use these instructions to drive the turtle directly in this starter code.
- *          The function primarily needs to *calculate* the path conceptually.
+ * Finds a path (sequence of turns and moves) for the turtle to visit a list of points.
+ * The plan starts from the turtle's current position and heading, turns the shortest way
+ * toward each point and moves straight to it. The turtle itself is not moved; pass the result
+ * to executePath to drive it.
+ * @param turtle The turtle whose position and heading the plan starts from.
+ * @param points An array of points to visit.
+ * @param options Visiting order ("given" by default, or an optimized tour) and tolerance.
+ * @returns An array of instructions, e.g. {kind: "turn", degrees: 90} and {kind: "forward", units: 10}.
  */
-export function findPath(turtle: Turtle, points: Point[]): string[] {
-  const instructions: string[] = [];
-  let currentPoint = points[0];
-  
-  for (let i = 1; i < points.length; i++) {
-    const nextPoint = points[i];
-    const dist = distance(currentPoint, nextPoint);
-    
-    // Calculate the angle between current and next point
-    const dx = nextPoint.x - currentPoint.x;
-    const dy = nextPoint.y - currentPoint.y;
-    const angle = Math.atan2(dy, dx) * (180 / Math.PI);
-    
-    instructions.push(`turn ${angle}`);
-    instructions.push(`forward ${dist}`);
-    
-    currentPoint = nextPoint;
-  }
-  
-  return instructions;
+export function findPath(
+  turtle: Turtle,
+  points: Point[],
+  options: PlanOptions = {}
+): PathInstruction[] {
+  return planPath(turtle.getPosition(), turtle.getHeading(), points, options);
 }
 
 /**
@@ -129,38 +119,11 @@ export function drawPersonalArt(turtle: Turtle): void {
 }
 
 function generateHTML(
-  pathData: { start: Point; end: Point; color: Color }[]
+  pathData: PathSegment[],
+  options: ExportOptions = {}
 ): string {
-  const canvasWidth = 500;
-  const canvasHeight = 500;
-  const scale = 1; // Adjust scale as needed
-  const offsetX = canvasWidth / 2; // Center the origin
-  const offsetY = canvasHeight / 2; // Center the origin
-
-  let pathStrings = "";
-  for (const segment of pathData) {
-    const x1 = segment.start.x * scale + offsetX;
-    const y1 = segment.start.y * scale + offsetY;
-    const x2 = segment.end.x * scale + offsetX;
-    const y2 = segment.end.y * scale + offsetY;
-    pathStrings += `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${segment.color}" stroke-width="2"/>`;
-  }
-
-  return `<!DOCTYPE html>
-<html>
-<head>
-    <title>Turtle Graphics Output</title>
-    <style>
-        body { margin: 0; }
-        canvas { display: block; }
-    </style>
-</head>
-<body>
-    <svg width="${canvasWidth}" height="${canvasHeight}" style="background-color:#f0f0f0;">
-        ${pathStrings}
-    </svg>
-</body>
-</html>`;
+  // Fit the whole drawing into the canvas instead of clipping at ±250
+  return toHTML(pathData, { width: 500, height: 500, ...options });
 }
 
 function saveHTMLToFile(
@@ -171,43 +134,51 @@ function saveHTMLToFile(
   console.log(`Drawing saved to ${filename}`);
 }
 
-function openHTML(filename: string = "output.html"): void {
+/**
+ * Opens a file with the operating system's default application, e.g. an HTML file in the browser.
+ * Prints a message instead if that fails. The file name is passed as a single argument, never
+ * through a shell, so spaces and shell metacharacters in it are harmless.
+ * @param filename path of the file to open.
+ */
+export function openHTML(filename: string = "output.html"): void {
+  // An absolute path cannot be mistaken for an option of the opener
+  const file = path.resolve(filename);
+  const [command, ...args] =
+    process.platform === "darwin"
+      ? ["open", file]
+      : process.platform === "win32"
+        ? ["rundll32", "url.dll,FileProtocolHandler", file]
+        : ["xdg-open", file];
   try {
-    // For macOS
-    execSync(`open ${filename}`);
+    execFileSync(command, args, { stdio: "ignore" });
   } catch {
-    try {
-      // For Windows
-      execSync(`start ${filename}`);
-    } catch {
-      try {
-        // For Linux
-        execSync(`xdg-open ${filename}`);
-      } catch {
-        console.log("Could not open the file automatically");
-      }
-    }
+    console.log("Could not open the file automatically");
   }
 }
 
-export function main(): void {
+/**
+ * Draws a square and saves it to output.html.
+ * @param options open: whether to open the result in the browser; default false.
+ */
+export function main(options: { open?: boolean } = {}): void {
   const turtle = new SimpleTurtle();
 
-  // Move to a better starting position
-  turtle.forward(-100);  // Move left
-  turtle.turn(90);
-  turtle.forward(-100);  // Move down
-  turtle.turn(-90);
+  // Move to a better starting position without drawing
+  turtle.penUp();
+  turtle.goTo({ x: -100, y: 100 });
+  turtle.penDown();
 
   // Draw a larger square
   drawSquare(turtle, 200);
 
   const htmlContent = generateHTML((turtle as SimpleTurtle).getPath());
   saveHTMLToFile(htmlContent);
-  openHTML();
+  if (options.open ?? false) {
+    openHTML();
+  }
 }
 
-// Run main function if this file is executed directly
+// Run main function if this file is executed directly; pass --open to open the result
 if (require.main === module) {
-  main();
+  main({ open: process.argv.includes("--open") });
 }
@@ -0,0 +1,277 @@
+import { Point } from "./turtle";
+import { Bounds } from "./analysis";
+
+/**
+ * A world for turtles to move in: a bounded rectangle with a rule for what happens at its edges,
+ * and polygonal obstacles that stop the turtle (or are merely reported) when it runs into them.
+ *
+ * Boundary modes:
+ * - "none": no boundary; bounds are ignored
+ * - "wrap": the world is a torus; a move that leaves one edge continues from the opposite edge,
+ *           and the line drawn is split at the edges
+ * - "bounce": a move that reaches an edge reflects off it, like a billiard ball
+ * - "clamp": a move that reaches an edge stops there
+ * - "error": a move that would leave the bounds throws Error and does not happen
+ */
+
+export type BoundaryMode = "none" | "wrap" | "bounce" | "clamp" | "error";
+
+/** A closed polygon the turtle cannot pass through. */
+export type Obstacle = {
+  /** Identifies the obstacle in collisions; optional. */
+  name?: string;
+  /** Vertices in order; the last is joined back to the first. */
+  points: Point[];
+};
+
+export type World = {
+  /** The rectangle the turtle lives in; required unless mode is "none". */
+  bounds?: Bounds;
+  /** What happens at the edges of bounds; default "none". */
+  mode?: BoundaryMode;
+  obstacles?: ReadonlyArray<Obstacle>;
+  /** Whether running into an obstacle stops the move; default true. Otherwise collisions are only reported. */
+  stopAtObstacles?: boolean;
+};
+
+/** A place where a turtle's move touched an obstacle. */
+export type Collision = {
+  /** Index of the obstacle in World.obstacles. */
+  obstacle: number;
+  name?: string;
+  point: Point;
+};
+
+/** One straight stretch of a move; consecutive pieces are joined unless the turtle wrapped between them. */
+export type MovePiece = {
+  start: Point;
+  end: Point;
+};
+
+/** Everything that happened during one move in a world. */
+export type MoveResult = {
+  pieces: MovePiece[];
+  /** Where the turtle ends up. */
+  position: Point;
+  /** Direction of travel at the end of the move; differs from the initial one after bouncing. */
+  direction: number;
+  collisions: Collision[];
+};
+
+/** Parameters and distances below this are treated as zero, so that a move starting on an edge is not stopped by it. */
+const EPSILON = 1e-9;
+
+/** How close a point must be to an obstacle edge to count as standing on it. */
+const ON_EDGE = 1e-7;
+
+/** Bound on the number of edges one move may reach, in case of a pathologically long move. */
+const MAX_EDGE_HITS = 100000;
+
+/**
+ * Checks that a world is usable.
+ * @param world the world to check.
+ * @throws Error if a bounded mode has no bounds, the bounds have no area, or an obstacle has fewer than 3 vertices.
+ */
+export function validateWorld(world: World): void {
+  const mode = world.mode ?? "none";
+  if (mode !== "none") {
+    const b = world.bounds;
+    if (b === undefined) {
+      throw new Error(`boundary mode '${mode}' needs bounds`);
+    }
+    if (!(b.maxX > b.minX && b.maxY > b.minY)) {
+      throw new Error("world bounds must have positive width and height");
+    }
+  }
+  (world.obstacles ?? []).forEach((obstacle, i) => {
+    if (obstacle.points.length < 3) {
+      throw new Error(`obstacle ${obstacle.name ?? i} needs at least 3 vertices`);
+    }
+  });
+}
+
+/**
+ * Checks whether a point is inside the world's bounds (edges included).
+ * @param world the world.
+ * @param p point to check.
+ * @returns true iff p is within bounds, or the world is unbounded.
+ */
+export function isInside(world: World, p: Point): boolean {
+  const b = world.bounds;
+  if ((world.mode ?? "none") === "none" || b === undefined) {
+    return true;
+  }
+  return p.x >= b.minX - EPSILON && p.x <= b.maxX + EPSILON && p.y >= b.minY - EPSILON && p.y <= b.maxY + EPSILON;
+}
+
+/**
+ * Finds where a ray from p along unit vector d first crosses a segment.
+ * @returns the distance along the ray, or undefined if it does not cross within (EPSILON, maxDistance].
+ */
+function rayHit(p: Point, d: Point, a: Point, b: Point, maxDistance: number): number | undefined {
+  const s = { x: b.x - a.x, y: b.y - a.y };
+  const denominator = d.x * s.y - d.y * s.x;
+  if (Math.abs(denominator) < EPSILON) {
+    return undefined;
+  }
+  const ap = { x: a.x - p.x, y: a.y - p.y };
+  const t = (ap.x * s.y - ap.y * s.x) / denominator;
+  const u = (ap.x * d.y - ap.y * d.x) / denominator;
+  return t > EPSILON && t <= maxDistance + EPSILON && u >= -EPSILON && u <= 1 + EPSILON ? t : undefined;
+}
+
+/** Checks whether p is on the segment from a to b. */
+function onSegment(p: Point, a: Point, b: Point): boolean {
+  const s = { x: b.x - a.x, y: b.y - a.y };
+  const lengthSquared = s.x * s.x + s.y * s.y;
+  const u = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * s.x + (p.y - a.y) * s.y) / lengthSquared));
+  return Math.hypot(a.x + u * s.x - p.x, a.y + u * s.y - p.y) <= ON_EDGE;
+}
+
+/** Checks whether p is strictly inside a polygon, by the even-odd rule. */
+function insidePolygon(p: Point, points: ReadonlyArray<Point>): boolean {
+  let inside = false;
+  points.forEach((a, i) => {
+    const b = points[(i + 1) % points.length];
+    if (a.y > p.y !== b.y > p.y && p.x < a.x + ((p.y - a.y) * (b.x - a.x)) / (b.y - a.y)) {
+      inside = !inside;
+    }
+  });
+  return inside;
+}
+
+/** Checks whether a move from p along unit vector d starts on the obstacle's boundary and heads into it. */
+function entersFromEdge(obstacle: Obstacle, p: Point, d: Point): boolean {
+  const points = obstacle.points;
+  const onEdge = points.some((a, i) => onSegment(p, a, points[(i + 1) % points.length]));
+  return onEdge && insidePolygon({ x: p.x + ON_EDGE * 10 * d.x, y: p.y + ON_EDGE * 10 * d.y }, points);
+}
+
+/**
+ * Finds the first obstacle edge on a straight piece of a move.
+ * If fromEdge is set, a piece starting on an obstacle's boundary and heading into it hits that obstacle at distance 0,
+ * so that a turtle stopped at an obstacle cannot walk through it on its next move.
+ */
+function firstObstacleHit(
+  obstacles: ReadonlyArray<Obstacle>,
+  p: Point,
+  d: Point,
+  length: number,
+  fromEdge: boolean
+): { distance: number; obstacle: number } | undefined {
+  let best: { distance: number; obstacle: number } | undefined = undefined;
+  obstacles.forEach((obstacle, index) => {
+    if (fromEdge && best?.distance !== 0 && entersFromEdge(obstacle, p, d)) {
+      best = { distance: 0, obstacle: index };
+      return;
+    }
+    obstacle.points.forEach((a, i) => {
+      const b = obstacle.points[(i + 1) % obstacle.points.length];
+      const t = rayHit(p, d, a, b, length);
+      if (t !== undefined && (best === undefined || t < best.distance)) {
+        best = { distance: t, obstacle: index };
+      }
+    });
+  });
+  return best;
+}
+
+/**
+ * Works out a straight move in a world, without changing anything.
+ * @param world the world.
+ * @param start where the move starts; must be inside the world.
+ * @param direction direction of travel in degrees (0 is up, clockwise), like a turtle heading.
+ * @param distance how far to travel; must be non-negative.
+ * @returns the pieces of the move, where it ends, the final direction of travel, and any collisions.
+ * @throws Error if the world's mode is "error" and the move would leave its bounds.
+ */
+export function moveInWorld(world: World, start: Point, direction: number, distance: number): MoveResult {
+  const mode = world.mode ?? "none";
+  const bounds = world.bounds;
+  const obstacles = world.obstacles ?? [];
+  const stopAtObstacles = world.stopAtObstacles ?? true;
+  const radians = (direction * Math.PI) / 180;
+  let d = { x: Math.sin(radians), y: -Math.cos(radians) };
+  let p = { x: start.x, y: start.y };
+  let remaining = distance;
+  const pieces: MovePiece[] = [];
+  const collisions: Collision[] = [];
+
+  const addPiece = (from: Point, to: Point): void => {
+    if (Math.hypot(to.x - from.x, to.y - from.y) > EPSILON) {
+      pieces.push({ start: from, end: to });
+    }
+  };
+
+  for (let edgeHits = 0; remaining > EPSILON && edgeHits < MAX_EDGE_HITS; edgeHits++) {
+    // How far until the piece reaches an edge, and which axes it reaches
+    let toEdge = Infinity;
+    let hitsX = false;
+    let hitsY = false;
+    if (mode !== "none" && bounds !== undefined) {
+      const tx = d.x > EPSILON ? (bounds.maxX - p.x) / d.x : d.x < -EPSILON ? (bounds.minX - p.x) / d.x : Infinity;
+      const ty = d.y > EPSILON ? (bounds.maxY - p.y) / d.y : d.y < -EPSILON ? (bounds.minY - p.y) / d.y : Infinity;
+      toEdge = Math.max(0, Math.min(tx, ty));
+      hitsX = tx <= toEdge + EPSILON;
+      hitsY = ty <= toEdge + EPSILON;
+    }
+    const length = Math.min(remaining, toEdge);
+
+    // Obstacles on this piece, in order of distance
+    let travelled = 0;
+    let from = p;
+    for (;;) {
+      const hit = firstObstacleHit(obstacles, from, d, length - travelled, stopAtObstacles);
+      if (hit === undefined) {
+        break;
+      }
+      const point = { x: from.x + hit.distance * d.x, y: from.y + hit.distance * d.y };
+      const name = obstacles[hit.obstacle].name;
+      collisions.push(name === undefined ? { obstacle: hit.obstacle, point } : { obstacle: hit.obstacle, name, point });
+      if (stopAtObstacles) {
+        addPiece(p, point);
+        return { pieces, position: point, direction, collisions };
+      }
+      travelled += hit.distance;
+      from = point;
+    }
+
+    const end = { x: p.x + length * d.x, y: p.y + length * d.y };
+    addPiece(p, end);
+    remaining -= length;
+    p = end;
+    if (remaining <= EPSILON) {
+      break;
+    }
+
+    // The piece stopped at an edge with distance left to go
+    switch (mode) {
+      case "clamp":
+        return { pieces, position: p, direction, collisions };
+      case "error":
+        throw new Error(
+          `move of ${distance} from (${start.x}, ${start.y}) would leave the world at (${p.x}, ${p.y})`
+        );
+      case "bounce":
+        if (hitsX) {
+          d = { x: -d.x, y: d.y };
+          direction = 360 - direction;
+        }
+        if (hitsY) {
+          d = { x: d.x, y: -d.y };
+          direction = 180 - direction;
+        }
+        direction = ((direction % 360) + 360) % 360;
+        break;
+      case "wrap": {
+        const b = bounds as Bounds;
+        p = {
+          x: hitsX ? (d.x > 0 ? b.minX : b.maxX) : p.x,
+          y: hitsY ? (d.y > 0 ? b.minY : b.maxY) : p.y,
+        };
+        break;
+      }
+    }
+  }
+  return { pieces, position: p, direction, collisions };
+}
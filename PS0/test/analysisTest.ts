@@ -0,0 +1,142 @@
+import { expect } from "chai";
+import {
+  pathLength,
+  computeBounds,
+  isClosed,
+  selfIntersections,
+  enclosedArea,
+  lengthByColor,
+  pathStatistics,
+} from "../src/analysis";
+import { drawSquare } from "../src/turtlesoup";
+import { SimpleTurtle, PathSegment } from "../src/turtle";
+
+function assertAlmostEqual(
+  actual: number,
+  expected: number,
+  delta: number = 0.001,
+  message?: string
+): void {
+  expect(actual).to.be.closeTo(expected, delta, message);
+}
+
+function polyline(points: Array<[number, number]>): PathSegment[] {
+  const path: PathSegment[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const [x1, y1] = points[i - 1];
+    const [x2, y2] = points[i];
+    path.push({ start: { x: x1, y: y1 }, end: { x: x2, y: y2 }, color: "black" });
+  }
+  return path;
+}
+
+describe("pathLength", () => {
+  it("is 0 for an empty path", () => {
+    expect(pathLength([])).to.equal(0);
+  });
+
+  it("sums segment lengths", () => {
+    expect(pathLength(polyline([[0, 0], [3, 4], [3, 10]]))).to.equal(11);
+  });
+});
+
+describe("computeBounds", () => {
+  it("is undefined for an empty path", () => {
+    expect(computeBounds([])).to.equal(undefined);
+  });
+
+  it("covers every endpoint", () => {
+    const path = polyline([[-5, 2], [3, -7], [10, 1]]);
+    expect(computeBounds(path)).to.deep.equal({ minX: -5, minY: -7, maxX: 10, maxY: 2 });
+  });
+});
+
+describe("isClosed", () => {
+  it("is false for an empty path", () => {
+    expect(isClosed([])).to.equal(false);
+  });
+
+  it("is true for a square drawn by the turtle despite rounding", () => {
+    const turtle = new SimpleTurtle();
+    drawSquare(turtle, 37.3);
+    expect(isClosed(turtle.getPath())).to.equal(true);
+  });
+
+  it("is false for an open polyline", () => {
+    expect(isClosed(polyline([[0, 0], [1, 0], [1, 1]]))).to.equal(false);
+  });
+
+  it("is false for a disconnected path that ends at its start", () => {
+    const path = [...polyline([[0, 0], [1, 0]]), ...polyline([[5, 5], [0, 0]])];
+    expect(isClosed(path)).to.equal(false);
+  });
+});
+
+describe("selfIntersections", () => {
+  it("ignores joints of a simple closed loop", () => {
+    expect(selfIntersections(polyline([[0, 0], [4, 0], [4, 4], [0, 4], [0, 0]]))).to.deep.equal([]);
+  });
+
+  it("finds the crossing of a bowtie", () => {
+    const points = selfIntersections(polyline([[0, 0], [4, 4], [4, 0], [0, 4], [0, 0]]));
+    expect(points).to.have.length(1);
+    assertAlmostEqual(points[0].x, 2);
+    assertAlmostEqual(points[0].y, 2);
+  });
+
+  it("finds a segment touching an earlier one", () => {
+    const points = selfIntersections(polyline([[0, 0], [4, 0], [4, 2], [2, 2], [2, 0]]));
+    expect(points).to.deep.equal([{ x: 2, y: 0 }]);
+  });
+
+  it("reports both ends of a collinear overlap", () => {
+    const points = selfIntersections(polyline([[0, 0], [4, 0], [1, 0]]));
+    expect(points).to.deep.equal([{ x: 1, y: 0 }]);
+    const separate = selfIntersections([...polyline([[0, 0], [4, 0]]), ...polyline([[1, 0], [3, 0]])]);
+    expect(separate).to.deep.equal([{ x: 1, y: 0 }, { x: 3, y: 0 }]);
+  });
+});
+
+describe("enclosedArea", () => {
+  it("computes the area of a square regardless of winding", () => {
+    assertAlmostEqual(enclosedArea(polyline([[0, 0], [4, 0], [4, 4], [0, 4], [0, 0]])), 16);
+    assertAlmostEqual(enclosedArea(polyline([[0, 0], [0, 4], [4, 4], [4, 0], [0, 0]])), 16);
+  });
+
+  it("throws for an open path", () => {
+    expect(() => enclosedArea(polyline([[0, 0], [1, 0]]))).to.throw(Error);
+  });
+});
+
+describe("lengthByColor", () => {
+  it("sums lengths per color", () => {
+    const turtle = new SimpleTurtle();
+    turtle.color("red");
+    turtle.forward(10);
+    turtle.color("blue");
+    turtle.forward(5);
+    turtle.color("red");
+    turtle.forward(1);
+    expect([...lengthByColor(turtle.getPath())]).to.deep.equal([
+      ["red", 11],
+      ["blue", 5],
+    ]);
+  });
+});
+
+describe("pathStatistics", () => {
+  it("summarizes a square", () => {
+    const turtle = new SimpleTurtle();
+    drawSquare(turtle, 10);
+    const stats = pathStatistics(turtle.getPath());
+    expect(stats.segmentCount).to.equal(4);
+    assertAlmostEqual(stats.length, 40);
+    expect(stats.closed).to.equal(true);
+    assertAlmostEqual(stats.area as number, 100);
+    expect(stats.intersectionCount).to.equal(0);
+  });
+
+  it("has no area for an open path", () => {
+    expect(pathStatistics(polyline([[0, 0], [1, 0]])).area).to.equal(undefined);
+  });
+});
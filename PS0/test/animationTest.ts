@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import {
+  segmentHeading,
+  buildTimeline,
+  toAnimatedSVG,
+  toAnimatedHTML,
+} from "../src/animation";
+import { drawSquare } from "../src/turtlesoup";
+import { SimpleTurtle } from "../src/turtle";
+
+function squarePath() {
+  const turtle = new SimpleTurtle();
+  drawSquare(turtle, 10);
+  return turtle.getPath();
+}
+
+describe("segmentHeading", () => {
+  it("uses the turtle's heading convention", () => {
+    const headings = squarePath().map((segment) => Math.round(segmentHeading(segment)));
+    expect(headings).to.deep.equal([0, 90, 180, 270]);
+  });
+
+  it("is 0 for a zero-length segment", () => {
+    expect(segmentHeading({ start: { x: 1, y: 1 }, end: { x: 1, y: 1 }, color: "red" })).to.equal(0);
+  });
+});
+
+describe("buildTimeline", () => {
+  it("schedules segments back to back in drawing order", () => {
+    const timeline = buildTimeline(squarePath(), 4);
+    expect(timeline.map((entry) => [entry.startTime, entry.endTime])).to.deep.equal([
+      [0, 0.25],
+      [0.25, 0.5],
+      [0.5, 0.75],
+      [0.75, 1],
+    ]);
+  });
+
+  it("rejects a non-positive speed", () => {
+    expect(() => buildTimeline([], 0)).to.throw(Error);
+  });
+});
+
+describe("toAnimatedSVG", () => {
+  it("delays each segment by its position in the drawing", () => {
+    const svg = toAnimatedSVG(squarePath(), { segmentsPerSecond: 2 });
+    const delays = (svg.match(/animation-delay: [\d.]+s/g) as string[]).map((d) => d.slice(17));
+    expect(delays).to.deep.equal(["0s", "0.5s", "1s", "1.5s"]);
+    expect(svg).to.contain('<animateMotion dur="2s"');
+    expect(svg).to.contain('values="0;90;180;270;270"');
+  });
+
+  it("has no cursor for an empty drawing", () => {
+    expect(toAnimatedSVG([])).not.to.contain("cursor");
+  });
+});
+
+describe("toAnimatedHTML", () => {
+  it("embeds the segments and controls in a script that parses", () => {
+    const html = toAnimatedHTML(squarePath(), { segmentsPerSecond: 7, autoplay: false });
+    for (const id of ["play", "step", "restart", "speed", "cursor"]) {
+      expect(html).to.contain(`id="${id}"`);
+    }
+    expect(html).to.contain('value="7"');
+    const script = (html.match(/<script>([\s\S]*)<\/script>/) as RegExpMatchArray)[1];
+    expect(() => new Function(script)).not.to.throw();
+    expect(script).to.contain("var playing = false;");
+  });
+
+  it("runs a single animation loop however often play and restart are clicked", () => {
+    const html = toAnimatedHTML(squarePath());
+    const script = (html.match(/<script>([\s\S]*)<\/script>/) as RegExpMatchArray)[1];
+    const listeners = new Map<string, () => void>();
+    const element = (id: string) => ({
+      style: {},
+      textContent: "",
+      setAttribute: () => undefined,
+      appendChild: () => undefined,
+      addEventListener: (_: string, listener: () => void) => listeners.set(id, listener),
+    });
+    const document = { getElementById: element, createElementNS: () => element("line") };
+    const pending = new Map<number, (time: number) => void>();
+    let nextFrame = 1;
+    const requestAnimationFrame = (callback: (time: number) => void) => {
+      pending.set(nextFrame, callback);
+      return nextFrame++;
+    };
+    const cancelAnimationFrame = (frame: number) => pending.delete(frame);
+    new Function("document", "requestAnimationFrame", "cancelAnimationFrame", script)(
+      document,
+      requestAnimationFrame,
+      cancelAnimationFrame
+    );
+    expect(pending.size).to.equal(1);
+    const clicks: Array<[string, number]> = [
+      ["restart", 1],
+      ["restart", 1],
+      ["play", 0],
+      ["play", 1],
+      ["restart", 1],
+    ];
+    for (const [id, loops] of clicks) {
+      listeners.get(id)!();
+      expect(pending.size, `after ${id}`).to.equal(loops);
+    }
+    const [[frame, tick]] = [...pending];
+    pending.delete(frame);
+    tick(0);
+    expect(pending.size).to.equal(1);
+    listeners.get("restart")!();
+    expect(pending.size).to.equal(1);
+  });
+});
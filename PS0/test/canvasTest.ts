@@ -0,0 +1,66 @@
+import { expect } from "chai";
+import { Canvas } from "../src/canvas";
+import { computeBounds } from "../src/analysis";
+import { drawSquare, drawPersonalArt } from "../src/turtlesoup";
+
+describe("Canvas", () => {
+  it("keeps one turtle per named layer", () => {
+    const canvas = new Canvas();
+    const a = canvas.addTurtle("a", { color: "red", start: { x: 5, y: 5 } });
+    a.forward(10);
+    expect(canvas.getTurtle("a")).to.equal(a);
+    expect(canvas.getTurtle("b")).to.equal(undefined);
+    expect(canvas.getPath()).to.deep.equal([{ start: { x: 5, y: 5 }, end: { x: 5, y: -5 }, color: "red" }]);
+    expect(() => canvas.addTurtle("a")).to.throw(Error);
+  });
+
+  it("orders layers by zIndex, then by creation", () => {
+    const canvas = new Canvas();
+    canvas.addTurtle("first");
+    canvas.addTurtle("top", { zIndex: 10 });
+    canvas.addTurtle("bottom", { zIndex: -1 });
+    canvas.addTurtle("last");
+    expect(canvas.layers().map((layer) => layer.name)).to.deep.equal(["bottom", "first", "top", "last"]);
+    canvas.setZIndex("last", 0);
+    expect(canvas.layers().map((layer) => layer.name)).to.deep.equal(["bottom", "first", "last", "top"]);
+  });
+
+  it("applies layer offsets when merging", () => {
+    const canvas = new Canvas();
+    canvas.run("square", (t) => drawSquare(t, 10), { offset: { x: 100, y: 0 } });
+    const bounds = computeBounds(canvas.getPath());
+    expect(bounds).to.deep.include({ minX: 100 });
+    expect(canvas.getTurtle("square")!.getPath()[0].start).to.deep.equal({ x: 0, y: 0 });
+  });
+
+  it("arranges drawings side by side without overlap", () => {
+    const canvas = new Canvas();
+    canvas.run("square", (t) => drawSquare(t, 100));
+    canvas.run("art", (t) => drawPersonalArt(t));
+    canvas.arrangeSideBySide(10);
+    const [square, art] = canvas.getLayerPaths().map((layer) => computeBounds(layer.path)!);
+    expect(square.minX).to.be.closeTo(0, 1e-9);
+    expect(art.minX).to.be.closeTo(square.maxX + 10, 1e-9);
+    expect((square.minY + square.maxY) / 2).to.be.closeTo(0, 1e-9);
+    expect((art.minY + art.maxY) / 2).to.be.closeTo(0, 1e-9);
+  });
+
+  it("exports one group per layer with its stroke width", () => {
+    const canvas = new Canvas();
+    canvas.run("thin", (t) => t.forward(10), { strokeWidth: 1 });
+    canvas.run("thick", (t) => t.forward(20), { strokeWidth: 5 });
+    const svg = canvas.toSVG();
+    expect(svg).to.contain('<g id="thin" fill="none" stroke-width="1"');
+    expect(svg).to.contain('<g id="thick" fill="none" stroke-width="5"');
+    expect(svg.indexOf('id="thin"')).to.be.lessThan(svg.indexOf('id="thick"'));
+    expect(canvas.toPDF()).to.contain("5 w");
+  });
+
+  it("forgets removed layers", () => {
+    const canvas = new Canvas();
+    canvas.run("gone", (t) => t.forward(10));
+    expect(canvas.removeTurtle("gone")).to.equal(true);
+    expect(canvas.removeTurtle("gone")).to.equal(false);
+    expect(canvas.getPath()).to.deep.equal([]);
+  });
+});
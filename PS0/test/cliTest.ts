@@ -0,0 +1,186 @@
+import { expect } from "chai";
+import { Readable } from "stream";
+import { runCli, CliIO, TurtleRepl, formatFor } from "../src/cli";
+
+type MemoryIO = CliIO & {
+  out: string[];
+  err: string[];
+  files: Map<string, string>;
+  opened: string[];
+};
+
+function memoryIO(files: Record<string, string> = {}, input?: string[]): MemoryIO {
+  const io: MemoryIO = {
+    out: [],
+    err: [],
+    files: new Map(Object.keys(files).map((name) => [name, files[name]] as [string, string])),
+    opened: [],
+    stdout: (line) => io.out.push(line),
+    stderr: (line) => io.err.push(line),
+    readFile: (path) => {
+      const content = io.files.get(path);
+      if (content === undefined) {
+        throw new Error(`ENOENT: ${path}`);
+      }
+      return content;
+    },
+    writeFile: (path, content) => {
+      io.files.set(path, content);
+    },
+    openFile: (path) => {
+      io.opened.push(path);
+    },
+    input: input === undefined ? undefined : Readable.from(input.map((line) => line + "\n")),
+  };
+  return io;
+}
+
+describe("runCli", () => {
+  it("runs a built-in drawing to output.html without opening it", async () => {
+    const io = memoryIO();
+    expect(await runCli(["run", "square"], io)).to.equal(0);
+    expect(io.files.get("output.html")).to.contain("<line ");
+    expect(io.opened).to.deep.equal([]);
+  });
+
+  it("opens the output only when asked", async () => {
+    const io = memoryIO();
+    expect(await runCli(["run", "circle", "--out", "c.html", "--open"], io)).to.equal(0);
+    expect(io.opened).to.deep.equal(["c.html"]);
+  });
+
+  it("exports a script file in the format of the output extension", async () => {
+    const io = memoryIO({ "box.tts": "repeat 4 [ fd 10 rt 90 ]" });
+    expect(await runCli(["export", "box.tts", "--out", "box.pdf", "--width", "200"], io)).to.equal(0);
+    expect(io.files.get("box.pdf")!.startsWith("%PDF-1.4")).to.equal(true);
+    expect(io.files.get("box.pdf")).to.contain("/MediaBox [0 0 200 500]");
+  });
+
+  it("keeps fills in every static format and rejects them in animated ones", async () => {
+    const io = memoryIO({ "fill.tts": 'beginfill "red" repeat 4 [ fd 10 rt 90 ] endfill' });
+    const expected: Record<string, string> = {
+      html: '<polygon points="0,0 0,-10 10,-10 10,0 0,0" fill="red"',
+      svg: '<polygon points="0,0 0,-10 10,-10 10,0 0,0" fill="red"',
+      pdf: "1 0 0 rg ",
+    };
+    for (const format of Object.keys(expected)) {
+      expect(await runCli(["export", "fill.tts", "--out", `fill.${format}`], io)).to.equal(0);
+      expect(io.files.get(`fill.${format}`)).to.contain(expected[format]);
+    }
+    for (const format of ["animated-html", "animated-svg"]) {
+      expect(await runCli(["export", "fill.tts", "--out", "fill.out", "--format", format], io)).to.equal(1);
+      expect(io.err[io.err.length - 1]).to.contain("cannot show filled shapes");
+    }
+  });
+
+  it("prints path statistics", async () => {
+    const io = memoryIO();
+    expect(await runCli(["stats", "square"], io)).to.equal(0);
+    expect(io.out).to.include.members(["segments: 4", "length: 800", "closed: yes", "area: 40000"]);
+  });
+
+  it("reports script errors with exit code 1", async () => {
+    const io = memoryIO({ "bad.tts": "fd 10\nwiggle" });
+    expect(await runCli(["run", "bad.tts"], io)).to.equal(1);
+    expect(io.err[0]).to.contain("unknown command 'wiggle' (line 2, column 1)");
+  });
+
+  it("reports bad command lines with usage and exit code 2", async () => {
+    for (const argv of [[], ["draw"], ["export", "square"], ["run", "square", "--colour", "red"]]) {
+      const io = memoryIO();
+      expect(await runCli(argv, io)).to.equal(2);
+      expect(io.err.some((line) => line.startsWith("usage:"))).to.equal(true);
+    }
+  });
+
+  it("runs a REPL session that keeps a live file up to date", async () => {
+    const io = memoryIO({}, ["to sq :s", "repeat 4 [ fd :s rt 90 ]", "end", "sq 50", "fd", ".stats", ".exit", "fd 99"]);
+    expect(await runCli(["repl", "--live", "live.html"], io)).to.equal(0);
+    expect(io.out).to.include("segments: 4");
+    expect(io.files.get("live.html")).to.contain('<meta http-equiv="refresh" content="1">');
+    expect(io.opened).to.deep.equal([]);
+  });
+
+  it("keeps the REPL running when writing the live file fails", async () => {
+    const io = memoryIO({}, ["fd 10", "fd 20", ".stats"]);
+    io.writeFile = () => {
+      throw new Error("EACCES: live.html");
+    };
+    expect(await runCli(["repl", "--live", "live.html"], io)).to.equal(0);
+    expect(io.out.filter((line) => line === "error: EACCES: live.html")).to.have.length(2);
+    expect(io.out).to.include("segments: 0");
+  });
+});
+
+describe("TurtleRepl", () => {
+  it("keeps procedures and variables between lines", () => {
+    const repl = new TurtleRepl();
+    expect(repl.evaluate("make :n 3")).to.deep.equal([]);
+    repl.evaluate("to tri repeat :n [ fd 10 rt 120 ] end");
+    repl.evaluate("tri");
+    expect(repl.getTurtle().getPath()).to.have.length(3);
+  });
+
+  it("waits for unfinished input", () => {
+    const repl = new TurtleRepl();
+    repl.evaluate("repeat 2 [");
+    expect(repl.isContinuing()).to.equal(true);
+    repl.evaluate("fd 5 ]");
+    expect(repl.isContinuing()).to.equal(false);
+    expect(repl.getTurtle().getPath()).to.have.length(2);
+    expect(repl.getScript()).to.equal("repeat 2 [\nfd 5 ]");
+  });
+
+  it("rejects failing lines with positions relative to the line", () => {
+    const changes: number[] = [];
+    const repl = new TurtleRepl((turtle) => changes.push(turtle.getPath().length));
+    repl.evaluate("fd 10");
+    expect(repl.evaluate("fd 10 pop")).to.deep.equal(["error: 'pop' without a matching 'push' (line 1, column 7)"]);
+    expect(repl.getTurtle().getPath()).to.have.length(1);
+    expect(changes).to.deep.equal([1]);
+  });
+
+  it("reports errors in earlier input with their position in the whole script", () => {
+    const repl = new TurtleRepl();
+    repl.evaluate("to sq :n");
+    repl.evaluate("fd :n / 0");
+    repl.evaluate("end");
+    expect(repl.evaluate("sq 5")).to.deep.equal(["error: '/' produced Infinity (in earlier input, line 2, column 7)"]);
+    expect(repl.evaluate("fd 1 / 0")).to.deep.equal(["error: '/' produced Infinity (line 1, column 6)"]);
+  });
+
+  it("reports unexpected errors and keeps going", () => {
+    let failing = true;
+    const repl = new TurtleRepl(() => {
+      if (failing) {
+        throw new Error("disk full");
+      }
+    });
+    expect(repl.evaluate("fd 10")).to.deep.equal(["error: disk full"]);
+    expect(repl.getScript()).to.equal("");
+    expect(repl.getTurtle().getPath()).to.have.length(0);
+    failing = false;
+    expect(repl.evaluate("fd 10")).to.deep.equal([]);
+    expect(repl.getTurtle().getPath()).to.have.length(1);
+  });
+
+  it("undoes and clears", () => {
+    const repl = new TurtleRepl();
+    repl.evaluate("fd 10");
+    repl.evaluate("fd 10");
+    repl.evaluate(".undo");
+    expect(repl.getTurtle().getPath()).to.have.length(1);
+    repl.evaluate(".clear");
+    expect(repl.getTurtle().getPath()).to.have.length(0);
+    expect(repl.evaluate(".undo")).to.deep.equal(["nothing to undo"]);
+  });
+});
+
+describe("formatFor", () => {
+  it("prefers --format and otherwise uses the extension", () => {
+    expect(formatFor("a.SVG")).to.equal("svg");
+    expect(formatFor("a.txt")).to.equal("html");
+    expect(formatFor("a.svg", "animated-svg")).to.equal("animated-svg");
+    expect(() => formatFor("a.svg", "png")).to.throw(Error);
+  });
+});
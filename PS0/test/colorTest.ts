@@ -0,0 +1,52 @@
+import { expect } from "chai";
+import { parseColor, isColor, toHex } from "../src/color";
+
+describe("parseColor", () => {
+  it("reads named colors case-insensitively", () => {
+    expect(parseColor("orange")).to.deep.equal({ r: 255, g: 165, b: 0 });
+    expect(parseColor("Orange")).to.deep.equal({ r: 255, g: 165, b: 0 });
+  });
+
+  it("reads short and long hex colors", () => {
+    expect(parseColor("#f80")).to.deep.equal({ r: 255, g: 136, b: 0 });
+    expect(parseColor("#FF8800")).to.deep.equal({ r: 255, g: 136, b: 0 });
+    expect(parseColor("#ff880")).to.equal(undefined);
+  });
+
+  it("reads rgb() and rejects out-of-range components", () => {
+    expect(parseColor("rgb(1, 2,3)")).to.deep.equal({ r: 1, g: 2, b: 3 });
+    expect(parseColor("rgb(256, 0, 0)")).to.equal(undefined);
+    expect(parseColor("rgb(1, 2)")).to.equal(undefined);
+  });
+
+  it("converts hsl() to rgb", () => {
+    expect(parseColor("hsl(0, 100%, 50%)")).to.deep.equal({ r: 255, g: 0, b: 0 });
+    expect(parseColor("hsl(120, 100%, 25%)")).to.deep.equal({ r: 0, g: 128, b: 0 });
+    expect(parseColor("hsl(-120, 100%, 50%)")).to.deep.equal({ r: 0, g: 0, b: 255 });
+    expect(parseColor("hsl(0, 0%, 100%)")).to.deep.equal({ r: 255, g: 255, b: 255 });
+    expect(parseColor("hsl(0, 101%, 50%)")).to.equal(undefined);
+  });
+
+  it("rejects unknown names", () => {
+    expect(parseColor("chartreuse")).to.equal(undefined);
+  });
+});
+
+describe("isColor", () => {
+  it("accepts only lowercase color names", () => {
+    expect(isColor("red")).to.equal(true);
+    expect(isColor("Red")).to.equal(false);
+  });
+
+  it("accepts well-formed hex, rgb() and hsl() colors", () => {
+    expect(["#abc", "rgb(0, 0, 0)", "hsl(200, 50%, 50%)"].every(isColor)).to.equal(true);
+    expect([" #abc", "#abcd", "rgb(0, 0)", "hsl(0, 50, 50)"].some(isColor)).to.equal(false);
+  });
+});
+
+describe("toHex", () => {
+  it("rounds, clamps and pads components", () => {
+    expect(toHex({ r: 0, g: 127.6, b: 300 })).to.equal("#0080ff");
+    expect(parseColor(toHex({ r: 1, g: 2, b: 3 }))).to.deep.equal({ r: 1, g: 2, b: 3 });
+  });
+});
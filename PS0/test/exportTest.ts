@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import { computeBounds } from "../src/analysis";
+import {
+  fitViewport,
+  transformPoint,
+  toSVG,
+  toHTML,
+  toPDF,
+  layersToSVG,
+  layersToPDF,
+} from "../src/export";
+import { drawSquare, drawPersonalArt } from "../src/turtlesoup";
+import { SimpleTurtle, Fill } from "../src/turtle";
+
+function assertAlmostEqual(
+  actual: number,
+  expected: number,
+  delta: number = 0.001,
+  message?: string
+): void {
+  expect(actual).to.be.closeTo(expected, delta, message);
+}
+
+describe("fitViewport", () => {
+  it("scales the box into the padded viewport and centers it", () => {
+    const viewport = fitViewport({ minX: 0, minY: 0, maxX: 1000, maxY: 500 }, { width: 220, height: 220, padding: 10 });
+    assertAlmostEqual(viewport.scale, 0.2);
+    const topLeft = transformPoint(viewport, { x: 0, y: 0 });
+    const bottomRight = transformPoint(viewport, { x: 1000, y: 500 });
+    expect([topLeft.x, topLeft.y, bottomRight.x, bottomRight.y]).to.deep.equal([10, 60, 210, 160]);
+  });
+
+  it("keeps scale 1 for a single point", () => {
+    const viewport = fitViewport({ minX: 4, minY: 4, maxX: 4, maxY: 4 }, { width: 100, height: 100 });
+    expect(viewport.scale).to.equal(1);
+    expect(transformPoint(viewport, { x: 4, y: 4 })).to.deep.equal({ x: 50, y: 50 });
+  });
+
+  it("scales a horizontal line by its width only", () => {
+    const viewport = fitViewport({ minX: 0, minY: 3, maxX: 50, maxY: 3 }, { width: 120, height: 60, padding: 10 });
+    expect(viewport.scale).to.equal(2);
+  });
+
+  it("rejects padding that leaves no room to draw", () => {
+    const box = { minX: 0, minY: 0, maxX: 10, maxY: 10 };
+    expect(() => fitViewport(box, { width: 100, height: 100, padding: 50 })).to.throw(/padding 50 leaves no room/);
+    expect(() => fitViewport(box, { width: 100, height: 300, padding: 80 })).to.throw(/100x300 viewport/);
+    const line = { minX: 0, minY: 3, maxX: 50, maxY: 3 };
+    expect(fitViewport(line, { width: 200, height: 60, padding: 40 }).scale).to.equal(2.4);
+    expect(fitViewport(undefined, { width: 100, height: 100, padding: 60 }).scale).to.equal(1);
+  });
+});
+
+describe("toSVG", () => {
+  it("writes one line per segment and fits the drawing through the viewBox", () => {
+    const turtle = new SimpleTurtle();
+    drawSquare(turtle, 100);
+    const svg = toSVG(turtle.getPath(), { width: 300, height: 300, padding: 50, background: "white", strokeWidth: 3 });
+    expect(svg.match(/<line /g)).to.have.length(4);
+    expect(svg).to.contain('viewBox="-25 -125 150 150"');
+    expect(svg).to.contain('fill="white"');
+    expect(svg).to.contain('stroke-width="3"');
+  });
+
+  it("does not clip drawings far from the origin", () => {
+    const turtle = new SimpleTurtle();
+    drawPersonalArt(turtle);
+    const bounds = computeBounds(turtle.getPath());
+    const viewport = fitViewport(bounds, {});
+    for (const segment of turtle.getPath()) {
+      for (const p of [segment.start, segment.end]) {
+        const q = transformPoint(viewport, p);
+        expect(q.x).to.be.within(0, 500);
+        expect(q.y).to.be.within(0, 500);
+      }
+    }
+  });
+
+  it("paints fills beneath lines and writes per-segment widths", () => {
+    const turtle = new SimpleTurtle();
+    turtle.beginFill("hsl(120, 100%, 25%)");
+    turtle.strokeWidth(5);
+    drawSquare(turtle, 10);
+    turtle.endFill();
+    const svg = layersToSVG([{ path: turtle.getPath(), fills: turtle.getFills() }]);
+    expect(svg).to.contain('<polygon points="0,0 0,-10 10,-10 10,0 0,0" fill="hsl(120, 100%, 25%)" stroke="none"/>');
+    expect(svg.indexOf("<polygon")).to.be.lessThan(svg.indexOf("<line"));
+    expect(svg.match(/<line [^>]*stroke-width="5"/g)).to.have.length(4);
+  });
+
+  it("fits the viewport around fills as well as lines", () => {
+    const fills: Fill[] = [{ points: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 0, y: 100 }], color: "red" }];
+    expect(layersToSVG([{ path: [], fills }], { width: 100, height: 100, padding: 0 })).to.contain(
+      'viewBox="0 0 100 100"'
+    );
+  });
+
+  it("omits the background when it is none", () => {
+    expect(toSVG([], { background: "none" })).not.to.contain("<rect");
+  });
+});
+
+describe("toHTML", () => {
+  it("embeds the SVG and escapes the title", () => {
+    const html = toHTML([], { title: "a < b" });
+    expect(html).to.contain("<title>a &lt; b</title>");
+    expect(html).to.contain("<svg ");
+  });
+});
+
+describe("toPDF", () => {
+  it("produces a PDF with a valid cross-reference table", () => {
+    const turtle = new SimpleTurtle();
+    turtle.color("red");
+    drawSquare(turtle, 10);
+    const pdf = toPDF(turtle.getPath(), { width: 200, height: 100 });
+    expect(pdf.startsWith("%PDF-1.4\n")).to.equal(true);
+    expect(pdf).to.contain("/MediaBox [0 0 200 100]");
+    expect(pdf.match(/1 0 0 RG/g)).to.have.length(4);
+
+    const xrefOffset = Number((pdf.match(/startxref\n(\d+)/) as RegExpMatchArray)[1]);
+    expect(pdf.slice(xrefOffset).startsWith("xref")).to.equal(true);
+    const entries = pdf.slice(xrefOffset).split("\n").slice(3, 8);
+    entries.forEach((entry, i) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).to.equal(true);
+    });
+  });
+
+  it("fills polygons and changes line width only when it changes", () => {
+    const turtle = new SimpleTurtle();
+    turtle.color("#0000ff");
+    turtle.beginFill();
+    drawSquare(turtle, 10);
+    turtle.endFill();
+    turtle.strokeWidth(4);
+    turtle.forward(5);
+    turtle.forward(5);
+    const pdf = layersToPDF([{ path: turtle.getPath(), fills: turtle.getFills() }]);
+    expect(pdf.match(/0 0 1 rg .* h f/g)).to.have.length(1);
+    expect(pdf.match(/ w\n/g)).to.have.length(2);
+    expect(pdf).to.contain("\n4 w\n");
+  });
+
+  it("declares the exact content stream length", () => {
+    const pdf = toPDF([{ start: { x: 0, y: 0 }, end: { x: 1, y: 1 }, color: "black" }]);
+    const match = pdf.match(/\/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/) as RegExpMatchArray;
+    expect(match[2].length).to.equal(Number(match[1]));
+  });
+});
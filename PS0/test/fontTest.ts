@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { drawText, measureText, getGlyph, kerningBetween } from "../src/font";
+import { computeBounds } from "../src/analysis";
+import { SimpleTurtle } from "../src/turtle";
+
+function assertAlmostEqual(
+  actual: number,
+  expected: number,
+  delta: number = 0.001,
+  message?: string
+): void {
+  expect(actual).to.be.closeTo(expected, delta, message);
+}
+
+describe("getGlyph", () => {
+  it("covers printable ASCII within the font grid", () => {
+    for (let code = 0x21; code <= 0x7e; code++) {
+      const char = String.fromCharCode(code);
+      const glyph = getGlyph(char);
+      expect(glyph.strokes.length, char).to.be.greaterThan(0);
+      for (const stroke of glyph.strokes) {
+        expect(stroke.length, char).to.be.at.least(2);
+        for (const p of stroke) {
+          expect(p.x, char).to.be.within(0, glyph.advance);
+          expect(p.y, char).to.be.within(0, 8);
+        }
+      }
+    }
+    expect(getGlyph(" ").strokes).to.deep.equal([]);
+  });
+
+  it("draws uncovered characters as a question mark", () => {
+    expect(getGlyph("é")).to.equal(getGlyph("?"));
+  });
+});
+
+describe("measureText", () => {
+  it("adds glyph advances without trailing spacing", () => {
+    const metrics = measureText("HI", 6);
+    expect(metrics.lines).to.deep.equal(["HI"]);
+    assertAlmostEqual(metrics.width, 9);
+    assertAlmostEqual(metrics.height, 6);
+  });
+
+  it("tightens kerned pairs", () => {
+    expect(kerningBetween("A", "V")).to.be.lessThan(0);
+    assertAlmostEqual(measureText("AV", 12, { kerning: false }).width - measureText("AV", 12).width, 2);
+  });
+
+  it("wraps at spaces, and inside words only when needed", () => {
+    expect(measureText("HI HI HI", 6, { maxWidth: 24 }).lines).to.deep.equal(["HI HI", "HI"]);
+    expect(measureText("HHHH", 6, { maxWidth: 12 }).lines).to.deep.equal(["HH", "HH"]);
+    const metrics = measureText("a\nb", 10, { lineHeight: 2 });
+    expect(metrics.lines).to.deep.equal(["a", "b"]);
+    assertAlmostEqual(metrics.height, 30);
+  });
+
+  it("rejects non-positive sizes and widths", () => {
+    expect(() => measureText("x", 0)).to.throw(Error);
+    expect(() => measureText("x", 1, { maxWidth: -1 })).to.throw(Error);
+  });
+});
+
+describe("drawText", () => {
+  it("draws glyph strokes with the baseline at the turtle's position", () => {
+    const turtle = new SimpleTurtle(10, 20);
+    turtle.color("red");
+    drawText(turtle, "H", 12);
+    const path = turtle.getPath();
+    expect(path).to.have.length(3);
+    expect(path[0]).to.deep.equal({ start: { x: 10, y: 8 }, end: { x: 10, y: 20 }, color: "red" });
+    expect(computeBounds(path)).to.deep.equal({ minX: 10, minY: 8, maxX: 18, maxY: 20 });
+  });
+
+  it("leaves the turtle where it was", () => {
+    const turtle = new SimpleTurtle();
+    turtle.turn(30);
+    turtle.penUp();
+    drawText(turtle, "Hello, world!", 5);
+    expect(turtle.getPosition()).to.deep.equal({ x: 0, y: 0 });
+    expect(turtle.getHeading()).to.equal(30);
+    expect(turtle.isPenDown()).to.equal(false);
+  });
+
+  it("aligns lines relative to the start position", () => {
+    for (const [align, minX, maxX] of [
+      ["center", -4.5, 4.5],
+      ["right", -9, 0],
+    ] as const) {
+      const turtle = new SimpleTurtle();
+      drawText(turtle, "HI\nHI", 6, { align });
+      const bounds = computeBounds(turtle.getPath())!;
+      assertAlmostEqual(bounds.minX, minX, 0.001, align);
+      assertAlmostEqual(bounds.maxX, maxX, 0.001, align);
+    }
+  });
+
+  it("can run along the turtle's heading", () => {
+    const turtle = new SimpleTurtle();
+    drawText(turtle, "H", 6, { followHeading: true });
+    const bounds = computeBounds(turtle.getPath())!;
+    assertAlmostEqual(bounds.minX, -6);
+    assertAlmostEqual(bounds.maxX, 0);
+    assertAlmostEqual(bounds.minY, -4);
+    assertAlmostEqual(bounds.maxY, 0);
+  });
+});
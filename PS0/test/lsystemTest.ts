@@ -0,0 +1,151 @@
+import { expect } from "chai";
+import {
+  LSystem,
+  expand,
+  drawSymbols,
+  renderLSystem,
+  seededRandom,
+  KOCH_CURVE,
+  SIERPINSKI_TRIANGLE,
+  DRAGON_CURVE,
+  FRACTAL_PLANT,
+} from "../src/lsystem";
+import { SimpleTurtle } from "../src/turtle";
+
+function assertAlmostEqual(
+  actual: number,
+  expected: number,
+  delta: number = 0.001,
+  message?: string
+): void {
+  expect(actual).to.be.closeTo(expected, delta, message);
+}
+
+const ALGAE: LSystem = {
+  axiom: "A",
+  rules: [
+    { predecessor: "A", successor: "AB" },
+    { predecessor: "B", successor: "A" },
+  ],
+  actions: {},
+};
+
+describe("expand", () => {
+  it("returns the axiom for zero iterations", () => {
+    expect(expand(ALGAE, 0)).to.equal("A");
+  });
+
+  it("rewrites all symbols in parallel", () => {
+    expect(expand(ALGAE, 4)).to.equal("ABAABABA");
+  });
+
+  it("leaves symbols without rules unchanged", () => {
+    expect(expand({ axiom: "A+B", rules: [{ predecessor: "A", successor: "AA" }], actions: {} }, 2)).to.equal("AAAA+B");
+  });
+
+  it("picks stochastic rules reproducibly with a seeded generator", () => {
+    const system: LSystem = {
+      axiom: "XXXXXXXXXXXXXXXXXXXX",
+      rules: [
+        { predecessor: "X", successor: "a", probability: 0.5 },
+        { predecessor: "X", successor: "b", probability: 0.5 },
+      ],
+      actions: {},
+    };
+    const first = expand(system, 1, { random: seededRandom(42) });
+    expect(first).to.equal(expand(system, 1, { random: seededRandom(42) }));
+    expect(first).to.match(/a/);
+    expect(first).to.match(/b/);
+  });
+
+  it("honors weights", () => {
+    const system: LSystem = {
+      axiom: "X",
+      rules: [
+        { predecessor: "X", successor: "a", probability: 0 },
+        { predecessor: "X", successor: "b", probability: 1 },
+      ],
+      actions: {},
+    };
+    expect(expand(system, 1, { random: () => 0 })).to.equal("b");
+  });
+
+  it("applies context-sensitive rules in preference to context-free ones", () => {
+    // A signal b travels right through a string of a's
+    const system: LSystem = {
+      axiom: "baaaa",
+      rules: [
+        { predecessor: "b", successor: "a" },
+        { predecessor: "a", successor: "b", leftContext: "b" },
+      ],
+      actions: {},
+    };
+    expect(expand(system, 1)).to.equal("abaaa");
+    expect(expand(system, 3)).to.equal("aaaba");
+  });
+
+  it("skips ignored symbols and branches when matching context", () => {
+    const system: LSystem = {
+      axiom: "a+[cc]b",
+      rules: [{ predecessor: "b", successor: "X", leftContext: "a" }],
+      actions: {},
+      ignore: "+",
+    };
+    expect(expand(system, 1)).to.equal("a+[cc]X");
+  });
+
+  it("refuses to grow past the size limit", () => {
+    expect(() => expand(ALGAE, 30, { maxLength: 1000 })).to.throw(Error);
+  });
+});
+
+describe("drawSymbols", () => {
+  it("moves without drawing and restores pushed state", () => {
+    const turtle = new SimpleTurtle();
+    drawSymbols("f[+F]F", {
+      f: { kind: "move", distance: 10 },
+      F: { kind: "forward", distance: 10 },
+      "+": { kind: "turn", degrees: 90 },
+      "[": { kind: "push" },
+      "]": { kind: "pop" },
+    }, turtle, 2);
+    const path = turtle.getPath();
+    expect(path).to.have.length(2);
+    assertAlmostEqual(path[0].start.y, -20);
+    assertAlmostEqual(path[0].end.x, 20);
+    assertAlmostEqual(path[1].end.y, -40);
+    expect(turtle.isPenDown()).to.equal(true);
+  });
+});
+
+describe("presets", () => {
+  it("Koch curve has 4^n segments and spans 3^n edge lengths", () => {
+    const turtle = new SimpleTurtle();
+    renderLSystem(KOCH_CURVE, turtle, { iterations: 3 });
+    expect(turtle.getPath()).to.have.length(64);
+    assertAlmostEqual(turtle.getPosition().x, 27 * 5);
+    assertAlmostEqual(turtle.getPosition().y, 0);
+  });
+
+  it("Sierpinski triangle has 3^(n+1) segments and closes", () => {
+    const turtle = new SimpleTurtle();
+    renderLSystem(SIERPINSKI_TRIANGLE, turtle, { iterations: 2 });
+    expect(turtle.getPath()).to.have.length(27);
+    assertAlmostEqual(turtle.getPosition().x, 0);
+    assertAlmostEqual(turtle.getPosition().y, 0);
+  });
+
+  it("dragon curve has 2^n segments", () => {
+    const turtle = new SimpleTurtle();
+    renderLSystem(DRAGON_CURVE, turtle, { iterations: 6 });
+    expect(turtle.getPath()).to.have.length(64);
+  });
+
+  it("fractal plant draws every branch in green", () => {
+    const turtle = new SimpleTurtle();
+    const symbols = renderLSystem(FRACTAL_PLANT, turtle, { iterations: 3 });
+    expect(symbols.startsWith("c")).to.equal(true);
+    expect(turtle.getPath().length).to.be.greaterThan(0);
+    expect(turtle.getPath().every((segment) => segment.color === "green")).to.equal(true);
+  });
+});
@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import { optimizePath } from "../src/optimizer";
+import { splitStrokes, travelDistance, pathLength } from "../src/analysis";
+import { drawApproximateCircle } from "../src/turtlesoup";
+import { SimpleTurtle, PathSegment } from "../src/turtle";
+
+function assertAlmostEqual(
+  actual: number,
+  expected: number,
+  delta: number = 0.001,
+  message?: string
+): void {
+  expect(actual).to.be.closeTo(expected, delta, message);
+}
+
+function segment(x1: number, y1: number, x2: number, y2: number, color: PathSegment["color"] = "black"): PathSegment {
+  return { start: { x: x1, y: y1 }, end: { x: x2, y: y2 }, color };
+}
+
+function distanceToSegment(p: PathSegment["start"], s: PathSegment): number {
+  const dx = s.end.x - s.start.x;
+  const dy = s.end.y - s.start.y;
+  const t = Math.max(0, Math.min(1, ((p.x - s.start.x) * dx + (p.y - s.start.y) * dy) / (dx * dx + dy * dy)));
+  return Math.hypot(p.x - (s.start.x + t * dx), p.y - (s.start.y + t * dy));
+}
+
+/** Largest distance from a point of one path (its vertices and midpoints) to the other path. */
+function maxDeviation(from: PathSegment[], to: PathSegment[]): number {
+  const points = from.flatMap((s) => [s.start, s.end, { x: (s.start.x + s.end.x) / 2, y: (s.start.y + s.end.y) / 2 }]);
+  return Math.max(...points.map((p) => Math.min(...to.map((s) => distanceToSegment(p, s)))));
+}
+
+describe("splitStrokes", () => {
+  it("starts a new stroke wherever the path jumps", () => {
+    const path = [segment(0, 0, 1, 0), segment(1, 0, 2, 0), segment(5, 5, 6, 5)];
+    expect(splitStrokes(path).map((stroke) => stroke.length)).to.deep.equal([2, 1]);
+  });
+});
+
+describe("travelDistance", () => {
+  it("sums the gaps between consecutive segments", () => {
+    expect(travelDistance([segment(0, 0, 1, 0), segment(4, 4, 5, 5), segment(5, 5, 6, 6)])).to.equal(5);
+  });
+});
+
+describe("optimizePath", () => {
+  it("merges a line drawn in many steps into one segment", () => {
+    const turtle = new SimpleTurtle();
+    turtle.turn(30);
+    for (let i = 0; i < 10; i++) {
+      turtle.forward(3);
+    }
+    const { path, report } = optimizePath(turtle.getPath());
+    expect(path).to.have.length(1);
+    expect(report.segmentsBefore).to.equal(10);
+    expect(report.segmentsAfter).to.equal(1);
+    expect(report.mergedCollinear).to.equal(9);
+    assertAlmostEqual(pathLength(path), 30);
+  });
+
+  it("does not merge across a color change or a reversal", () => {
+    const path = [segment(0, 0, 1, 0, "red"), segment(1, 0, 2, 0, "blue"), segment(2, 0, 1.5, 0, "blue")];
+    expect(optimizePath(path).path).to.have.length(3);
+  });
+
+  it("keeps a circle's sides", () => {
+    const turtle = new SimpleTurtle();
+    drawApproximateCircle(turtle, 50, 360);
+    const { report } = optimizePath(turtle.getPath());
+    expect(report.segmentsAfter).to.equal(360);
+  });
+
+  it("keeps a gently curving path within the tolerance", () => {
+    const turtle = new SimpleTurtle();
+    drawApproximateCircle(turtle, 100, 360);
+    const path = turtle.getPath();
+    for (const tolerance of [0.1, 1, 5]) {
+      const optimized = optimizePath(path, { tolerance }).path;
+      expect(optimized.length).to.be.lessThan(path.length);
+      expect(maxDeviation(optimized, path)).to.be.at.most(tolerance);
+      expect(maxDeviation(path, optimized)).to.be.at.most(tolerance);
+    }
+  });
+
+  it("removes zero-length segments and duplicates drawn in either direction", () => {
+    const path = [segment(0, 0, 0, 0), segment(0, 0, 4, 0), segment(4, 0, 4, 3), segment(4, 0, 0, 0)];
+    const { path: optimized, report } = optimizePath(path);
+    expect(optimized).to.deep.equal([segment(0, 0, 4, 0), segment(4, 0, 4, 3)]);
+    expect(report.removedZeroLength).to.equal(1);
+    expect(report.removedDuplicates).to.equal(1);
+  });
+
+  it("keeps duplicates of a different color", () => {
+    expect(optimizePath([segment(0, 0, 1, 1, "red"), segment(0, 0, 1, 1, "blue")]).path).to.have.length(2);
+  });
+
+  it("does not merge or deduplicate segments of different widths", () => {
+    const wide = { ...segment(1, 0, 2, 0), width: 8 };
+    expect(optimizePath([segment(0, 0, 1, 0), wide]).path).to.deep.equal([segment(0, 0, 1, 0), wide]);
+    const { path, report } = optimizePath([segment(1, 0, 2, 0), wide, { ...wide }]);
+    expect(path).to.deep.equal([segment(1, 0, 2, 0), wide]);
+    expect(report.removedDuplicates).to.equal(1);
+  });
+
+  it("snaps nearly equal coordinates so collinear runs merge", () => {
+    const path = [segment(0, 0, 1, 0), segment(1 + 1e-9, 1e-10, 2, 0)];
+    const { path: optimized } = optimizePath(path);
+    expect(optimized).to.deep.equal([segment(0, 0, 2, 0)]);
+  });
+
+  it("can be told to keep everything", () => {
+    const path = [segment(0, 0, 1, 0), segment(1, 0, 2, 0), segment(0, 0, 1, 0)];
+    const { path: optimized } = optimizePath(path, { mergeCollinear: false, removeDuplicates: false });
+    expect(optimized).to.have.length(3);
+  });
+
+  it("reorders and reverses strokes to shorten travel", () => {
+    const path = [segment(0, 0, 1, 0), segment(10, 0, 11, 0), segment(3, 0, 2, 0)];
+    const { path: optimized, report } = optimizePath(path, { reorder: true });
+    expect(optimized).to.deep.equal([segment(0, 0, 1, 0), segment(2, 0, 3, 0), segment(10, 0, 11, 0)]);
+    expect(report.travelBefore).to.equal(9 + 8);
+    expect(report.travelAfter).to.equal(1 + 7);
+  });
+
+  it("does not modify its input", () => {
+    const path = [segment(0, 0, 1, 0), segment(1, 0, 2, 0)];
+    optimizePath(path, { reorder: true });
+    expect(path).to.deep.equal([segment(0, 0, 1, 0), segment(1, 0, 2, 0)]);
+  });
+});
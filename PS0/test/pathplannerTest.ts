@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import {
+  headingBetween,
+  shortestTurn,
+  orderPoints,
+  planPath,
+  executePath,
+  formatInstructions,
+} from "../src/pathplanner";
+import { SimpleTurtle, Point } from "../src/turtle";
+
+function assertAlmostEqual(
+  actual: number,
+  expected: number,
+  delta: number = 0.001,
+  message?: string
+): void {
+  expect(actual).to.be.closeTo(expected, delta, message);
+}
+
+function tourLength(start: Point, points: Point[]): number {
+  let total = 0;
+  let current = start;
+  for (const p of points) {
+    total += Math.hypot(p.x - current.x, p.y - current.y);
+    current = p;
+  }
+  return total;
+}
+
+describe("headingBetween", () => {
+  it("uses 0 for up and grows clockwise", () => {
+    const origin = { x: 0, y: 0 };
+    expect(headingBetween(origin, { x: 0, y: -1 })).to.equal(0);
+    expect(headingBetween(origin, { x: 1, y: 0 })).to.equal(90);
+    expect(headingBetween(origin, { x: 0, y: 1 })).to.equal(180);
+    expect(headingBetween(origin, { x: -1, y: 0 })).to.equal(270);
+  });
+});
+
+describe("shortestTurn", () => {
+  it("chooses the direction with the smaller angle", () => {
+    expect(shortestTurn(350, 10)).to.equal(20);
+    expect(shortestTurn(10, 350)).to.equal(-20);
+    expect(shortestTurn(0, 180)).to.equal(180);
+    expect(shortestTurn(90, 90)).to.equal(0);
+  });
+});
+
+describe("orderPoints", () => {
+  const start = { x: 0, y: 0 };
+  const points: Point[] = [
+    { x: 10, y: 0 },
+    { x: 1, y: 0 },
+    { x: 5, y: 0 },
+  ];
+
+  it("keeps the given order", () => {
+    expect(orderPoints(start, points, "given")).to.deep.equal(points);
+  });
+
+  it("visits the nearest point next", () => {
+    expect(orderPoints(start, points, "nearest-neighbor").map((p) => p.x)).to.deep.equal([1, 5, 10]);
+  });
+
+  it("two-opt is never longer than nearest-neighbor", () => {
+    const grid: Point[] = [];
+    for (let i = 0; i < 12; i++) {
+      grid.push({ x: (i * 37) % 11, y: (i * 53) % 7 });
+    }
+    const nearest = orderPoints(start, grid, "nearest-neighbor");
+    const improved = orderPoints(start, grid, "two-opt");
+    expect(improved).to.have.members(grid);
+    expect(tourLength(start, improved)).to.be.at.most(tourLength(start, nearest) + 1e-9);
+  });
+});
+
+describe("planPath", () => {
+  it("skips points the turtle is already at", () => {
+    expect(planPath({ x: 0, y: 0 }, 0, [{ x: 0, y: 0 }])).to.deep.equal([]);
+  });
+
+  it("drives a turtle through an optimized tour", () => {
+    const turtle = new SimpleTurtle();
+    const points: Point[] = [
+      { x: 30, y: 0 },
+      { x: 10, y: 0 },
+      { x: 20, y: 0 },
+    ];
+    const plan = planPath(turtle.getPosition(), turtle.getHeading(), points, { order: "two-opt" });
+    executePath(turtle, plan);
+    expect(plan.filter((instruction) => instruction.kind === "turn")).to.have.length(1);
+    assertAlmostEqual(turtle.getPosition().x, 30);
+    assertAlmostEqual(turtle.getPosition().y, 0);
+  });
+});
+
+describe("formatInstructions", () => {
+  it("writes one TurtleScript command per instruction", () => {
+    expect(
+      formatInstructions([
+        { kind: "turn", degrees: -45 },
+        { kind: "forward", units: 2.5 },
+      ])
+    ).to.deep.equal(["turn -45", "forward 2.5"]);
+  });
+});
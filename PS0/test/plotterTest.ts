@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import { planPlot, estimatePlot, dryRun, toGCode, toHPGL } from "../src/plotter";
+import { SimpleTurtle, PathSegment } from "../src/turtle";
+import { drawSquare } from "../src/turtlesoup";
+
+function assertAlmostEqual(
+  actual: number,
+  expected: number,
+  delta: number = 0.001,
+  message?: string
+): void {
+  expect(actual).to.be.closeTo(expected, delta, message);
+}
+
+// A 100-unit square in black, then a separate 100-unit line in red, then another black line
+function twoColorDrawing(): PathSegment[] {
+  const turtle = new SimpleTurtle();
+  drawSquare(turtle, 100);
+  turtle.penUp();
+  turtle.goTo({ x: 0, y: 50 });
+  turtle.penDown();
+  turtle.color("red");
+  turtle.forward(100);
+  turtle.penUp();
+  turtle.goTo({ x: 50, y: -50 });
+  turtle.penDown();
+  turtle.color("black");
+  turtle.turn(-90);
+  turtle.forward(10);
+  return turtle.getPath();
+}
+
+describe("planPlot", () => {
+  it("fits the drawing inside the margins, centered and flipped", () => {
+    const turtle = new SimpleTurtle();
+    drawSquare(turtle, 100);
+    const plan = planPlot(turtle.getPath(), { paper: { width: 200, height: 100 }, margin: 10 });
+    assertAlmostEqual(plan.scale, 0.8);
+    expect(plan.strokes).to.have.length(1);
+    // The turtle starts at the bottom left of the square and moves up, i.e. toward larger plotter y
+    const points = plan.strokes[0].points.map((p) => [Math.round(p.x * 1000) / 1000, Math.round(p.y * 1000) / 1000]);
+    expect(points).to.deep.equal([
+      [60, 10],
+      [60, 90],
+      [140, 90],
+      [140, 10],
+      [60, 10],
+    ]);
+  });
+
+  it("uses a fixed scale when given, and rejects drawings that do not fit", () => {
+    const turtle = new SimpleTurtle();
+    drawSquare(turtle, 100);
+    expect(planPlot(turtle.getPath(), { millimetersPerUnit: 0.5 }).scale).to.equal(0.5);
+    expect(() => planPlot(turtle.getPath(), { millimetersPerUnit: 2 })).to.throw(/larger than/);
+    expect(planPlot(turtle.getPath(), { millimetersPerUnit: 2, paper: "A3", landscape: true }).paper).to.deep.equal({
+      width: 420,
+      height: 297,
+    });
+  });
+
+  it("groups strokes by pen and lifts the pen only between disconnected segments", () => {
+    const plan = planPlot(twoColorDrawing());
+    expect(plan.pens).to.deep.equal(["black", "red"]);
+    expect(plan.strokes.map((s) => [s.pen, s.points.length])).to.deep.equal([
+      [1, 5],
+      [1, 2],
+      [2, 2],
+    ]);
+  });
+
+  it("uses the given pen slots, matching colors however they are spelled", () => {
+    const plan = planPlot(twoColorDrawing(), { pens: ["#ff0000", "blue", "#000"] });
+    expect(plan.strokes.map((s) => s.pen)).to.deep.equal([1, 3, 3]);
+    expect(() => planPlot(twoColorDrawing(), { pens: ["black"] })).to.throw(/no pen holds color 'red'/);
+  });
+});
+
+describe("estimatePlot and dryRun", () => {
+  it("adds up distances, pen movements and time", () => {
+    const turtle = new SimpleTurtle();
+    drawSquare(turtle, 100);
+    const options = {
+      paper: { width: 120, height: 120 },
+      margin: 10,
+      drawSpeed: 20,
+      travelSpeed: 10,
+      penLiftSeconds: 1,
+      penChangeSeconds: 5,
+    };
+    const estimate = estimatePlot(turtle.getPath(), options);
+    assertAlmostEqual(estimate.drawDistance, 400);
+    assertAlmostEqual(estimate.travelDistance, 2 * Math.hypot(10, 10));
+    expect(estimate.penLifts).to.equal(1);
+    expect(estimate.penChanges).to.equal(1);
+    assertAlmostEqual(estimate.seconds, 400 / 20 + estimate.travelDistance / 10 + 2 + 5);
+    expect(dryRun(turtle.getPath(), options)).to.include.members([
+      "scale: 1 mm per unit",
+      "pens: 1=black",
+      "estimated time: 30s",
+    ]);
+  });
+
+  it("counts a pen change per pen used", () => {
+    expect(estimatePlot(twoColorDrawing()).penChanges).to.equal(2);
+    expect(estimatePlot([]).seconds).to.equal(0);
+  });
+});
+
+describe("toGCode", () => {
+  it("writes millimeter moves with pen-up travel and pen changes", () => {
+    const gcode = toGCode(twoColorDrawing(), { penUpCommand: "M3 S30", penDownCommand: "M3 S90" }).split("\n");
+    expect(gcode.slice(0, 3)).to.deep.equal(["G21 ; millimeters", "G90 ; absolute coordinates", "M3 S30"]);
+    expect(gcode.filter((line) => line.startsWith("M0"))).to.deep.equal([
+      "M0 ; load pen 1 (black)",
+      "M0 ; load pen 2 (red)",
+    ]);
+    expect(gcode.filter((line) => line === "M3 S90")).to.have.length(3);
+    expect(gcode.filter((line) => line.startsWith("G1"))).to.have.length(6);
+    expect(gcode.find((line) => line.startsWith("G1"))).to.match(/ F1500$/);
+    expect(gcode[gcode.length - 2]).to.equal("G0 X0 Y0");
+  });
+});
+
+describe("toHPGL", () => {
+  it("writes plotter units with one PD per stroke", () => {
+    const turtle = new SimpleTurtle();
+    drawSquare(turtle, 100);
+    const hpgl = toHPGL(turtle.getPath(), { paper: { width: 120, height: 120 }, margin: 10 }).split("\n");
+    expect(hpgl).to.deep.equal([
+      "IN;",
+      "SP1;",
+      "VS2.5;",
+      "PU400,400;",
+      "PD400,4400,4400,4400,4400,400,400,400;",
+      "PU0,0;",
+      "SP0;",
+      "",
+    ]);
+  });
+});
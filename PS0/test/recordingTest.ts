@@ -0,0 +1,117 @@
+import { expect } from "chai";
+import { RecordingTurtle, replay, parseCommands, diffCommands } from "../src/recording";
+import { drawSquare } from "../src/turtlesoup";
+import { SimpleTurtle } from "../src/turtle";
+
+describe("RecordingTurtle", () => {
+  it("records drawing calls and draws like a SimpleTurtle", () => {
+    const recording = new RecordingTurtle();
+    const plain = new SimpleTurtle();
+    for (const turtle of [recording, plain]) {
+      turtle.color("red");
+      drawSquare(turtle, 10);
+      turtle.penUp();
+      turtle.goTo({ x: 3, y: 4 });
+    }
+    expect(recording.getPath()).to.deep.equal(plain.getPath());
+    expect(recording.getPosition()).to.deep.equal({ x: 3, y: 4 });
+    expect(recording.history()).to.have.length(11);
+    expect(recording.history()[0]).to.deep.equal({ kind: "color", color: "red" });
+  });
+
+  it("undoes and redoes commands", () => {
+    const recording = new RecordingTurtle();
+    recording.forward(10);
+    recording.turn(90);
+    recording.forward(5);
+    expect(recording.undo(2)).to.equal(2);
+    expect(recording.getPath()).to.have.length(1);
+    expect(recording.getHeading()).to.equal(0);
+    expect(recording.redo()).to.equal(1);
+    expect(recording.getHeading()).to.equal(90);
+    expect(recording.canRedo()).to.equal(true);
+    recording.turn(90);
+    expect(recording.canRedo()).to.equal(false);
+    expect(recording.undo(10)).to.equal(3);
+    expect(recording.canUndo()).to.equal(false);
+    expect(recording.getPath()).to.deep.equal([]);
+  });
+
+  it("rebuilds from its factory when rewinding", () => {
+    const recording = new RecordingTurtle(() => new SimpleTurtle(100, 100));
+    recording.forward(10);
+    recording.undo();
+    expect(recording.getPosition()).to.deep.equal({ x: 100, y: 100 });
+  });
+
+  it("does not record commands the turtle rejects", () => {
+    const recording = new RecordingTurtle();
+    expect(() => recording.popState()).to.throw(Error);
+    expect(recording.history()).to.deep.equal([]);
+  });
+
+  it("returns to checkpoints and forgets those in discarded history", () => {
+    const recording = new RecordingTurtle();
+    recording.forward(1);
+    recording.checkpoint("one");
+    recording.forward(1);
+    recording.checkpoint("two");
+    recording.restore("one");
+    expect(recording.getPosition()).to.deep.equal({ x: 0, y: -1 });
+    recording.restore("two");
+    expect(recording.getPosition()).to.deep.equal({ x: 0, y: -2 });
+    recording.restore("one");
+    recording.turn(90);
+    expect(recording.checkpoints()).to.deep.equal(["one"]);
+    expect(() => recording.restore("two")).to.throw(Error);
+  });
+
+  it("round-trips through JSON", () => {
+    const recording = new RecordingTurtle();
+    recording.strokeWidth(3);
+    recording.beginFill("#ff0000");
+    drawSquare(recording, 20);
+    recording.endFill();
+    recording.forward(5);
+    recording.undo();
+    const copy = RecordingTurtle.fromJSON(recording.toJSON());
+    expect(copy.history()).to.deep.equal(recording.history());
+    expect(copy.getPath()).to.deep.equal(recording.getPath());
+    expect(copy.getFills()).to.deep.equal(recording.getFills());
+  });
+
+  it("rejects malformed recordings", () => {
+    expect(() => parseCommands('{"version":2,"commands":[]}')).to.throw(Error);
+    expect(() => parseCommands('{"version":1,"commands":[{"kind":"forward"}]}')).to.throw(/command 0/);
+    expect(() => parseCommands('{"version":1,"commands":[{"kind":"color","color":"plaid"}]}')).to.throw(Error);
+  });
+});
+
+describe("replay", () => {
+  it("reproduces a drawing on a fresh turtle", () => {
+    const recording = new RecordingTurtle();
+    drawSquare(recording, 7);
+    const fresh = new SimpleTurtle();
+    replay(recording.history(), fresh);
+    expect(fresh.getPath()).to.deep.equal(recording.getPath());
+  });
+});
+
+describe("diffCommands", () => {
+  it("reports added and removed commands around shared ones", () => {
+    const diff = diffCommands(
+      [
+        { kind: "forward", units: 10 },
+        { kind: "turn", degrees: 90 },
+        { kind: "forward", units: 10 },
+      ],
+      [
+        { kind: "forward", units: 10 },
+        { kind: "turn", degrees: 45 },
+        { kind: "forward", units: 10 + 1e-12 },
+        { kind: "penUp" },
+      ]
+    );
+    expect(diff.map((entry) => entry.kind)).to.deep.equal(["same", "added", "removed", "same", "added"]);
+  });
+});
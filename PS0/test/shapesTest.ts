@@ -0,0 +1,188 @@
+import { expect } from "chai";
+import {
+  arcSegments,
+  flattenBezier,
+  drawRegularPolygon,
+  drawStarPolygon,
+  drawArc,
+  drawEllipse,
+  drawArchimedeanSpiral,
+  drawLogarithmicSpiral,
+  drawBezier,
+  drawRoundedRectangle,
+} from "../src/shapes";
+import { computeBounds, isClosed } from "../src/analysis";
+import { SimpleTurtle, Point } from "../src/turtle";
+
+function assertAlmostEqual(
+  actual: number,
+  expected: number,
+  delta: number = 0.001,
+  message?: string
+): void {
+  expect(actual).to.be.closeTo(expected, delta, message);
+}
+
+function assertPointAlmostEqual(actual: Point, expected: Point, delta: number = 0.001): void {
+  assertAlmostEqual(actual.x, expected.x, delta, "x");
+  assertAlmostEqual(actual.y, expected.y, delta, "y");
+}
+
+describe("arcSegments", () => {
+  it("keeps the sagitta within the tolerance", () => {
+    expect(arcSegments(10, 360, 0.1)).to.equal(23);
+    expect(arcSegments(10, -360, 0.1)).to.equal(23);
+    expect(arcSegments(10, 360, 0.01)).to.be.greaterThan(23);
+    expect(arcSegments(1, 90, 5)).to.equal(1);
+  });
+});
+
+describe("drawRegularPolygon and drawStarPolygon", () => {
+  it("draws closed polygons and returns to the start", () => {
+    const turtle = new SimpleTurtle();
+    drawRegularPolygon(turtle, 6, 10);
+    expect(turtle.getPath()).to.have.length(6);
+    expect(isClosed(turtle.getPath(), 1e-9)).to.equal(true);
+    assertAlmostEqual(turtle.getHeading() % 360, 0);
+  });
+
+  it("draws a pentagram", () => {
+    const turtle = new SimpleTurtle();
+    drawStarPolygon(turtle, 5, 2, 10);
+    expect(turtle.getPath()).to.have.length(5);
+    assertPointAlmostEqual(turtle.getPosition(), { x: 0, y: 0 });
+  });
+
+  it("rejects degenerate polygons and compound stars", () => {
+    const turtle = new SimpleTurtle();
+    expect(() => drawRegularPolygon(turtle, 2, 10)).to.throw(Error);
+    expect(() => drawStarPolygon(turtle, 6, 2, 10)).to.throw(Error);
+    expect(() => drawStarPolygon(turtle, 5, 3, 10)).to.throw(Error);
+  });
+});
+
+describe("drawArc", () => {
+  it("bends clockwise and ends tangent to the arc", () => {
+    const turtle = new SimpleTurtle();
+    turtle.setHeading(90);
+    drawArc(turtle, 10, 90);
+    assertPointAlmostEqual(turtle.getPosition(), { x: 10, y: 10 });
+    assertAlmostEqual(turtle.getHeading(), 180);
+    for (const segment of turtle.getPath()) {
+      const middle = { x: (segment.start.x + segment.end.x) / 2, y: (segment.start.y + segment.end.y) / 2 };
+      expect(10 - Math.hypot(middle.x, middle.y - 10)).to.be.at.most(0.1 + 1e-9);
+    }
+  });
+
+  it("bends counterclockwise for negative sweeps", () => {
+    const turtle = new SimpleTurtle();
+    drawArc(turtle, 10, -180);
+    assertPointAlmostEqual(turtle.getPosition(), { x: -20, y: 0 });
+    assertAlmostEqual(turtle.getHeading(), 180);
+  });
+
+  it("uses more segments for a smaller tolerance", () => {
+    const coarse = new SimpleTurtle();
+    const fine = new SimpleTurtle();
+    drawArc(coarse, 50, 360, { tolerance: 1 });
+    drawArc(fine, 50, 360, { tolerance: 0.01 });
+    expect(fine.getPath().length).to.be.greaterThan(coarse.getPath().length);
+    expect(() => drawArc(fine, 0, 90)).to.throw(Error);
+  });
+});
+
+describe("drawEllipse", () => {
+  it("draws a closed ellipse to the right of the turtle", () => {
+    const turtle = new SimpleTurtle();
+    drawEllipse(turtle, 20, 10);
+    const path = turtle.getPath();
+    expect(isClosed(path, 1e-9)).to.equal(true);
+    expect(turtle.getHeading()).to.equal(0);
+    const bounds = computeBounds(path)!;
+    assertAlmostEqual(bounds.minX, 0);
+    assertAlmostEqual(bounds.maxX, 20);
+    assertAlmostEqual(bounds.minY, -20);
+    assertAlmostEqual(bounds.maxY, 20);
+    for (const { end } of path) {
+      assertAlmostEqual(Math.pow((end.x - 10) / 10, 2) + Math.pow(end.y / 20, 2), 1, 1e-6);
+    }
+  });
+});
+
+describe("spirals", () => {
+  it("draws an Archimedean spiral outward from the turtle", () => {
+    const turtle = new SimpleTurtle();
+    drawArchimedeanSpiral(turtle, 2, 10, { startRadius: 5 });
+    const path = turtle.getPath();
+    assertPointAlmostEqual(path[0].start, { x: 0, y: -5 });
+    assertPointAlmostEqual(turtle.getPosition(), { x: 0, y: -25 });
+    expect(turtle.isPenDown()).to.equal(true);
+  });
+
+  it("draws a logarithmic spiral whose radius grows steadily", () => {
+    const turtle = new SimpleTurtle();
+    drawLogarithmicSpiral(turtle, 1, 10, 2);
+    const radii = turtle.getPath().map(({ end }) => Math.hypot(end.x, end.y));
+    for (let i = 1; i < radii.length; i++) {
+      expect(radii[i]).to.be.greaterThan(radii[i - 1]);
+    }
+    assertPointAlmostEqual(turtle.getPosition(), { x: 0, y: -20 });
+    expect(() => drawLogarithmicSpiral(turtle, 1, 0, 2)).to.throw(Error);
+  });
+});
+
+describe("Bezier curves", () => {
+  it("keeps straight curves as one segment", () => {
+    expect(flattenBezier([{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }])).to.deep.equal([
+      { x: 0, y: 0 },
+      { x: 2, y: 2 },
+    ]);
+  });
+
+  it("stays within tolerance of a cubic curve", () => {
+    const [p0, p1, p2, p3] = [{ x: 0, y: 0 }, { x: 0, y: 100 }, { x: 100, y: 100 }, { x: 100, y: 0 }];
+    const points = flattenBezier([p0, p1, p2, p3], 0.5);
+    expect(points[0]).to.deep.equal(p0);
+    expect(points[points.length - 1]).to.deep.equal(p3);
+    for (let i = 0; i <= 100; i++) {
+      const t = i / 100;
+      const b = [(1 - t) ** 3, 3 * t * (1 - t) ** 2, 3 * t * t * (1 - t), t ** 3];
+      const x = b[0] * p0.x + b[1] * p1.x + b[2] * p2.x + b[3] * p3.x;
+      const y = b[0] * p0.y + b[1] * p1.y + b[2] * p2.y + b[3] * p3.y;
+      const nearest = Math.min(
+        ...points.slice(1).map((q, j) => {
+          const p = points[j];
+          const dx = q.x - p.x;
+          const dy = q.y - p.y;
+          const s = Math.max(0, Math.min(1, ((x - p.x) * dx + (y - p.y) * dy) / (dx * dx + dy * dy)));
+          return Math.hypot(x - p.x - s * dx, y - p.y - s * dy);
+        })
+      );
+      expect(nearest).to.be.at.most(0.5);
+    }
+  });
+
+  it("draws from the turtle's position", () => {
+    const turtle = new SimpleTurtle(5, 5);
+    drawBezier(turtle, [{ x: 5, y: 50 }, { x: 50, y: 50 }]);
+    expect(turtle.getPath()[0].start).to.deep.equal({ x: 5, y: 5 });
+    assertPointAlmostEqual(turtle.getPosition(), { x: 50, y: 50 });
+    expect(() => flattenBezier([{ x: 0, y: 0 }])).to.throw(Error);
+  });
+});
+
+describe("drawRoundedRectangle", () => {
+  it("draws a closed outline with rounded corners", () => {
+    const turtle = new SimpleTurtle();
+    turtle.setHeading(90);
+    drawRoundedRectangle(turtle, 100, 50, 10);
+    expect(isClosed(turtle.getPath(), 1e-6)).to.equal(true);
+    assertAlmostEqual(turtle.getHeading() % 360, 90);
+    const bounds = computeBounds(turtle.getPath())!;
+    assertAlmostEqual(bounds.minX, -10, 0.1);
+    assertAlmostEqual(bounds.maxX, 90, 0.1);
+    assertAlmostEqual(bounds.minY, 0, 0.1);
+    assertAlmostEqual(bounds.maxY, 50, 0.1);
+    expect(() => drawRoundedRectangle(turtle, 100, 50, 30)).to.throw(Error);
+  });
+});
@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  canonicalizePath,
+  serializeSnapshot,
+  parseSnapshot,
+  compareSnapshot,
+  diffToHTML,
+  matchSnapshot,
+  SnapshotMismatchError,
+} from "../src/snapshot";
+import { drawSquare } from "../src/turtlesoup";
+import { SimpleTurtle, PathSegment } from "../src/turtle";
+
+function square(size: number, splitSides: boolean = false): PathSegment[] {
+  const turtle = new SimpleTurtle();
+  for (let i = 0; i < 4; i++) {
+    if (splitSides) {
+      turtle.forward(size / 2);
+      turtle.forward(size / 2);
+    } else {
+      turtle.forward(size);
+    }
+    turtle.turn(90);
+  }
+  return turtle.getPath();
+}
+
+describe("canonicalizePath", () => {
+  it("ignores drawing order, direction, split lines and rounding noise", () => {
+    const reversed = square(10)
+      .slice()
+      .reverse()
+      .map((s) => ({ ...s, start: { x: s.end.x + 1e-9, y: s.end.y }, end: s.start }));
+    const canonical = canonicalizePath(square(10));
+    expect(canonicalizePath(reversed)).to.deep.equal(canonical);
+    expect(canonicalizePath(square(10, true))).to.deep.equal(canonical);
+    expect(canonical[0]).to.deep.equal({ start: { x: 0, y: -10 }, end: { x: 0, y: 0 }, color: "black" });
+  });
+});
+
+describe("serializeSnapshot and parseSnapshot", () => {
+  it("round-trips canonical segments, one per line", () => {
+    const turtle = new SimpleTurtle();
+    turtle.strokeWidth(3);
+    drawSquare(turtle, 5);
+    const text = serializeSnapshot(turtle.getPath());
+    expect(text.split("\n").filter((line) => line.trim().startsWith("["))).to.have.length(4);
+    expect(parseSnapshot(text)).to.deep.equal(canonicalizePath(turtle.getPath()));
+  });
+
+  it("rejects malformed snapshots", () => {
+    expect(() => parseSnapshot('{"version":1,"segments":[[0,0,1,1,"plaid"]]}')).to.throw(/segment 0/);
+    expect(() => parseSnapshot('{"segments":[]}')).to.throw(Error);
+  });
+});
+
+describe("compareSnapshot", () => {
+  it("matches within tolerance and reports added and removed segments", () => {
+    expect(compareSnapshot(square(10), square(10.0004)).matches).to.equal(true);
+    const extra: PathSegment = { start: { x: 0, y: 0 }, end: { x: 10, y: -10 }, color: "black" };
+    const diff = compareSnapshot(square(10), [...square(10).slice(1), extra]);
+    expect(diff.matches).to.equal(false);
+    expect(diff.added).to.deep.equal([extra]);
+    expect(diff.removed).to.have.length(1);
+    expect(diff.unchanged).to.have.length(3);
+  });
+
+  it("treats color changes as differences", () => {
+    const red = square(10).map((s) => ({ ...s, color: "red" as const }));
+    expect(compareSnapshot(square(10), red).matches).to.equal(false);
+  });
+
+  it("treats width changes as differences, also within a straight run", () => {
+    const halfWide = square(10, true).map((s, i) => (i % 2 === 1 ? { ...s, width: 8 } : s));
+    expect(canonicalizePath(halfWide)).to.have.length(8);
+    expect(compareSnapshot(square(10), halfWide).matches).to.equal(false);
+  });
+});
+
+describe("diffToHTML", () => {
+  it("draws added and removed segments in their own layers", () => {
+    const html = diffToHTML(compareSnapshot(square(10), square(12)));
+    expect(html).to.contain('<g id="removed"');
+    expect(html).to.contain('<g id="added"');
+    expect(html).to.contain("4 added, 4 removed");
+  });
+});
+
+describe("matchSnapshot", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "turtle-snapshots-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("writes a missing golden file, then compares against it", () => {
+    matchSnapshot(square(10), "square", { directory, update: false, ci: false });
+    expect(fs.existsSync(path.join(directory, "square.snap.json"))).to.equal(true);
+    matchSnapshot(square(10, true), "square", { directory, update: false, ci: false });
+  });
+
+  it("throws on a mismatch and writes an HTML diff next to the golden file", () => {
+    matchSnapshot(square(10), "square", { directory, update: false, ci: false });
+    try {
+      matchSnapshot(square(11), "square", { directory, update: false, ci: false });
+      expect.fail("expected a mismatch");
+    } catch (e) {
+      expect(e).to.be.instanceOf(SnapshotMismatchError);
+      expect((e as SnapshotMismatchError).diffFile).to.equal(path.join(directory, "square.diff.html"));
+    }
+    expect(fs.readFileSync(path.join(directory, "square.diff.html"), "utf8")).to.contain("<svg ");
+    matchSnapshot(square(10), "square", { directory, update: false, ci: false });
+    expect(fs.existsSync(path.join(directory, "square.diff.html"))).to.equal(false);
+  });
+
+  it("fails on a missing golden file in CI unless updating", () => {
+    expect(() => matchSnapshot(square(10), "square", { directory, update: false, ci: true })).to.throw(
+      /no golden file.*UPDATE_SNAPSHOTS=1/
+    );
+    expect(fs.existsSync(path.join(directory, "square.snap.json"))).to.equal(false);
+    matchSnapshot(square(10), "square", { directory, update: true, ci: true });
+    matchSnapshot(square(10), "square", { directory, update: false, ci: true });
+  });
+
+  it("overwrites the golden file in update mode", () => {
+    matchSnapshot(square(10), "square", { directory, update: false, ci: false });
+    matchSnapshot(square(11), "square", { directory, update: true });
+    matchSnapshot(square(11), "square", { directory, update: false, ci: false });
+  });
+});
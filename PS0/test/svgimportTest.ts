@@ -0,0 +1,153 @@
+import { expect } from "chai";
+import { importSVG, parsePathData, drawImported } from "../src/svgimport";
+import { toHTML, layersToSVG } from "../src/export";
+import { compareSnapshot } from "../src/snapshot";
+import { pathLength } from "../src/analysis";
+import { SimpleTurtle, Point } from "../src/turtle";
+import { drawPersonalArt } from "../src/turtlesoup";
+
+function assertAlmostEqual(
+  actual: number,
+  expected: number,
+  delta: number = 0.001,
+  message?: string
+): void {
+  expect(actual).to.be.closeTo(expected, delta, message);
+}
+
+function assertPointAlmostEqual(actual: Point, expected: Point, delta: number = 0.001): void {
+  assertAlmostEqual(actual.x, expected.x, delta, "x");
+  assertAlmostEqual(actual.y, expected.y, delta, "y");
+}
+
+describe("parsePathData", () => {
+  it("reads absolute and relative lines, with implicit line commands after M", () => {
+    const [subpath] = parsePathData("M10,10 20,10 l0 10 H0 v-10 z");
+    expect(subpath.closed).to.equal(true);
+    expect(subpath.points).to.deep.equal([
+      { x: 10, y: 10 },
+      { x: 20, y: 10 },
+      { x: 20, y: 20 },
+      { x: 0, y: 20 },
+      { x: 0, y: 10 },
+      { x: 10, y: 10 },
+    ]);
+  });
+
+  it("starts a new subpath at each move and after a close", () => {
+    const subpaths = parsePathData("M0 0 L10 0 M20 0 L30 0 Z l0 5");
+    expect(subpaths.map((s) => [s.points.length, s.closed])).to.deep.equal([
+      [2, false],
+      [3, true],
+      [2, false],
+    ]);
+    expect(subpaths[2].points[0]).to.deep.equal({ x: 20, y: 0 });
+  });
+
+  it("flattens cubic and quadratic curves within tolerance", () => {
+    const [cubic] = parsePathData("M0 0 C0 -50 100 -50 100 0", { tolerance: 0.01 });
+    expect(cubic.points.length).to.be.greaterThan(10);
+    assertPointAlmostEqual(cubic.points[cubic.points.length - 1], { x: 100, y: 0 });
+    // The curve peaks at t = 1/2, at 3/4 of the control height
+    assertAlmostEqual(Math.min(...cubic.points.map((p) => p.y)), -37.5, 0.01);
+    const [quadratic] = parsePathData("M0 0 q50 -100 100 0 t100 0");
+    assertPointAlmostEqual(quadratic.points[quadratic.points.length - 1], { x: 200, y: 0 });
+    assertAlmostEqual(Math.max(...quadratic.points.map((p) => p.y)), 50, 0.1);
+  });
+
+  it("flattens arcs, including compact flags and radii too small to reach", () => {
+    const [half] = parsePathData("M0 0 a50 50 0 01100 0", { tolerance: 0.01 });
+    for (const p of half.points) {
+      assertAlmostEqual(Math.hypot(p.x - 50, p.y), 50, 0.02);
+    }
+    expect(Math.min(...half.points.map((p) => p.y))).to.be.lessThan(-49.9);
+    const [scaled] = parsePathData("M0 0 A1 1 0 0 0 100 0");
+    expect(Math.max(...scaled.points.map((p) => p.y))).to.be.greaterThan(49.9);
+  });
+
+  it("reports malformed data with its offset", () => {
+    expect(() => parsePathData("M0 0 L10")).to.throw(/expected a number at offset 8/);
+    expect(() => parsePathData("10 10")).to.throw(/expected a command/);
+    expect(() => parsePathData("M0 0 A5 5 0 2 0 10 10")).to.throw(/arc flag/);
+  });
+});
+
+describe("importSVG", () => {
+  it("round-trips the drawing in toHTML output", () => {
+    const turtle = new SimpleTurtle();
+    drawPersonalArt(turtle);
+    turtle.strokeWidth(3);
+    turtle.color("#ff8800");
+    turtle.forward(40);
+    const imported = importSVG(toHTML(turtle.getPath()));
+    expect(imported.path).to.have.length(turtle.getPath().length);
+    expect(compareSnapshot(turtle.getPath(), imported.path).matches).to.equal(true);
+    expect(imported.path[imported.path.length - 1].width).to.equal(3);
+    expect(imported.path[0].width).to.equal(undefined);
+  });
+
+  it("round-trips fills", () => {
+    const turtle = new SimpleTurtle();
+    turtle.beginFill("red");
+    turtle.forward(10);
+    turtle.turn(90);
+    turtle.forward(10);
+    turtle.endFill();
+    const imported = importSVG(layersToSVG([{ path: [], fills: turtle.getFills() }]));
+    expect(imported.path).to.deep.equal([]);
+    expect(imported.fills).to.deep.equal(turtle.getFills());
+  });
+
+  it("reads polylines, polygons and styles inherited from groups", () => {
+    const imported = importSVG(`
+      <svg xmlns="http://www.w3.org/2000/svg">
+        <!-- <line x1="0" y1="0" x2="1" y2="1"/> -->
+        <g style="stroke: blue">
+          <polyline points="0,0 10,0 10,10"/>
+          <polygon points="0 0 5 5 0 5" stroke="Green" stroke-width="2px" fill="yellow"/>
+        </g>
+        <line x1="0" y1="0" x2="1" y2="0"/>
+        <line x1="0" y1="0" x2="1" y2="0" stroke="none"/>
+        <rect width="10" height="10"/>
+      </svg>`);
+    expect(imported.path.map((s) => s.color)).to.deep.equal(["blue", "blue", "#008000", "#008000", "#008000", "black"]);
+    expect(imported.path[2].width).to.equal(2);
+    expect(imported.fills).to.deep.equal([
+      {
+        points: [
+          { x: 0, y: 0 },
+          { x: 5, y: 5 },
+          { x: 0, y: 5 },
+        ],
+        color: "yellow",
+      },
+    ]);
+  });
+
+  it("applies nested transforms", () => {
+    const imported = importSVG(`
+      <svg>
+        <g transform="translate(100, 0)">
+          <line x1="0" y1="0" x2="10" y2="0" transform="rotate(90) scale(2)"/>
+        </g>
+      </svg>`);
+    assertPointAlmostEqual(imported.path[0].start, { x: 100, y: 0 });
+    assertPointAlmostEqual(imported.path[0].end, { x: 100, y: 20 });
+    expect(() => importSVG('<line x1="0" y1="0" x2="1" y2="1" transform="wobble(3)"/>')).to.throw(/wobble/);
+  });
+});
+
+describe("drawImported", () => {
+  it("redraws an imported drawing with a turtle", () => {
+    const imported = importSVG(
+      '<path d="M0 0 h10 v10 M50 50 h-10" stroke="red"/><polygon points="0,0 1,0 1,1" fill="red" stroke="none"/>'
+    );
+    const turtle = new SimpleTurtle();
+    drawImported(turtle, imported);
+    expect(turtle.getPath()).to.deep.equal(imported.path);
+    expect(turtle.getFills()).to.deep.equal(imported.fills);
+    assertAlmostEqual(pathLength(turtle.getPath()), 30);
+    expect(turtle.getHeading()).to.equal(0);
+    expect(turtle.isPenDown()).to.equal(true);
+  });
+});
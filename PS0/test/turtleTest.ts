@@ -0,0 +1,109 @@
+import { expect } from "chai";
+import { SimpleTurtle } from "../src/turtle";
+
+function assertAlmostEqual(
+  actual: number,
+  expected: number,
+  delta: number = 0.001,
+  message?: string
+): void {
+  expect(actual).to.be.closeTo(expected, delta, message);
+}
+
+describe("SimpleTurtle", () => {
+  it("does not record segments while the pen is up", () => {
+    const turtle = new SimpleTurtle();
+    turtle.penUp();
+    turtle.forward(10);
+    expect(turtle.isPenDown()).to.equal(false);
+    turtle.penDown();
+    turtle.forward(10);
+    expect(turtle.getPath()).to.have.length(1);
+    assertAlmostEqual(turtle.getPath()[0].start.y, -10);
+    assertAlmostEqual(turtle.getPath()[0].end.y, -20);
+  });
+
+  it("goTo moves in a straight line and keeps the heading", () => {
+    const turtle = new SimpleTurtle();
+    turtle.turn(30);
+    turtle.goTo({ x: 5, y: 7 });
+    expect(turtle.getPosition()).to.deep.equal({ x: 5, y: 7 });
+    expect(turtle.getHeading()).to.equal(30);
+    expect(turtle.getPath()).to.deep.equal([
+      { start: { x: 0, y: 0 }, end: { x: 5, y: 7 }, color: "black" },
+    ]);
+  });
+
+  it("setHeading normalizes into [0, 360)", () => {
+    const turtle = new SimpleTurtle();
+    turtle.setHeading(-90);
+    expect(turtle.getHeading()).to.equal(270);
+    turtle.setHeading(720);
+    expect(turtle.getHeading()).to.equal(0);
+  });
+
+  it("popState restores position, heading, color and pen state", () => {
+    const turtle = new SimpleTurtle(1, 2);
+    turtle.pushState();
+    turtle.color("red");
+    turtle.penUp();
+    turtle.turn(45);
+    turtle.forward(10);
+    turtle.popState();
+    expect(turtle.getPosition()).to.deep.equal({ x: 1, y: 2 });
+    expect(turtle.getHeading()).to.equal(0);
+    expect(turtle.isPenDown()).to.equal(true);
+    turtle.forward(1);
+    expect(turtle.getPath()).to.have.length(1);
+    expect(turtle.getPath()[0].color).to.equal("black");
+  });
+
+  it("popState throws when no state was pushed", () => {
+    const turtle = new SimpleTurtle();
+    expect(() => turtle.popState()).to.throw(Error);
+  });
+
+  it("records stroke width only once it is set, and restores it with popState", () => {
+    const turtle = new SimpleTurtle();
+    turtle.forward(1);
+    turtle.pushState();
+    turtle.strokeWidth(3);
+    turtle.forward(1);
+    turtle.popState();
+    turtle.forward(1);
+    expect(turtle.getPath().map((segment) => segment.width)).to.deep.equal([undefined, 3, undefined]);
+    expect("width" in turtle.getPath()[0]).to.equal(false);
+    expect(() => turtle.strokeWidth(0)).to.throw(Error);
+  });
+
+  it("fills the polygon traced between beginFill and endFill, even with the pen up", () => {
+    const turtle = new SimpleTurtle();
+    turtle.color("#00ff00");
+    turtle.penUp();
+    turtle.beginFill();
+    turtle.forward(10);
+    turtle.goTo({ x: 10, y: -10 });
+    turtle.endFill();
+    expect(turtle.getPath()).to.have.length(0);
+    expect(turtle.getFills()).to.deep.equal([
+      {
+        points: [
+          { x: 0, y: 0 },
+          { x: 0, y: -10 },
+          { x: 10, y: -10 },
+        ],
+        color: "#00ff00",
+      },
+    ]);
+  });
+
+  it("drops fills with fewer than three vertices and rejects unbalanced fills", () => {
+    const turtle = new SimpleTurtle();
+    expect(() => turtle.endFill()).to.throw(Error);
+    turtle.beginFill("red");
+    expect(() => turtle.beginFill()).to.throw(Error);
+    turtle.forward(5);
+    turtle.endFill();
+    expect(turtle.getFills()).to.have.length(0);
+  });
+});
@@ -0,0 +1,216 @@
+import { expect } from "chai";
+import {
+  tokenize,
+  parse,
+  runScript,
+  ScriptSyntaxError,
+  ScriptRuntimeError,
+} from "../src/turtlescript";
+import { findPath } from "../src/turtlesoup";
+import { formatInstructions } from "../src/pathplanner";
+import { SimpleTurtle, Point } from "../src/turtle";
+
+function assertAlmostEqual(
+  actual: number,
+  expected: number,
+  delta: number = 0.001,
+  message?: string
+): void {
+  expect(actual).to.be.closeTo(expected, delta, message);
+}
+
+function expectError(
+  action: () => void,
+  errorClass: typeof ScriptSyntaxError | typeof ScriptRuntimeError,
+  line: number,
+  column: number
+): void {
+  try {
+    action();
+  } catch (e) {
+    expect(e).to.be.instanceOf(errorClass);
+    const error = e as ScriptSyntaxError;
+    expect([error.line, error.column]).to.deep.equal([line, column]);
+    return;
+  }
+  expect.fail("expected an error");
+}
+
+describe("tokenize", () => {
+  it("records line and column of each token", () => {
+    const tokens = tokenize("fd 10\n  turn :a ; comment\n");
+    expect(tokens.map((t) => [t.kind, t.text, t.position.line, t.position.column])).to.deep.equal([
+      ["word", "fd", 1, 1],
+      ["number", "10", 1, 4],
+      ["word", "turn", 2, 3],
+      ["variable", "a", 2, 8],
+      ["eof", "", 3, 1],
+    ]);
+  });
+
+  it("reads decimal and exponent numbers", () => {
+    const tokens = tokenize("1.5 .25 3e-2");
+    expect(tokens.slice(0, 3).map((t) => Number(t.text))).to.deep.equal([1.5, 0.25, 0.03]);
+  });
+
+  it("rejects unknown characters", () => {
+    expectError(() => tokenize("fd 10\nfd @"), ScriptSyntaxError, 2, 4);
+  });
+
+  it("rejects numbers too large to represent", () => {
+    expectError(() => tokenize("fd 10\nfd 1e999"), ScriptSyntaxError, 2, 4);
+    expectError(() => tokenize("make :x 2 * 1" + "0".repeat(400)), ScriptSyntaxError, 1, 13);
+  });
+});
+
+describe("parse", () => {
+  it("respects operator precedence", () => {
+    const program = parse("forward 2 + 3 * 4");
+    expect(program.body).to.deep.include({
+      kind: "forward",
+      distance: {
+        kind: "binary",
+        operator: "+",
+        left: { kind: "number", value: 2, position: { line: 1, column: 9 } },
+        right: {
+          kind: "binary",
+          operator: "*",
+          left: { kind: "number", value: 3, position: { line: 1, column: 13 } },
+          right: { kind: "number", value: 4, position: { line: 1, column: 17 } },
+          position: { line: 1, column: 15 },
+        },
+        position: { line: 1, column: 11 },
+      },
+      position: { line: 1, column: 1 },
+    });
+  });
+
+  it("treats a spaced minus before a number as a new negative argument", () => {
+    const turtle = new SimpleTurtle();
+    runScript("pu goto 10 -20 goto 10 - 20 5", turtle);
+    expect(turtle.getPosition()).to.deep.equal({ x: -10, y: 5 });
+  });
+
+  it("reports an unknown command with its position", () => {
+    expectError(() => parse("forward 10\n  jump 5"), ScriptSyntaxError, 2, 3);
+  });
+
+  it("reports an unclosed repeat block", () => {
+    expectError(() => parse("repeat 4 [ fd 10"), ScriptSyntaxError, 1, 17);
+  });
+
+  it("reports a missing end", () => {
+    expectError(() => parse("to sq :s\n fd :s"), ScriptSyntaxError, 2, 7);
+  });
+
+  it("rejects unknown colors", () => {
+    expectError(() => parse("color chartreuse"), ScriptSyntaxError, 1, 7);
+  });
+
+  it("reads hex colors and rejects malformed ones", () => {
+    expect(parse("color #FF8800").body[0]).to.deep.equal({
+      kind: "color",
+      color: "#ff8800",
+      position: { line: 1, column: 1 },
+    });
+    expectError(() => parse("color #ff88"), ScriptSyntaxError, 1, 7);
+  });
+});
+
+describe("runScript", () => {
+  it("draws a square with repeat", () => {
+    const turtle = new SimpleTurtle();
+    runScript("repeat 4 [ forward 50 turn 90 ]", turtle);
+    expect(turtle.getPath()).to.have.length(4);
+    assertAlmostEqual(turtle.getPosition().x, 0);
+    assertAlmostEqual(turtle.getPosition().y, 0);
+    expect(turtle.getHeading()).to.equal(0);
+  });
+
+  it("supports back, left and color", () => {
+    const turtle = new SimpleTurtle();
+    runScript("color red back 10 left 90", turtle);
+    assertAlmostEqual(turtle.getPosition().y, 10);
+    expect(turtle.getHeading()).to.equal(270);
+    expect(turtle.getPath()[0].color).to.equal("red");
+  });
+
+  it("moves without drawing and restores saved state", () => {
+    const turtle = new SimpleTurtle();
+    runScript("pu goto 10 -20 pd seth 90 push color blue fd 5 pop fd 1", turtle);
+    expect(turtle.getPath().map((s) => s.color)).to.deep.equal(["blue", "black"]);
+    expect(turtle.getPath()[1].start).to.deep.equal({ x: 10, y: -20 });
+    assertAlmostEqual(turtle.getPosition().x, 11);
+  });
+
+  it("sets stroke width and fills polygons", () => {
+    const turtle = new SimpleTurtle();
+    runScript('width 4 beginfill "rgb(0, 128, 255)" repeat 3 [ fd 10 rt 120 ] endfill', turtle);
+    expect(turtle.getPath().map((s) => s.width)).to.deep.equal([4, 4, 4]);
+    expect(turtle.getFills()).to.have.length(1);
+    expect(turtle.getFills()[0].color).to.equal("rgb(0, 128, 255)");
+    expect(turtle.getFills()[0].points).to.have.length(4);
+  });
+
+  it("reports unbalanced fills and non-positive widths", () => {
+    expectError(() => runScript("beginfill fd 1\nbeginfill", new SimpleTurtle()), ScriptRuntimeError, 2, 1);
+    expectError(() => runScript("endfill", new SimpleTurtle()), ScriptRuntimeError, 1, 1);
+    expectError(() => runScript("width 1 - 1", new SimpleTurtle()), ScriptRuntimeError, 1, 9);
+  });
+
+  it("reports pop without push", () => {
+    expectError(() => runScript("push pop\npop", new SimpleTurtle()), ScriptRuntimeError, 2, 1);
+  });
+
+  it("calls procedures with parameters and variables", () => {
+    const turtle = new SimpleTurtle();
+    runScript(
+      `to poly :sides :length
+         repeat :sides [ forward :length turn 360 / :sides ]
+       end
+       make :n 6
+       poly :n 10`,
+      turtle
+    );
+    expect(turtle.getPath()).to.have.length(6);
+    assertAlmostEqual(turtle.getHeading() % 360, 0);
+  });
+
+  it("keeps procedure parameters local", () => {
+    const turtle = new SimpleTurtle();
+    expectError(
+      () => runScript("to step :d fd :d end\nstep 5\nfd :d", turtle),
+      ScriptRuntimeError,
+      3,
+      4
+    );
+    expect(turtle.getPath()).to.have.length(1);
+  });
+
+  it("stops runaway recursion", () => {
+    const turtle = new SimpleTurtle();
+    expectError(
+      () => runScript("to spin :a\n turn :a spin :a\nend\nspin 1", turtle, { maxCallDepth: 50 }),
+      ScriptRuntimeError,
+      2,
+      10
+    );
+  });
+
+  it("rejects fractional repeat counts", () => {
+    expectError(() => runScript("repeat 2.5 [ fd 1 ]", new SimpleTurtle()), ScriptRuntimeError, 1, 8);
+  });
+
+  it("replays findPath output", () => {
+    const points: Point[] = [
+      { x: 10, y: 10 },
+      { x: 40, y: 10 },
+      { x: 40, y: 40 },
+    ];
+    const turtle = new SimpleTurtle();
+    runScript(formatInstructions(findPath(turtle, points)).join("\n"), turtle);
+    expect(turtle.getPath()).to.have.length(3);
+    assertAlmostEqual(turtle.getPosition().x, 40);
+    assertAlmostEqual(turtle.getPosition().y, 40);
+  });
+});
@@ -8,6 +8,19 @@ import {
   drawPersonalArt,
 } from "../src/turtlesoup"; // Import functions to test
 import { SimpleTurtle, Point } from "../src/turtle";
+import { executePath } from "../src/pathplanner";
+import {
+  pathLength,
+  computeBounds,
+  isClosed,
+  selfIntersections,
+  enclosedArea,
+  lengthByColor,
+} from "../src/analysis";
+import { matchSnapshot } from "../src/snapshot";
+import * as path from "path";
+
+const SNAPSHOTS = path.join(__dirname, "__snapshots__");
 
 function assertAlmostEqual(
   actual: number,
@@ -58,6 +71,11 @@ describe("drawSquare", () => {
     drawSquare(turtle, 50);
     // You'll need to visually inspect output.html to verify the square is drawn correctly.
     // Add more assertions if you want to test turtle's internal state (position, heading, etc.)
+    const path = turtle.getPath();
+    assertAlmostEqual(pathLength(path), 200);
+    expect(isClosed(path)).to.equal(true);
+    assertAlmostEqual(enclosedArea(path), 2500);
+    expect(selfIntersections(path)).to.deep.equal([]);
   });
 });
 
@@ -66,6 +84,14 @@ describe("drawApproximateCircle", () => {
     const turtle = new SimpleTurtle();
     drawApproximateCircle(turtle, 30, 36); // Example: 36 sides
     // Visual check of output.html
+    const path = turtle.getPath();
+    expect(path).to.have.length(36);
+    expect(isClosed(path)).to.equal(true);
+    const bounds = computeBounds(path)!;
+    assertAlmostEqual(bounds.maxX - bounds.minX, 60, 0.5);
+    assertAlmostEqual(bounds.maxY - bounds.minY, 60, 0.5);
+    // Area of a regular 36-gon inscribed in a circle of radius 30
+    assertAlmostEqual(enclosedArea(path), 18 * 900 * Math.sin(Math.PI / 18), 0.01);
   });
 });
 
@@ -82,6 +108,43 @@ describe("findPath", () => {
     expect(pathInstructions).to.be.an("array");
     // More detailed tests would involve analyzing the *content* of pathInstructions if you define a specific output format.
   });
+
+  it("turns relative to the turtle's heading, the shortest way", () => {
+    const turtle = new SimpleTurtle();
+    turtle.turn(90); // facing right
+    const instructions = findPath(turtle, [
+      { x: 10, y: 0 },
+      { x: 10, y: -10 },
+    ]);
+    expect(instructions).to.deep.equal([
+      { kind: "forward", units: 10 },
+      { kind: "turn", degrees: -90 },
+      { kind: "forward", units: 10 },
+    ]);
+  });
+
+  it("does not move the turtle", () => {
+    const turtle = new SimpleTurtle();
+    findPath(turtle, [{ x: 5, y: 5 }]);
+    expect(turtle.getPosition()).to.deep.equal({ x: 0, y: 0 });
+    expect(turtle.getPath()).to.deep.equal([]);
+  });
+
+  it("leads the turtle through every point when executed", () => {
+    const turtle = new SimpleTurtle();
+    const points: Point[] = [
+      { x: 10, y: 10 },
+      { x: 40, y: 10 },
+      { x: 40, y: 40 },
+    ];
+    executePath(turtle, findPath(turtle, points));
+    const path = turtle.getPath();
+    expect(path).to.have.length(3);
+    path.forEach((segment, i) => {
+      assertAlmostEqual(segment.end.x, points[i].x);
+      assertAlmostEqual(segment.end.y, points[i].y);
+    });
+  });
 });
 
 describe("drawPersonalArt", () => {
@@ -89,5 +152,13 @@ describe("drawPersonalArt", () => {
     const turtle = new SimpleTurtle();
     drawPersonalArt(turtle);
     // Visual check of output.html
+    const colors = [...lengthByColor(turtle.getPath()).keys()];
+    expect(colors).to.have.members(["red", "blue", "green", "purple", "orange", "black"]);
+  });
+
+  it("matches the golden snapshot (UPDATE_SNAPSHOTS=1 to accept changes)", () => {
+    const turtle = new SimpleTurtle();
+    drawPersonalArt(turtle);
+    matchSnapshot(turtle.getPath(), "personal-art", { directory: SNAPSHOTS });
   });
 });
@@ -0,0 +1,168 @@
+import { expect } from "chai";
+import { moveInWorld, validateWorld, isInside, World } from "../src/world";
+import { SimpleTurtle, Point } from "../src/turtle";
+
+function assertAlmostEqual(
+  actual: number,
+  expected: number,
+  delta: number = 0.001,
+  message?: string
+): void {
+  expect(actual).to.be.closeTo(expected, delta, message);
+}
+
+function assertPointAlmostEqual(actual: Point, expected: Point, delta: number = 0.001): void {
+  assertAlmostEqual(actual.x, expected.x, delta, "x");
+  assertAlmostEqual(actual.y, expected.y, delta, "y");
+}
+
+const BOX = { minX: 0, minY: 0, maxX: 100, maxY: 100 };
+
+describe("validateWorld and isInside", () => {
+  it("rejects bounded modes without usable bounds and degenerate obstacles", () => {
+    expect(() => validateWorld({ mode: "wrap" })).to.throw(/needs bounds/);
+    expect(() => validateWorld({ mode: "clamp", bounds: { minX: 0, minY: 0, maxX: 0, maxY: 10 } })).to.throw(Error);
+    expect(() => validateWorld({ obstacles: [{ name: "stick", points: [{ x: 0, y: 0 }, { x: 1, y: 1 }] }] })).to.throw(
+      /stick/
+    );
+    validateWorld({ mode: "bounce", bounds: BOX });
+  });
+
+  it("treats edges as inside and ignores bounds in mode none", () => {
+    expect(isInside({ mode: "clamp", bounds: BOX }, { x: 100, y: 0 })).to.equal(true);
+    expect(isInside({ mode: "clamp", bounds: BOX }, { x: 101, y: 0 })).to.equal(false);
+    expect(isInside({ bounds: BOX }, { x: 101, y: 0 })).to.equal(true);
+  });
+});
+
+describe("moveInWorld", () => {
+  it("moves freely without bounds or obstacles", () => {
+    const result = moveInWorld({}, { x: 0, y: 0 }, 90, 500);
+    expect(result.pieces).to.have.length(1);
+    assertPointAlmostEqual(result.position, { x: 500, y: 0 });
+  });
+
+  it("wraps around the edges, splitting the line", () => {
+    const result = moveInWorld({ mode: "wrap", bounds: BOX }, { x: 90, y: 50 }, 90, 30);
+    expect(result.pieces).to.have.length(2);
+    assertPointAlmostEqual(result.pieces[0].end, { x: 100, y: 50 });
+    assertPointAlmostEqual(result.pieces[1].start, { x: 0, y: 50 });
+    assertPointAlmostEqual(result.position, { x: 20, y: 50 });
+    expect(result.direction).to.equal(90);
+  });
+
+  it("wraps more than once on a long move", () => {
+    const result = moveInWorld({ mode: "wrap", bounds: BOX }, { x: 50, y: 50 }, 0, 250);
+    expect(result.pieces).to.have.length(3);
+    assertPointAlmostEqual(result.position, { x: 50, y: 0 });
+  });
+
+  it("bounces off edges and corners", () => {
+    const world: World = { mode: "bounce", bounds: BOX };
+    const side = moveInWorld(world, { x: 90, y: 50 }, 90, 30);
+    assertPointAlmostEqual(side.position, { x: 80, y: 50 });
+    expect(side.direction).to.equal(270);
+    const top = moveInWorld(world, { x: 50, y: 10 }, 45, Math.SQRT2 * 20);
+    assertPointAlmostEqual(top.position, { x: 70, y: 10 });
+    expect(top.direction).to.equal(135);
+    const corner = moveInWorld(world, { x: 90, y: 10 }, 45, Math.SQRT2 * 20);
+    assertPointAlmostEqual(corner.position, { x: 90, y: 10 });
+    expect(corner.direction).to.equal(225);
+  });
+
+  it("clamps at the edge", () => {
+    const result = moveInWorld({ mode: "clamp", bounds: BOX }, { x: 50, y: 50 }, 180, 80);
+    assertPointAlmostEqual(result.position, { x: 50, y: 100 });
+    expect(result.pieces).to.have.length(1);
+  });
+
+  it("throws when a move would leave the world in error mode", () => {
+    expect(() => moveInWorld({ mode: "error", bounds: BOX }, { x: 50, y: 50 }, 270, 51)).to.throw(/leave the world/);
+    assertPointAlmostEqual(moveInWorld({ mode: "error", bounds: BOX }, { x: 50, y: 50 }, 270, 50).position, {
+      x: 0,
+      y: 50,
+    });
+  });
+
+  it("stops at the first obstacle and reports it", () => {
+    const wall = { name: "wall", points: [{ x: 20, y: -10 }, { x: 30, y: -10 }, { x: 30, y: 10 }, { x: 20, y: 10 }] };
+    const post = { points: [{ x: 60, y: -1 }, { x: 61, y: -1 }, { x: 61, y: 1 }] };
+    const result = moveInWorld({ obstacles: [post, wall] }, { x: 0, y: 0 }, 90, 100);
+    assertPointAlmostEqual(result.position, { x: 20, y: 0 });
+    expect(result.collisions).to.have.length(1);
+    expect(result.collisions[0].obstacle).to.equal(1);
+    expect(result.collisions[0].name).to.equal("wall");
+  });
+
+  it("reports every crossing without stopping when asked", () => {
+    const wall = { points: [{ x: 20, y: -10 }, { x: 30, y: -10 }, { x: 30, y: 10 }, { x: 20, y: 10 }] };
+    const result = moveInWorld({ obstacles: [wall], stopAtObstacles: false }, { x: 0, y: 0 }, 90, 100);
+    assertPointAlmostEqual(result.position, { x: 100, y: 0 });
+    expect(result.collisions.map((c) => c.point.x)).to.deep.equal([20, 30]);
+  });
+
+  it("can move away from an obstacle it has stopped at", () => {
+    const wall = { points: [{ x: 20, y: -10 }, { x: 30, y: -10 }, { x: 30, y: 10 }, { x: 20, y: 10 }] };
+    const result = moveInWorld({ obstacles: [wall] }, { x: 20, y: 0 }, 270, 10);
+    assertPointAlmostEqual(result.position, { x: 10, y: 0 });
+    expect(result.collisions).to.deep.equal([]);
+  });
+});
+
+describe("SimpleTurtle in a world", () => {
+  it("refuses to start outside the world", () => {
+    expect(() => new SimpleTurtle(200, 0, { mode: "clamp", bounds: BOX })).to.throw(/outside the world/);
+  });
+
+  it("draws wrapped lines as separate segments", () => {
+    const turtle = new SimpleTurtle(50, 50, { mode: "wrap", bounds: BOX });
+    turtle.turn(90);
+    turtle.forward(70);
+    expect(turtle.getPath()).to.have.length(2);
+    assertPointAlmostEqual(turtle.getPosition(), { x: 20, y: 50 });
+    expect(turtle.getHeading()).to.equal(90);
+  });
+
+  it("follows a bounce with its heading, also when moving backwards", () => {
+    const turtle = new SimpleTurtle(50, 50, { mode: "bounce", bounds: BOX });
+    turtle.setHeading(90);
+    turtle.forward(60);
+    assertPointAlmostEqual(turtle.getPosition(), { x: 90, y: 50 });
+    expect(turtle.getHeading()).to.equal(270);
+    turtle.forward(-20);
+    assertPointAlmostEqual(turtle.getPosition(), { x: 90, y: 50 });
+    expect(turtle.getHeading()).to.equal(90);
+  });
+
+  it("records collisions and keeps its heading on goTo", () => {
+    const wall = { name: "wall", points: [{ x: 20, y: -10 }, { x: 30, y: -10 }, { x: 30, y: 10 }, { x: 20, y: 10 }] };
+    const turtle = new SimpleTurtle(0, 0, { obstacles: [wall] });
+    turtle.goTo({ x: 50, y: 0 });
+    assertPointAlmostEqual(turtle.getPosition(), { x: 20, y: 0 });
+    expect(turtle.getHeading()).to.equal(0);
+    expect(turtle.getCollisions().map((c) => c.name)).to.deep.equal(["wall"]);
+  });
+
+  it("stays blocked by an obstacle over several moves in a row", () => {
+    const box = { name: "box", points: [{ x: -10, y: -30 }, { x: 10, y: -30 }, { x: 10, y: -60 }, { x: -10, y: -60 }] };
+    const turtle = new SimpleTurtle(0, 0, { obstacles: [box] });
+    turtle.forward(20);
+    turtle.forward(10);
+    assertPointAlmostEqual(turtle.getPosition(), { x: 0, y: -30 });
+    turtle.forward(100);
+    assertPointAlmostEqual(turtle.getPosition(), { x: 0, y: -30 });
+    turtle.forward(5);
+    assertPointAlmostEqual(turtle.getPosition(), { x: 0, y: -30 });
+    expect(turtle.getCollisions().map((c) => c.name)).to.deep.equal(["box", "box", "box"]);
+    turtle.turn(180);
+    turtle.forward(15);
+    assertPointAlmostEqual(turtle.getPosition(), { x: 0, y: -15 });
+  });
+
+  it("does not move at all when a move fails in error mode", () => {
+    const turtle = new SimpleTurtle(50, 50, { mode: "error", bounds: BOX });
+    expect(() => turtle.forward(60)).to.throw(Error);
+    assertPointAlmostEqual(turtle.getPosition(), { x: 50, y: 50 });
+    expect(turtle.getPath()).to.deep.equal([]);
+  });
+});
@@ -9,6 +9,8 @@
  */
 
 import { Flashcard, AnswerDifficulty, BucketMap } from "./flashcards";
+import { dueCards, powersOfTwo } from "./schedule";
+import { hintsFor } from "./hints";
 
 /**
  * Converts a Map representation of learning buckets into an Array-of-Set representation.
@@ -79,38 +81,17 @@ export function getBucketRange(
  * @param buckets Array-of-Set representation of buckets.
  * @param day current day number (starting from 0).
  * @returns a Set of Flashcards that should be practiced on day `day`,
- *          according to the Modified-Leitner algorithm.
- * @spec.requires buckets is a valid Array-of-Set representation of flashcard buckets.
+ *          according to the Modified-Leitner algorithm: the cards in bucket i
+ *          are practiced on the days divisible by 2^i, so bucket 0 is practiced
+ *          every day, bucket 1 every other day, and so on.
+ * @spec.requires buckets is a valid Array-of-Set representation of flashcard buckets,
+ *                and day is a nonnegative integer.
  */
 export function practice(
   buckets: Array<Set<Flashcard>>,
   day: number
 ): Set<Flashcard> {
-  const result = new Set<Flashcard>();
-
-  // For day 0, practice all cards in bucket 0
-  if (day === 0) {
-    const bucket0 = buckets[0];
-    if (bucket0) {
-      for (const card of bucket0) {
-        result.add(card);
-      }
-    }
-    return result;
-  }
-
-  // For day > 0, practice cards in buckets where bucket number divides the day
-  // Only include cards from buckets that exist in the array
-  if (day < buckets.length) {
-    const bucket = buckets[day];
-    if (bucket) {
-      for (const card of bucket) {
-        result.add(card);
-      }
-    }
-  }
-
-  return result;
+  return dueCards(buckets, day, powersOfTwo());
 }
 
 /**
@@ -169,25 +150,16 @@ export function update(
 }
 
 /**
- * Generates a hint for a flashcard.
+ * Generates a hint for a flashcard: the least revealing of the hints listed by hintsFor(), which
+ * is the card's own hint text if it has any, and otherwise the number and lengths of the words of
+ * the answer. Use hintsFor(), hintAt() or a HintEngine for hints that reveal more.
  *
  * @param card flashcard to hint
- * @returns a hint for the front of the flashcard.
+ * @returns the first hint for the card, or "" if the card has neither hint text nor a nonblank answer.
  * @spec.requires card is a valid Flashcard.
  */
 export function getHint(card: Flashcard): string {
-  // If the card's back is empty or undefined, return empty string
-  if (!card.back || card.back.length === 0) {
-    return "";
-  }
-
-  // If the card's hint is empty, return empty string
-  if (!card.hint || card.hint.length === 0) {
-    return "";
-  }
-
-  // Return the first character of the answer
-  return card.back.charAt(0);
+  return hintsFor(card)[0] ?? "";
 }
 
 /**
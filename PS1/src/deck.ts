@@ -0,0 +1,436 @@
+/**
+ * Problem Set 1: Flashcards - Deck Persistence
+ *
+ * Saves and loads a deck (its cards, their bucket assignments and the answer history) as
+ * versioned JSON, and imports/exports cards as CSV and as Anki-style tab-separated text.
+ */
+
+import { Flashcard, AnswerDifficulty, BucketMap } from "./flashcards";
+
+/**
+ * One practice trial, in the shape computeProgress() takes.
+ */
+export type HistoryEntry = {
+  card: Flashcard;
+  difficulty: AnswerDifficulty;
+  timestamp: number;
+};
+
+export type AnswerHistory = Array<HistoryEntry>;
+
+/**
+ * Everything saved for a learner: bucket assignments and answer history.
+ */
+export type Deck = {
+  buckets: BucketMap;
+  history: AnswerHistory;
+};
+
+/** Version of the JSON format written by serializeDeck(). */
+export const DECK_FORMAT_VERSION = 2;
+
+/**
+ * Thrown when deck data is malformed. For JSON, the message names the offending field;
+ * for CSV and TSV, line is the 1-based line on which the offending row starts.
+ */
+export class DeckFormatError extends Error {
+  constructor(
+    message: string,
+    public readonly line?: number
+  ) {
+    super(line === undefined ? message : `line ${line}: ${message}`);
+    this.name = "DeckFormatError";
+  }
+}
+
+/*
+ * JSON format, version 2:
+ *   {
+ *     "version": 2,
+ *     "cards": [{ "front": "...", "back": "...", "hint": "...", "tags": ["..."], "bucket": 0 }, ...],
+ *     "history": [{ "card": <index into cards>, "difficulty": "Wrong" | "Hard" | "Easy", "timestamp": <ms> }, ...]
+ *   }
+ * A card without "bucket" appears only in the history.
+ *
+ * Version 1 had no history and stored the buckets as an array of card arrays:
+ *   { "version": 1, "buckets": [[{ "front": "...", "back": "...", "hint": "...", "tags": [] }, ...], ...] }
+ */
+
+type CardJson = {
+  front: string;
+  back: string;
+  hint: string;
+  tags: string[];
+  bucket?: number;
+};
+
+type HistoryJson = {
+  card: number;
+  difficulty: keyof typeof AnswerDifficulty;
+  timestamp: number;
+};
+
+type DeckJson = {
+  version: number;
+  cards: CardJson[];
+  history: HistoryJson[];
+};
+
+const DIFFICULTY_NAMES: ReadonlyArray<keyof typeof AnswerDifficulty> = ["Wrong", "Hard", "Easy"];
+
+/**
+ * Lists the cards of a deck in bucket order.
+ *
+ * @param buckets Map representation of learning buckets.
+ * @returns every card in buckets, lowest bucket first.
+ */
+export function cardsOf(buckets: BucketMap): Flashcard[] {
+  const cards: Flashcard[] = [];
+  for (const bucket of [...buckets.keys()].sort((a, b) => a - b)) {
+    cards.push(...(buckets.get(bucket) ?? []));
+  }
+  return cards;
+}
+
+/**
+ * Writes a deck as JSON in the current format version.
+ *
+ * @param deck buckets and history to save.
+ * @returns JSON text that parseDeck() reads back into an equivalent deck.
+ * @throws DeckFormatError if a card is in more than one bucket, or a bucket number is not a nonnegative integer.
+ */
+export function serializeDeck(deck: Deck): string {
+  const cards: CardJson[] = [];
+  const indexOf = new Map<Flashcard, number>();
+  const addCard = (card: Flashcard, bucket?: number): number => {
+    const index = cards.length;
+    const json: CardJson = { front: card.front, back: card.back, hint: card.hint, tags: [...card.tags] };
+    if (bucket !== undefined) {
+      json.bucket = bucket;
+    }
+    cards.push(json);
+    indexOf.set(card, index);
+    return index;
+  };
+  for (const bucket of [...deck.buckets.keys()].sort((a, b) => a - b)) {
+    if (!Number.isInteger(bucket) || bucket < 0) {
+      throw new DeckFormatError(`bucket number ${bucket} is not a nonnegative integer`);
+    }
+    for (const card of deck.buckets.get(bucket) ?? []) {
+      if (indexOf.has(card)) {
+        throw new DeckFormatError(`card '${card.front}' is in more than one bucket`);
+      }
+      addCard(card, bucket);
+    }
+  }
+  const history: HistoryJson[] = deck.history.map((entry) => ({
+    card: indexOf.get(entry.card) ?? addCard(entry.card),
+    difficulty: AnswerDifficulty[entry.difficulty] as keyof typeof AnswerDifficulty,
+    timestamp: entry.timestamp,
+  }));
+  const json: DeckJson = { version: DECK_FORMAT_VERSION, cards, history };
+  return JSON.stringify(json, null, 2) + "\n";
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Checks the fields of a card, as in versions 1 and 2. */
+function checkCard(value: unknown, where: string): CardJson {
+  if (!isRecord(value)) {
+    throw new DeckFormatError(`${where} must be an object`);
+  }
+  for (const field of ["front", "back", "hint"]) {
+    if (typeof value[field] !== "string") {
+      throw new DeckFormatError(`${where}.${field} must be a string`);
+    }
+  }
+  const tags = value["tags"];
+  if (!Array.isArray(tags) || !tags.every((tag) => typeof tag === "string")) {
+    throw new DeckFormatError(`${where}.tags must be an array of strings`);
+  }
+  const bucket = value["bucket"];
+  if (bucket !== undefined && !(typeof bucket === "number" && Number.isInteger(bucket) && bucket >= 0)) {
+    throw new DeckFormatError(`${where}.bucket must be a nonnegative integer`);
+  }
+  const card: CardJson = {
+    front: value["front"] as string,
+    back: value["back"] as string,
+    hint: value["hint"] as string,
+    tags: tags as string[],
+  };
+  if (bucket !== undefined) {
+    card.bucket = bucket as number;
+  }
+  return card;
+}
+
+/**
+ * Upgrades parsed deck JSON of any supported version to the current version, checking its schema.
+ *
+ * @param data parsed JSON.
+ * @returns the same deck in the current format.
+ * @throws DeckFormatError if data is not a deck of a supported version.
+ */
+function migrate(data: unknown): DeckJson {
+  if (!isRecord(data)) {
+    throw new DeckFormatError("deck must be a JSON object");
+  }
+  const version = data["version"];
+  if (version === 1) {
+    const buckets = data["buckets"];
+    if (!Array.isArray(buckets)) {
+      throw new DeckFormatError("buckets must be an array");
+    }
+    const cards: CardJson[] = [];
+    buckets.forEach((bucket: unknown, i) => {
+      if (!Array.isArray(bucket)) {
+        throw new DeckFormatError(`buckets[${i}] must be an array`);
+      }
+      bucket.forEach((card: unknown, j) => cards.push({ ...checkCard(card, `buckets[${i}][${j}]`), bucket: i }));
+    });
+    return { version: DECK_FORMAT_VERSION, cards, history: [] };
+  }
+  if (version !== DECK_FORMAT_VERSION) {
+    throw new DeckFormatError(`unsupported deck version ${JSON.stringify(version)}`);
+  }
+  const cards = data["cards"];
+  const history = data["history"];
+  if (!Array.isArray(cards)) {
+    throw new DeckFormatError("cards must be an array");
+  }
+  if (!Array.isArray(history)) {
+    throw new DeckFormatError("history must be an array");
+  }
+  return {
+    version: DECK_FORMAT_VERSION,
+    cards: cards.map((card: unknown, i) => checkCard(card, `cards[${i}]`)),
+    history: history.map((entry: unknown, i) => {
+      const where = `history[${i}]`;
+      if (!isRecord(entry)) {
+        throw new DeckFormatError(`${where} must be an object`);
+      }
+      const card = entry["card"];
+      if (!(typeof card === "number" && Number.isInteger(card) && card >= 0 && card < cards.length)) {
+        throw new DeckFormatError(`${where}.card must be the index of a card`);
+      }
+      const difficulty = entry["difficulty"];
+      if (typeof difficulty !== "string" || !(DIFFICULTY_NAMES as ReadonlyArray<string>).includes(difficulty)) {
+        throw new DeckFormatError(`${where}.difficulty must be one of ${DIFFICULTY_NAMES.join(", ")}`);
+      }
+      const timestamp = entry["timestamp"];
+      if (typeof timestamp !== "number" || !Number.isFinite(timestamp)) {
+        throw new DeckFormatError(`${where}.timestamp must be a number`);
+      }
+      return { card, difficulty: difficulty as keyof typeof AnswerDifficulty, timestamp };
+    }),
+  };
+}
+
+/**
+ * Reads a deck written by serializeDeck(), in the current or an older format version.
+ *
+ * @param text JSON text.
+ * @returns the deck, with a new Flashcard object for every saved card.
+ * @throws DeckFormatError if text is not valid JSON or not a deck of a supported version.
+ */
+export function parseDeck(text: string): Deck {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new DeckFormatError(`deck is not valid JSON: ${(e as Error).message}`);
+  }
+  const json = migrate(data);
+  const cards = json.cards.map((card) => new Flashcard(card.front, card.back, card.hint, card.tags));
+  const buckets: BucketMap = new Map();
+  json.cards.forEach((card, i) => {
+    if (card.bucket !== undefined) {
+      if (!buckets.has(card.bucket)) {
+        buckets.set(card.bucket, new Set());
+      }
+      buckets.get(card.bucket)!.add(cards[i]!);
+    }
+  });
+  const history = json.history.map((entry) => ({
+    card: cards[entry.card]!,
+    difficulty: AnswerDifficulty[entry.difficulty],
+    timestamp: entry.timestamp,
+  }));
+  return { buckets, history };
+}
+
+/*
+ * Delimited text (CSV and TSV) follows RFC 4180: fields containing the delimiter, a quote or a
+ * line break are enclosed in double quotes, with quotes inside doubled. Columns are front, back,
+ * hint and tags; tags are separated by spaces, as in Anki.
+ */
+
+const COLUMNS = ["front", "back", "hint", "tags"];
+
+function quoteField(field: string, delimiter: string): string {
+  return field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Formats cards as delimited rows.
+ *
+ * @param quoteComment whether to quote a front starting with "#", so that the row cannot be taken for a comment.
+ */
+function formatRows(cards: Iterable<Flashcard>, delimiter: string, quoteComment: boolean = false): string[] {
+  return [...cards].map((card) =>
+    [card.front, card.back, card.hint, card.tags.join(" ")]
+      .map((field, i) =>
+        quoteComment && i === 0 && field.startsWith("#")
+          ? `"${field.replace(/"/g, '""')}"`
+          : quoteField(field, delimiter)
+      )
+      .join(delimiter)
+  );
+}
+
+/**
+ * Splits delimited text into rows of fields.
+ *
+ * @returns each row with the line it starts on; blank lines are skipped.
+ * @throws DeckFormatError if a quoted field is not closed or is followed by something other than a delimiter.
+ */
+function parseRows(text: string, delimiter: string, firstLine: number = 1): Array<{ line: number; fields: string[] }> {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let line = firstLine;
+  let i = 0;
+  while (i < text.length) {
+    const start = line;
+    const fields: string[] = [];
+    for (;;) {
+      let field = "";
+      if (text[i] === '"') {
+        i++;
+        for (;;) {
+          if (i >= text.length) {
+            throw new DeckFormatError("quoted field is not closed", start);
+          }
+          if (text[i] === '"') {
+            if (text[i + 1] === '"') {
+              field += '"';
+              i += 2;
+              continue;
+            }
+            i++;
+            break;
+          }
+          if (text[i] === "\n") {
+            line++;
+          }
+          field += text[i];
+          i++;
+        }
+        if (i < text.length && text[i] !== delimiter && text[i] !== "\r" && text[i] !== "\n") {
+          throw new DeckFormatError("unexpected text after a quoted field", start);
+        }
+      } else {
+        while (i < text.length && text[i] !== delimiter && text[i] !== "\r" && text[i] !== "\n") {
+          field += text[i];
+          i++;
+        }
+      }
+      fields.push(field);
+      if (text[i] === delimiter) {
+        i++;
+        continue;
+      }
+      break;
+    }
+    if (text[i] === "\r") {
+      i++;
+    }
+    if (text[i] === "\n") {
+      i++;
+      line++;
+    }
+    if (!(fields.length === 1 && fields[0] === "")) {
+      rows.push({ line: start, fields });
+    }
+  }
+  return rows;
+}
+
+/** Turns rows of front, back, hint and tags into cards, skipping a header row if there is one. */
+function rowsToCards(rows: Array<{ line: number; fields: string[] }>): Flashcard[] {
+  const first = rows[0];
+  if (first !== undefined && first.fields.map((field) => field.trim().toLowerCase()).join() === COLUMNS.join()) {
+    rows = rows.slice(1);
+  }
+  return rows.map(({ line, fields }) => {
+    if (fields.length < 2 || fields.length > COLUMNS.length) {
+      throw new DeckFormatError(
+        `expected 2 to ${COLUMNS.length} fields (${COLUMNS.join(", ")}), got ${fields.length}`,
+        line
+      );
+    }
+    const [front, back, hint, tags] = fields;
+    if (front === undefined || front.trim() === "") {
+      throw new DeckFormatError("front is empty", line);
+    }
+    return new Flashcard(
+      front,
+      back ?? "",
+      hint ?? "",
+      (tags ?? "").split(/\s+/).filter((tag) => tag !== "")
+    );
+  });
+}
+
+/**
+ * Writes cards as CSV with a header row.
+ *
+ * @param cards cards to export, e.g. cardsOf(buckets).
+ * @returns CSV text with columns front, back, hint and tags.
+ */
+export function exportCSV(cards: Iterable<Flashcard>): string {
+  return [COLUMNS.join(","), ...formatRows(cards, ",")].join("\n") + "\n";
+}
+
+/**
+ * Reads cards from CSV, as written by exportCSV() or a spreadsheet.
+ * The header row is optional; hint and tags columns may be left out.
+ *
+ * @param text CSV text.
+ * @returns the cards, in order.
+ * @throws DeckFormatError, with the line number, if a row is malformed or has an empty front.
+ */
+export function importCSV(text: string): Flashcard[] {
+  return rowsToCards(parseRows(text, ","));
+}
+
+/**
+ * Writes cards as tab-separated text that Anki imports as notes with fields front, back and hint.
+ *
+ * @param cards cards to export, e.g. cardsOf(buckets).
+ * @returns the text, with Anki's header lines declaring the separator and tags column.
+ */
+export function exportAnkiTSV(cards: Iterable<Flashcard>): string {
+  return ["#separator:tab", "#html:false", "#tags column:4", ...formatRows(cards, "\t", true)].join("\n") + "\n";
+}
+
+/** An Anki file header line, e.g. "#separator:tab" or "#tags column:4". */
+const ANKI_HEADER = /^#[a-z ]+:/i;
+
+/**
+ * Reads cards from tab-separated text, as written by exportAnkiTSV() or exported from Anki as
+ * plain text. Anki header lines such as "#separator:tab" before the first card are skipped; a card
+ * whose front starts with "#" must have that field quoted, as exportAnkiTSV() does.
+ *
+ * @param text TSV text.
+ * @returns the cards, in order.
+ * @throws DeckFormatError, with the line number, if a row is malformed or has an empty front.
+ */
+export function importAnkiTSV(text: string): Flashcard[] {
+  const lines = text.split("\n");
+  let headers = 0;
+  while (headers < lines.length && ANKI_HEADER.test(lines[headers]!)) {
+    headers++;
+  }
+  return rowsToCards(parseRows(lines.slice(headers).join("\n"), "\t", headers + 1));
+}
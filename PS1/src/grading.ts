@@ -0,0 +1,195 @@
+/**
+ * Problem Set 1: Flashcards - Typed-Answer Grading
+ *
+ * Checks a typed response against the back of a card, forgiving differences that do not matter
+ * (case, accents, punctuation, spacing) and small typos, and turns the result into an
+ * AnswerDifficulty so that sessions can be graded automatically.
+ */
+
+import { Flashcard, AnswerDifficulty } from "./flashcards";
+
+export type GradingOptions = {
+  /** Whether case must match; default false. */
+  caseSensitive?: boolean;
+  /** Whether accents must match, e.g. "café" vs "cafe"; default false. */
+  accentSensitive?: boolean;
+  /** Separates alternative accepted answers on the back of a card; default ";". */
+  delimiter?: string;
+  /** Typos allowed per character of the accepted answer, rounded down; default 0.2 (one per 5 characters). */
+  typoRate?: number;
+  /** Largest difference at which numeric answers still match; default 0. */
+  numericTolerance?: number;
+  /** Responses slower than this many milliseconds are graded Hard even if exact; default 10000. */
+  slowResponseMs?: number;
+};
+
+/** How well a response matched: exactly (after normalization), with a few typos, or not at all. */
+export type MatchQuality = "exact" | "close" | "wrong";
+
+export type MatchResult = {
+  quality: MatchQuality;
+  /** The accepted answer that matched best, as written on the card. */
+  expected: string;
+  /** Edit distance between the normalized response and the normalized expected answer. */
+  distance: number;
+};
+
+export type GradeResult = MatchResult & {
+  difficulty: AnswerDifficulty;
+};
+
+const NUMBER = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/;
+
+/**
+ * Reduces an answer to the parts that matter for comparison: removes accents (unless
+ * accentSensitive) and punctuation, lowercases (unless caseSensitive), and collapses whitespace.
+ *
+ * @param text answer text.
+ * @param options case and accent sensitivity.
+ * @returns the normalized text.
+ */
+export function normalizeAnswer(text: string, options: GradingOptions = {}): string {
+  let normalized = text.normalize("NFD");
+  if (!(options.accentSensitive ?? false)) {
+    normalized = normalized.replace(/\p{M}/gu, "");
+  }
+  normalized = normalized.replace(/[\p{P}\p{S}]/gu, " ");
+  if (!(options.caseSensitive ?? false)) {
+    normalized = normalized.toLowerCase();
+  }
+  return normalized.replace(/\s+/g, " ").trim().normalize("NFC");
+}
+
+/**
+ * Computes the Levenshtein distance between two strings, counting code points rather than
+ * UTF-16 units.
+ *
+ * @param a a string.
+ * @param b another string.
+ * @returns the smallest number of insertions, deletions and substitutions turning a into b.
+ */
+export function levenshtein(a: string, b: string): number {
+  const s = Array.from(a);
+  const t = Array.from(b);
+  let previous = Array.from({ length: t.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= t.length; j++) {
+      const substitution = previous[j - 1]! + (s[i - 1] === t[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j]! + 1, current[j - 1]! + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[t.length]!;
+}
+
+/**
+ * Lists the answers a card accepts.
+ *
+ * @param back back of the card.
+ * @param delimiter separates alternative answers; default ";".
+ * @returns the trimmed, nonempty alternatives, or [back] if there are none.
+ * @throws Error if delimiter is empty.
+ */
+export function acceptedAnswers(back: string, delimiter: string = ";"): string[] {
+  if (delimiter === "") {
+    throw new Error("delimiter must not be empty");
+  }
+  const answers = back
+    .split(delimiter)
+    .map((answer) => answer.trim())
+    .filter((answer) => answer !== "");
+  return answers.length > 0 ? answers : [back];
+}
+
+/**
+ * Compares a typed response with the answers a card accepts.
+ * If both the response and an accepted answer are numbers, they match iff they differ by at most
+ * numericTolerance; otherwise they are compared after normalizeAnswer(), and match closely if
+ * their edit distance is within the typo allowance of the accepted answer.
+ *
+ * @param card card being practiced.
+ * @param response what the user typed.
+ * @param options normalization, typo and numeric tolerance.
+ * @returns the best match among the accepted answers.
+ * @throws Error if typoRate or numericTolerance is negative, or the delimiter is empty.
+ */
+export function checkAnswer(card: Flashcard, response: string, options: GradingOptions = {}): MatchResult {
+  const typoRate = options.typoRate ?? 0.2;
+  const numericTolerance = options.numericTolerance ?? 0;
+  if (!(typoRate >= 0 && numericTolerance >= 0)) {
+    throw new Error("typoRate and numericTolerance must be nonnegative");
+  }
+  const typed = normalizeAnswer(response, options);
+  const typedNumber = NUMBER.test(response.trim()) ? Number(response.trim()) : undefined;
+  const rank: Record<MatchQuality, number> = { exact: 0, close: 1, wrong: 2 };
+
+  let best: MatchResult | undefined = undefined;
+  for (const expected of acceptedAnswers(card.back, options.delimiter)) {
+    let result: MatchResult;
+    if (typedNumber !== undefined && NUMBER.test(expected)) {
+      const matches = Math.abs(typedNumber - Number(expected)) <= numericTolerance;
+      result = { quality: matches ? "exact" : "wrong", expected, distance: matches ? 0 : levenshtein(typed, expected) };
+    } else {
+      // Answers made only of punctuation or symbols, such as "+", are compared as written
+      const symbolic = normalizeAnswer(expected, options) === "";
+      const target = symbolic ? expected : normalizeAnswer(expected, options);
+      const distance = levenshtein(symbolic ? response.trim() : typed, target);
+      const allowance = Math.floor(Array.from(target).length * typoRate);
+      const quality = distance === 0 ? "exact" : distance <= allowance && typed !== "" ? "close" : "wrong";
+      result = { quality, expected, distance };
+    }
+    if (
+      best === undefined ||
+      rank[result.quality] < rank[best.quality] ||
+      (rank[result.quality] === rank[best.quality] && result.distance < best.distance)
+    ) {
+      best = result;
+    }
+  }
+  return best!;
+}
+
+/**
+ * Maps a match to a self-reported difficulty: an exact, quick answer is Easy; an exact but slow
+ * answer, or one with typos, is Hard; anything else is Wrong.
+ *
+ * @param quality how well the response matched.
+ * @param responseTime milliseconds the user took to answer.
+ * @param options slowResponseMs threshold.
+ * @returns the difficulty to record.
+ */
+export function toDifficulty(
+  quality: MatchQuality,
+  responseTime: number,
+  options: GradingOptions = {}
+): AnswerDifficulty {
+  switch (quality) {
+    case "exact":
+      return responseTime > (options.slowResponseMs ?? 10000) ? AnswerDifficulty.Hard : AnswerDifficulty.Easy;
+    case "close":
+      return AnswerDifficulty.Hard;
+    case "wrong":
+      return AnswerDifficulty.Wrong;
+  }
+}
+
+/**
+ * Grades a typed response: checkAnswer() followed by toDifficulty().
+ *
+ * @param card card being practiced.
+ * @param response what the user typed.
+ * @param responseTime milliseconds the user took to answer.
+ * @param options grading options.
+ * @returns the match and the difficulty to record.
+ * @throws Error if typoRate or numericTolerance is negative, or the delimiter is empty.
+ */
+export function gradeAnswer(
+  card: Flashcard,
+  response: string,
+  responseTime: number,
+  options: GradingOptions = {}
+): GradeResult {
+  const match = checkAnswer(card, response, options);
+  return { ...match, difficulty: toDifficulty(match.quality, responseTime, options) };
+}
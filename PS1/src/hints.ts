@@ -0,0 +1,272 @@
+/**
+ * Problem Set 1: Flashcards - Hints
+ *
+ * Generates hints that reveal progressively more of a card's answer, starting with the card's own
+ * hint text, and counts how many were used so that the answer's grade can be lowered.
+ * Answers are handled grapheme by grapheme, so accented letters, emoji and non-Latin scripts
+ * count as single characters.
+ */
+
+import { Flashcard, AnswerDifficulty } from "./flashcards";
+
+/**
+ * The kinds of hint:
+ * - "card": the card's own hint text
+ * - "shape": the number of words and their lengths, e.g. "2 words: 3, 3 letters"
+ * - "firstLetter": the first letter, with the rest masked, e.g. "c__ / ___"
+ * - "skeleton": the first and last letter of every word, e.g. "c_t / d_g"
+ * - "vowelsHidden": everything but the vowels, e.g. "c_t / d_g" for "cat dog", "_l_ph_nt" for "elephant"
+ */
+export type HintLevel = "card" | "shape" | "firstLetter" | "skeleton" | "vowelsHidden";
+
+export const DEFAULT_HINT_LEVELS: ReadonlyArray<HintLevel> = [
+  "card",
+  "shape",
+  "firstLetter",
+  "skeleton",
+  "vowelsHidden",
+];
+
+export type HintOptions = {
+  /** Kinds of hint to give, in order; default DEFAULT_HINT_LEVELS. */
+  levels?: ReadonlyArray<HintLevel>;
+  /** Replaces each hidden letter; default "_". */
+  mask?: string;
+  /** Separates the words of masked hints; default " / ". */
+  wordSeparator?: string;
+};
+
+const VOWELS = /^[aeiou]$/i;
+const LETTER = /[\p{L}\p{N}]/u;
+
+/**
+ * Splits text into user-perceived characters.
+ *
+ * @param text any string.
+ * @returns the grapheme clusters of text, in order.
+ */
+export function graphemes(text: string): string[] {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+  return Array.from(segmenter.segment(text), (segment) => segment.segment);
+}
+
+/** @returns the words of an answer, as arrays of graphemes. */
+function words(answer: string): string[][] {
+  return answer
+    .trim()
+    .split(/\s+/)
+    .filter((word) => word !== "")
+    .map(graphemes);
+}
+
+function isVowel(grapheme: string): boolean {
+  return VOWELS.test(grapheme.normalize("NFD").replace(/\p{M}/gu, ""));
+}
+
+type Reveal = (grapheme: string, wordIndex: number, letterIndex: number, letterCount: number) => boolean;
+
+/**
+ * Masks the letters of an answer, keeping punctuation.
+ *
+ * @param answer answer text.
+ * @param reveal decides whether a letter is shown, given the letter, the index of its word, its index
+ *               among the letters of the word, and the number of letters in the word.
+ * @returns the masked words joined by the word separator.
+ */
+function maskAnswer(
+  answer: string,
+  reveal: Reveal,
+  mask: string,
+  wordSeparator: string
+): string {
+  return words(answer)
+    .map((word, wordIndex) => {
+      const letterCount = word.filter((grapheme) => LETTER.test(grapheme)).length;
+      let letterIndex = 0;
+      return word
+        .map((grapheme) => {
+          if (!LETTER.test(grapheme)) {
+            return grapheme;
+          }
+          const shown = reveal(grapheme, wordIndex, letterIndex, letterCount);
+          letterIndex++;
+          return shown ? grapheme : mask;
+        })
+        .join("");
+    })
+    .join(wordSeparator);
+}
+
+/**
+ * Generates one kind of hint for an answer.
+ *
+ * @param level kind of hint.
+ * @param card card whose answer (its back) is hinted at.
+ * @param options mask and word separator.
+ * @returns the hint, or "" if there is nothing to hint: level is "card" and the card has no hint
+ *          text, or the answer is blank.
+ */
+export function hintAt(level: HintLevel, card: Flashcard, options: HintOptions = {}): string {
+  const mask = options.mask ?? "_";
+  const separator = options.wordSeparator ?? " / ";
+  switch (level) {
+    case "card":
+      return card.hint.trim();
+    case "shape": {
+      const lengths = words(card.back).map((word) => word.filter((grapheme) => LETTER.test(grapheme)).length);
+      if (lengths.length === 0) {
+        return "";
+      }
+      const count = lengths.length === 1 ? "1 word" : `${lengths.length} words`;
+      const letters = lengths.length === 1 && lengths[0] === 1 ? "letter" : "letters";
+      return `${count}: ${lengths.join(", ")} ${letters}`;
+    }
+    case "firstLetter":
+    case "skeleton":
+    case "vowelsHidden":
+      return maskAnswer(card.back, revealedBy(level), mask, separator);
+  }
+}
+
+/** @returns which letters a masked kind of hint shows. */
+function revealedBy(level: "firstLetter" | "skeleton" | "vowelsHidden"): Reveal {
+  switch (level) {
+    case "firstLetter":
+      return (_, wordIndex, letterIndex) => wordIndex === 0 && letterIndex === 0;
+    case "skeleton":
+      return (_, __, letterIndex, letterCount) => letterIndex === 0 || letterIndex === letterCount - 1;
+    case "vowelsHidden":
+      return (grapheme) => !isVowel(grapheme);
+  }
+}
+
+/**
+ * Lists the hints for a card, in the order they are given.
+ * A masked hint also shows every letter shown by the masked hints before it, so no hint takes back
+ * a letter already revealed. A level is left out if it gives nothing new: if it is empty, repeats
+ * an earlier hint, or shows every letter of the answer.
+ *
+ * @param card card to hint at.
+ * @param options kinds of hint and how to mask.
+ * @returns the hints, in the order of the levels.
+ */
+export function hintsFor(card: Flashcard, options: HintOptions = {}): string[] {
+  const mask = options.mask ?? "_";
+  const separator = options.wordSeparator ?? " / ";
+  const fullySpelled = maskAnswer(card.back, () => true, mask, separator);
+  const reveals: Reveal[] = [];
+  const hints: string[] = [];
+  for (const level of options.levels ?? DEFAULT_HINT_LEVELS) {
+    let hint: string;
+    if (level === "card" || level === "shape") {
+      hint = hintAt(level, card, options);
+    } else {
+      reveals.push(revealedBy(level));
+      hint = maskAnswer(card.back, (...letter) => reveals.some((reveal) => reveal(...letter)), mask, separator);
+    }
+    if (hint !== "" && hint !== fullySpelled && !hints.includes(hint)) {
+      hints.push(hint);
+    }
+  }
+  return hints;
+}
+
+/**
+ * Lowers a self-reported difficulty according to the number of hints used: with any hint, an Easy
+ * answer counts as Hard; with more than maxHintsForHard hints, any answer counts as Wrong.
+ *
+ * @param difficulty how well the user did.
+ * @param hintsUsed number of hints shown before answering; a nonnegative integer.
+ * @param maxHintsForHard most hints with which an answer can still count as Hard; default 2.
+ * @returns the difficulty to record.
+ * @throws Error if hintsUsed is not a nonnegative integer.
+ */
+export function penalizeHints(
+  difficulty: AnswerDifficulty,
+  hintsUsed: number,
+  maxHintsForHard: number = 2
+): AnswerDifficulty {
+  if (!Number.isInteger(hintsUsed) || hintsUsed < 0) {
+    throw new Error(`hintsUsed must be a nonnegative integer, got ${hintsUsed}`);
+  }
+  if (hintsUsed === 0) {
+    return difficulty;
+  }
+  if (hintsUsed > maxHintsForHard) {
+    return AnswerDifficulty.Wrong;
+  }
+  return difficulty === AnswerDifficulty.Easy ? AnswerDifficulty.Hard : difficulty;
+}
+
+/**
+ * A mutable source of hints for one card, each revealing more of the answer than the last.
+ */
+export class HintEngine {
+  // Abstraction function:
+  //   AF(hints, used) = a hint source for a card whose hints, in order, are `hints`, of which
+  //     the first `used` have been given
+  // Representation invariant:
+  //   0 <= used <= hints.length
+  // Safety from rep exposure:
+  //   all fields are private; hints is a fresh array built in the constructor and never returned;
+  //   strings are immutable
+
+  private readonly hints: ReadonlyArray<string>;
+  private used = 0;
+
+  /**
+   * Makes a hint source for a card.
+   *
+   * @param card card to hint at.
+   * @param options kinds of hint and how to mask.
+   */
+  constructor(card: Flashcard, options: HintOptions = {}) {
+    this.hints = hintsFor(card, options);
+    this.checkRep();
+  }
+
+  private checkRep(): void {
+    if (this.used < 0 || this.used > this.hints.length) {
+      throw new Error("more hints used than available");
+    }
+  }
+
+  /**
+   * Gives the next hint.
+   *
+   * @returns the next hint, or undefined if every hint has been given.
+   */
+  next(): string | undefined {
+    const hint = this.hints[this.used];
+    if (hint !== undefined) {
+      this.used++;
+    }
+    this.checkRep();
+    return hint;
+  }
+
+  /**
+   * @returns true iff next() would give another hint.
+   */
+  hasNext(): boolean {
+    return this.used < this.hints.length;
+  }
+
+  /**
+   * @returns the number of hints given so far.
+   */
+  hintsUsed(): number {
+    return this.used;
+  }
+
+  /**
+   * Lowers a self-reported difficulty by the hints given so far, as penalizeHints() does.
+   *
+   * @param difficulty how well the user did.
+   * @param maxHintsForHard most hints with which an answer can still count as Hard; default 2.
+   * @returns the difficulty to record.
+   */
+  penalize(difficulty: AnswerDifficulty, maxHintsForHard: number = 2): AnswerDifficulty {
+    return penalizeHints(difficulty, this.used, maxHintsForHard);
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * Problem Set 1: Flashcards - Deck Queries
+ *
+ * Selects the cards of a deck with a small query language, so that practice() and
+ * computeProgress() can be run on a subdeck:
+ *
+ *   tag:verbs AND NOT tag:irregular
+ *   (tag:lang::spanish OR tag:lang::french) bucket>=2
+ *   front:"to be" OR hola
+ *
+ * A query is made of terms combined with AND, OR and NOT (upper case) and parentheses. NOT binds
+ * tightest, then AND, then OR; terms written next to each other are joined by AND. The terms are:
+ * - tag:NAME, matching cards with tag NAME or any tag below it in the hierarchy, so tag:lang
+ *   matches a card tagged lang::spanish::verbs
+ * - front:TEXT and back:TEXT, matching cards whose front or back contains TEXT
+ * - bucket=N, bucket!=N, bucket<N, bucket<=N, bucket>N and bucket>=N, comparing the card's bucket;
+ *   bucket:N is the same as bucket=N
+ * - any other word, matching cards whose front or back contains it
+ * Text and tags are compared ignoring case. Double quotes make a phrase, with \" and \\ inside
+ * for a quote and a backslash, and stop a word from being read as a keyword or field.
+ */
+
+import { Flashcard, BucketMap } from "./flashcards";
+
+export type Comparison = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+/** A parsed query. */
+export type Query =
+  | { kind: "all" }
+  | { kind: "tag"; tag: string }
+  | { kind: "text"; field: "front" | "back" | "either"; text: string }
+  | { kind: "bucket"; comparison: Comparison; bucket: number }
+  | { kind: "not"; query: Query }
+  | { kind: "and"; queries: Query[] }
+  | { kind: "or"; queries: Query[] };
+
+/** Separates the levels of a hierarchical tag. */
+export const TAG_SEPARATOR = "::";
+
+/**
+ * Thrown when a query is malformed; position is the 0-based index in the query text at which
+ * the problem was found.
+ */
+export class QueryError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number
+  ) {
+    super(`at position ${position}: ${message}`);
+    this.name = "QueryError";
+  }
+}
+
+type Token = {
+  /** The word with its quotes and escapes removed, or a parenthesis. */
+  text: string;
+  /** Whether any part of the word was quoted. */
+  quoted: boolean;
+  /** Length of the part of text before the first quote. */
+  plain: number;
+  position: number;
+};
+
+const BUCKET_TERM = /^bucket(!=|<=|>=|=|<|>|:)(\d+)$/i;
+const FIELD_TERM = /^(tag|front|back):(.*)$/is;
+
+/**
+ * Splits a query into words and parentheses.
+ *
+ * @throws QueryError if a quote is not closed.
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i]!;
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ text: char, quoted: false, plain: 1, position: i });
+      i++;
+    } else {
+      const position = i;
+      let word = "";
+      let quoted = false;
+      let plain = 0;
+      while (i < text.length && !/[\s()]/.test(text[i]!)) {
+        if (text[i] === '"') {
+          if (!quoted) {
+            plain = word.length;
+          }
+          quoted = true;
+          i++;
+          while (text[i] !== '"') {
+            if (i >= text.length) {
+              throw new QueryError("unterminated quote", position);
+            }
+            if (text[i] === "\\" && i + 1 < text.length) {
+              i++;
+            }
+            word += text[i];
+            i++;
+          }
+          i++;
+        } else {
+          word += text[i];
+          i++;
+        }
+      }
+      tokens.push({ text: word, quoted, plain: quoted ? plain : word.length, position });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over the tokens of one query.
+ */
+class QueryParser {
+  private next = 0;
+
+  constructor(
+    private readonly tokens: ReadonlyArray<Token>,
+    private readonly length: number
+  ) {}
+
+  parse(): Query {
+    if (this.tokens.length === 0) {
+      return { kind: "all" };
+    }
+    const query = this.parseOr();
+    const extra = this.tokens[this.next];
+    if (extra !== undefined) {
+      throw new QueryError(`unexpected '${extra.text}'`, extra.position);
+    }
+    return query;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.next];
+  }
+
+  private isKeyword(token: Token | undefined, keyword: string): boolean {
+    return token !== undefined && !token.quoted && token.text === keyword;
+  }
+
+  private parseOr(): Query {
+    const queries = [this.parseAnd()];
+    while (this.isKeyword(this.peek(), "OR")) {
+      this.next++;
+      queries.push(this.parseAnd());
+    }
+    return queries.length === 1 ? queries[0]! : { kind: "or", queries };
+  }
+
+  private parseAnd(): Query {
+    const queries = [this.parseNot()];
+    for (;;) {
+      const token = this.peek();
+      if (this.isKeyword(token, "AND")) {
+        this.next++;
+      } else if (token === undefined || this.isKeyword(token, "OR") || (token.text === ")" && !token.quoted)) {
+        break;
+      }
+      queries.push(this.parseNot());
+    }
+    return queries.length === 1 ? queries[0]! : { kind: "and", queries };
+  }
+
+  private parseNot(): Query {
+    if (this.isKeyword(this.peek(), "NOT")) {
+      this.next++;
+      return { kind: "not", query: this.parseNot() };
+    }
+    return this.parseTerm();
+  }
+
+  private parseTerm(): Query {
+    const token = this.peek();
+    if (token === undefined) {
+      throw new QueryError("expected a term", this.length);
+    }
+    this.next++;
+    if (!token.quoted && token.text === "(") {
+      const query = this.parseOr();
+      const close = this.peek();
+      if (close === undefined || close.quoted || close.text !== ")") {
+        throw new QueryError("missing ')'", close?.position ?? this.length);
+      }
+      this.next++;
+      return query;
+    }
+    if (!token.quoted && ["AND", "OR", ")"].includes(token.text)) {
+      throw new QueryError(`expected a term, got '${token.text}'`, token.position);
+    }
+    return parseWord(token);
+  }
+}
+
+function parseWord(token: Token): Query {
+  const bucket = BUCKET_TERM.exec(token.text);
+  if (bucket !== null && !token.quoted) {
+    const comparison = bucket[1] === ":" ? "=" : (bucket[1] as Comparison);
+    return { kind: "bucket", comparison, bucket: Number(bucket[2]) };
+  }
+  const field = FIELD_TERM.exec(token.text);
+  // The field name and its colon must come before any quote
+  if (field !== null && field[1]!.length < token.plain) {
+    const name = field[1]!.toLowerCase();
+    const value = field[2]!;
+    if (value === "") {
+      throw new QueryError(`${name}: needs a value`, token.position);
+    }
+    if (name === "tag") {
+      return { kind: "tag", tag: value };
+    }
+    return { kind: "text", field: name === "front" ? "front" : "back", text: value };
+  }
+  if (/^bucket\W/i.test(token.text) && !token.quoted) {
+    throw new QueryError(`malformed bucket filter '${token.text}'`, token.position);
+  }
+  return { kind: "text", field: "either", text: token.text };
+}
+
+/**
+ * Parses a query.
+ *
+ * @param text query in the language described at the top of this module; blank for all cards.
+ * @returns the parsed query.
+ * @throws QueryError if text is not a well-formed query.
+ */
+export function parseQuery(text: string): Query {
+  return new QueryParser(tokenize(text), text.length).parse();
+}
+
+/**
+ * Decides whether a card has a tag, counting the tags below it in the hierarchy.
+ *
+ * @param card a flashcard.
+ * @param tag tag name, with levels separated by TAG_SEPARATOR; compared ignoring case.
+ * @returns true iff some tag of card equals tag or starts with tag followed by TAG_SEPARATOR.
+ */
+export function hasTag(card: Flashcard, tag: string): boolean {
+  const wanted = tag.toLowerCase();
+  return card.tags.some((cardTag) => {
+    const name = cardTag.toLowerCase();
+    return name === wanted || name.startsWith(wanted + TAG_SEPARATOR);
+  });
+}
+
+function contains(text: string, search: string): boolean {
+  return text.toLowerCase().includes(search.toLowerCase());
+}
+
+function compare(value: number, comparison: Comparison, bound: number): boolean {
+  switch (comparison) {
+    case "=":
+      return value === bound;
+    case "!=":
+      return value !== bound;
+    case "<":
+      return value < bound;
+    case "<=":
+      return value <= bound;
+    case ">":
+      return value > bound;
+    case ">=":
+      return value >= bound;
+  }
+}
+
+/**
+ * Decides whether a card matches a query.
+ *
+ * @param query a parsed query.
+ * @param card a flashcard.
+ * @param bucket the bucket the card is in.
+ * @returns true iff the card, in that bucket, satisfies the query.
+ */
+export function matchesQuery(query: Query, card: Flashcard, bucket: number): boolean {
+  switch (query.kind) {
+    case "all":
+      return true;
+    case "tag":
+      return hasTag(card, query.tag);
+    case "text":
+      return (
+        (query.field !== "back" && contains(card.front, query.text)) ||
+        (query.field !== "front" && contains(card.back, query.text))
+      );
+    case "bucket":
+      return compare(bucket, query.comparison, query.bucket);
+    case "not":
+      return !matchesQuery(query.query, card, bucket);
+    case "and":
+      return query.queries.every((part) => matchesQuery(part, card, bucket));
+    case "or":
+      return query.queries.some((part) => matchesQuery(part, card, bucket));
+  }
+}
+
+/**
+ * Selects a subdeck. The result can be passed to toBucketSets() and practice(), to
+ * computeProgress(), or to a StudySession, to work on just the matching cards.
+ *
+ * @param buckets Map representation of learning buckets; not modified.
+ * @param query a parsed query, or query text for parseQuery().
+ * @returns a new map holding the matching cards in their buckets, without empty buckets.
+ * @throws QueryError if query is text that is not a well-formed query.
+ * @spec.requires buckets is a valid representation of flashcard buckets.
+ */
+export function filterBuckets(buckets: BucketMap, query: Query | string): BucketMap {
+  const parsed = typeof query === "string" ? parseQuery(query) : query;
+  const result: BucketMap = new Map();
+  for (const [bucket, cards] of buckets) {
+    const matching = [...cards].filter((card) => matchesQuery(parsed, card, bucket));
+    if (matching.length > 0) {
+      result.set(bucket, new Set(matching));
+    }
+  }
+  return result;
+}
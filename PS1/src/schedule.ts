@@ -0,0 +1,159 @@
+/**
+ * Problem Set 1: Flashcards - Leitner Scheduling
+ *
+ * Decides which buckets are practiced on which days. In the Modified-Leitner system, the cards
+ * in bucket i are practiced every 2^i days: bucket 0 every day, bucket 1 every other day,
+ * bucket 2 every fourth day, and so on. Other interval policies can be swapped in.
+ */
+
+import { Flashcard } from "./flashcards";
+
+/**
+ * Maps a bucket number to the number of days between practices of that bucket: a positive
+ * integer, or Infinity for a retired bucket whose cards are never practiced again.
+ * A bucket with interval n is practiced on the days divisible by n.
+ */
+export type IntervalPolicy = (bucket: number) => number;
+
+/** One day of a schedule preview. */
+export type ScheduledDay = {
+  day: number;
+  cards: Set<Flashcard>;
+};
+
+/**
+ * The Modified-Leitner policy: bucket i is practiced every 2^i days.
+ *
+ * @returns the policy.
+ */
+export function powersOfTwo(): IntervalPolicy {
+  return (bucket) => 2 ** bucket;
+}
+
+/**
+ * A gentler policy whose intervals grow like the Fibonacci numbers: 1, 2, 3, 5, 8, 13, ... days
+ * for buckets 0, 1, 2, ...
+ *
+ * @returns the policy.
+ */
+export function fibonacci(): IntervalPolicy {
+  const intervals = [1, 2];
+  return (bucket) => {
+    while (intervals.length <= bucket) {
+      intervals.push(intervals[intervals.length - 1]! + intervals[intervals.length - 2]!);
+    }
+    return intervals[bucket]!;
+  };
+}
+
+/**
+ * A policy given as a table of intervals.
+ *
+ * @param days days[i] is the interval of bucket i; buckets past the end of the table use its last entry.
+ * @returns the policy.
+ * @throws Error if days is empty or contains anything but positive integers and Infinity.
+ */
+export function intervalTable(days: ReadonlyArray<number>): IntervalPolicy {
+  if (days.length === 0) {
+    throw new Error("interval table is empty");
+  }
+  days.forEach((interval) => checkInterval(interval));
+  const table = [...days];
+  return (bucket) => table[Math.min(bucket, table.length - 1)]!;
+}
+
+/**
+ * Retires the cards that reach a given bucket, so they are no longer practiced.
+ *
+ * @param policy intervals of the buckets below retiredBucket.
+ * @param retiredBucket first bucket whose cards are never practiced; a nonnegative integer.
+ * @returns the policy.
+ * @throws Error if retiredBucket is not a nonnegative integer.
+ */
+export function withRetirement(policy: IntervalPolicy, retiredBucket: number): IntervalPolicy {
+  if (!Number.isInteger(retiredBucket) || retiredBucket < 0) {
+    throw new Error(`retired bucket must be a nonnegative integer, got ${retiredBucket}`);
+  }
+  return (bucket) => (bucket >= retiredBucket ? Infinity : policy(bucket));
+}
+
+function checkInterval(interval: number): number {
+  if (!(interval === Infinity || (Number.isInteger(interval) && interval > 0))) {
+    throw new Error(`interval must be a positive integer or Infinity, got ${interval}`);
+  }
+  return interval;
+}
+
+function checkDay(day: number): void {
+  if (!Number.isInteger(day) || day < 0) {
+    throw new Error(`day must be a nonnegative integer, got ${day}`);
+  }
+}
+
+/**
+ * Decides whether a bucket is practiced on a day.
+ *
+ * @param bucket bucket number.
+ * @param day day number (starting from 0).
+ * @param policy intervals of the buckets; default powersOfTwo().
+ * @returns true iff day is a multiple of the bucket's interval.
+ * @throws Error if day is not a nonnegative integer or the policy returns an invalid interval.
+ */
+export function isDue(bucket: number, day: number, policy: IntervalPolicy = powersOfTwo()): boolean {
+  checkDay(day);
+  const interval = checkInterval(policy(bucket));
+  return interval !== Infinity && day % interval === 0;
+}
+
+/**
+ * Selects the cards to practice on a day.
+ *
+ * @param buckets Array-of-Set representation of buckets.
+ * @param day day number (starting from 0).
+ * @param policy intervals of the buckets; default powersOfTwo().
+ * @returns the cards in every bucket that is due on day.
+ * @throws Error if day is not a nonnegative integer or the policy returns an invalid interval.
+ */
+export function dueCards(
+  buckets: Array<Set<Flashcard>>,
+  day: number,
+  policy: IntervalPolicy = powersOfTwo()
+): Set<Flashcard> {
+  checkDay(day);
+  const result = new Set<Flashcard>();
+  buckets.forEach((bucket, i) => {
+    if (bucket.size > 0 && isDue(i, day, policy)) {
+      for (const card of bucket) {
+        result.add(card);
+      }
+    }
+  });
+  return result;
+}
+
+/**
+ * Previews which cards come due over the coming days, assuming no card changes bucket.
+ *
+ * @param buckets Array-of-Set representation of buckets.
+ * @param startDay first day to preview.
+ * @param days number of days to preview; a nonnegative integer.
+ * @param policy intervals of the buckets; default powersOfTwo().
+ * @returns one entry per day from startDay to startDay + days - 1, including days with no cards due.
+ * @throws Error if startDay or days is not a nonnegative integer or the policy returns an invalid interval.
+ */
+export function previewSchedule(
+  buckets: Array<Set<Flashcard>>,
+  startDay: number,
+  days: number,
+  policy: IntervalPolicy = powersOfTwo()
+): ScheduledDay[] {
+  checkDay(startDay);
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error(`days must be a nonnegative integer, got ${days}`);
+  }
+  const preview: ScheduledDay[] = [];
+  for (let day = startDay; day < startDay + days; day++) {
+    preview.push({ day, cards: dueCards(buckets, day, policy) });
+  }
+  return preview;
+}
@@ -0,0 +1,349 @@
+/**
+ * Problem Set 1: Flashcards - Per-Card Schedulers
+ *
+ * Alternatives to Leitner buckets that keep a state per card and compute each card's next due
+ * day from it: SM-2 (the SuperMemo ease-factor algorithm) and an FSRS-like memory model
+ * (Free Spaced Repetition Scheduler, which tracks how stable each memory is). All schedulers
+ * share the Scheduler interface and the CardState type, so a deck can switch between them.
+ */
+
+import { Flashcard, AnswerDifficulty, BucketMap } from "./flashcards";
+import { IntervalPolicy, powersOfTwo } from "./schedule";
+
+/**
+ * What a scheduler knows about one card. Every scheduler reads and updates the fields it
+ * needs and carries the others along unchanged.
+ */
+export type CardState = {
+  /** Day on which the card is next due; Infinity if it is retired. */
+  due: number;
+  /** Days from the last review to due. */
+  interval: number;
+  /** Day of the last review, or undefined if the card was never reviewed. */
+  lastReview: number | undefined;
+  /** Reviews in a row not answered Wrong. */
+  repetitions: number;
+  /** Reviews answered Wrong after the card was first learned. */
+  lapses: number;
+  /** Leitner bucket. */
+  bucket: number;
+  /** SM-2 ease factor, at least MIN_EASE: how fast the interval grows. */
+  ease: number;
+  /** FSRS stability: days until the chance of recalling the card drops to 90%. */
+  stability: number;
+  /** FSRS difficulty, from 1 (easiest) to 10. */
+  difficulty: number;
+};
+
+/** Cards of a deck with their scheduling state. */
+export type ScheduledDeck = Map<Flashcard, CardState>;
+
+/**
+ * A learning model that schedules each card from its own state.
+ */
+export interface Scheduler {
+  /** Name of the model, for display. */
+  readonly name: string;
+
+  /**
+   * @param day day the card is added.
+   * @returns the state of a new card, due on day.
+   */
+  initialState(day: number): CardState;
+
+  /**
+   * @param state state of the card before the review.
+   * @param difficulty how well the user did on the card.
+   * @param day day of the review; at least state.lastReview.
+   * @returns the state after the review; state itself is not modified.
+   */
+  review(state: CardState, difficulty: AnswerDifficulty, day: number): CardState;
+}
+
+/** Smallest SM-2 ease factor. */
+export const MIN_EASE = 1.3;
+
+/** Ease factor of a new card in SM-2. */
+export const INITIAL_EASE = 2.5;
+
+/** Default weights of the FSRS (version 4) model, w0 to w16. */
+export const FSRS_WEIGHTS: ReadonlyArray<number> = [
+  0.4, 0.6, 2.4, 5.8, 4.93, 0.94, 0.86, 0.01, 1.49, 0.14, 0.94, 2.18, 0.05, 0.34, 1.26, 0.29, 2.61,
+];
+
+function checkDay(day: number): void {
+  if (!Number.isInteger(day) || day < 0) {
+    throw new Error(`day must be a nonnegative integer, got ${day}`);
+  }
+}
+
+function newCard(day: number): CardState {
+  checkDay(day);
+  return {
+    due: day,
+    interval: 0,
+    lastReview: undefined,
+    repetitions: 0,
+    lapses: 0,
+    bucket: 0,
+    ease: INITIAL_EASE,
+    stability: 0,
+    difficulty: 0,
+  };
+}
+
+/** Common bookkeeping of a review: counts repetitions and lapses and sets the next due day. */
+function reviewed(state: CardState, difficulty: AnswerDifficulty, day: number, interval: number): CardState {
+  checkDay(day);
+  const wrong = difficulty === AnswerDifficulty.Wrong;
+  return {
+    ...state,
+    due: day + interval,
+    interval,
+    lastReview: day,
+    repetitions: wrong ? 0 : state.repetitions + 1,
+    lapses: wrong && state.lastReview !== undefined ? state.lapses + 1 : state.lapses,
+  };
+}
+
+/**
+ * The Leitner system as a per-card scheduler: Wrong moves the card to bucket 0, Hard keeps it
+ * in its bucket and Easy moves it up one, and the card is next due on the next day on which
+ * its bucket is practiced (see schedule.ts).
+ */
+export class LeitnerScheduler implements Scheduler {
+  public readonly name = "Leitner";
+
+  // Abstraction function:
+  //   AF(policy) = the Leitner system in which bucket i is practiced on the days divisible by policy(i)
+  // Representation invariant:
+  //   true
+  // Safety from rep exposure:
+  //   policy is private and readonly, and functions are immutable
+
+  /**
+   * @param policy intervals of the buckets; default powersOfTwo().
+   */
+  constructor(private readonly policy: IntervalPolicy = powersOfTwo()) {}
+
+  initialState(day: number): CardState {
+    return newCard(day);
+  }
+
+  review(state: CardState, difficulty: AnswerDifficulty, day: number): CardState {
+    let bucket = state.bucket;
+    if (difficulty === AnswerDifficulty.Wrong) {
+      bucket = 0;
+    } else if (difficulty === AnswerDifficulty.Easy) {
+      bucket++;
+    }
+    const period = this.policy(bucket);
+    const next = period === Infinity ? Infinity : (Math.floor(day / period) + 1) * period;
+    return { ...reviewed(state, difficulty, day, next - day), bucket };
+  }
+}
+
+/**
+ * SM-2: each card has an ease factor that grows when it is answered easily and shrinks when it
+ * is hard. After a correct answer the interval goes 1 day, 6 days, then the previous interval
+ * times the ease; a wrong answer starts over at 1 day.
+ * Answers map to SM-2 grades Wrong = 1, Hard = 3, Easy = 5.
+ */
+export class SM2Scheduler implements Scheduler {
+  public readonly name = "SM-2";
+
+  initialState(day: number): CardState {
+    return newCard(day);
+  }
+
+  review(state: CardState, difficulty: AnswerDifficulty, day: number): CardState {
+    const quality = difficulty === AnswerDifficulty.Wrong ? 1 : difficulty === AnswerDifficulty.Hard ? 3 : 5;
+    const ease = Math.max(MIN_EASE, state.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+    let interval: number;
+    if (difficulty === AnswerDifficulty.Wrong || state.repetitions === 0) {
+      interval = 1;
+    } else if (state.repetitions === 1) {
+      interval = 6;
+    } else {
+      interval = Math.round(state.interval * ease);
+    }
+    return { ...reviewed(state, difficulty, day, interval), ease };
+  }
+}
+
+/**
+ * An FSRS-like scheduler: each card has a memory stability S and a difficulty D. The chance of
+ * recalling a card t days after its last review is R = 1 / (1 + t / (9 S)); a successful review
+ * increases S, more so for easy cards and for reviews at low R, and a failed one shrinks it.
+ * The next review is scheduled for when R falls to the requested retention.
+ * Answers map to FSRS grades Wrong = Again, Hard = Hard, Easy = Good.
+ */
+export class FSRSScheduler implements Scheduler {
+  public readonly name = "FSRS";
+
+  // Abstraction function:
+  //   AF(retention, w) = the FSRS model with weights w that schedules reviews for when the chance
+  //                      of recall falls to retention
+  // Representation invariant:
+  //   0 < retention < 1, and w has 17 entries
+  // Safety from rep exposure:
+  //   all fields are private and readonly, and w is a copy
+
+  private readonly w: number[];
+
+  /**
+   * @param retention chance of recall at which reviews are scheduled; default 0.9.
+   * @param weights model weights w0 to w16; default FSRS_WEIGHTS.
+   * @throws Error if retention is not strictly between 0 and 1 or there are not 17 weights.
+   */
+  constructor(
+    private readonly retention: number = 0.9,
+    weights: ReadonlyArray<number> = FSRS_WEIGHTS
+  ) {
+    if (!(retention > 0 && retention < 1)) {
+      throw new Error(`retention must be between 0 and 1, got ${retention}`);
+    }
+    if (weights.length !== FSRS_WEIGHTS.length) {
+      throw new Error(`FSRS needs ${FSRS_WEIGHTS.length} weights, got ${weights.length}`);
+    }
+    this.w = [...weights];
+  }
+
+  private weight(i: number): number {
+    return this.w[i]!;
+  }
+
+  /** Difficulty of a new card after its first grade. */
+  private initialDifficulty(grade: number): number {
+    return clamp(this.weight(4) - (grade - 3) * this.weight(5), 1, 10);
+  }
+
+  /**
+   * @param state state of a card.
+   * @param day a day at or after the card's last review.
+   * @returns the chance of recalling the card on day, or 1 for a card never reviewed.
+   */
+  retrievability(state: CardState, day: number): number {
+    if (state.lastReview === undefined || state.stability <= 0) {
+      return 1;
+    }
+    return 1 / (1 + Math.max(0, day - state.lastReview) / (9 * state.stability));
+  }
+
+  initialState(day: number): CardState {
+    return newCard(day);
+  }
+
+  review(state: CardState, difficulty: AnswerDifficulty, day: number): CardState {
+    const grade = difficulty === AnswerDifficulty.Wrong ? 1 : difficulty === AnswerDifficulty.Hard ? 2 : 3;
+    let stability: number;
+    let cardDifficulty: number;
+    if (state.lastReview === undefined) {
+      stability = this.weight(grade - 1);
+      cardDifficulty = this.initialDifficulty(grade);
+    } else {
+      const r = this.retrievability(state, day);
+      const d = state.difficulty;
+      const s = state.stability;
+      if (difficulty === AnswerDifficulty.Wrong) {
+        stability =
+          this.weight(11) *
+          Math.pow(d, -this.weight(12)) *
+          (Math.pow(s + 1, this.weight(13)) - 1) *
+          Math.exp(this.weight(14) * (1 - r));
+        stability = Math.min(stability, s);
+      } else {
+        const hardPenalty = difficulty === AnswerDifficulty.Hard ? this.weight(15) : 1;
+        stability =
+          s *
+          (1 +
+            Math.exp(this.weight(8)) *
+              (11 - d) *
+              Math.pow(s, -this.weight(9)) *
+              (Math.exp(this.weight(10) * (1 - r)) - 1) *
+              hardPenalty);
+      }
+      // Difficulty moves with the grade, and slowly reverts to that of a new card graded Good
+      const updated = d - this.weight(6) * (grade - 3);
+      cardDifficulty = clamp(this.weight(7) * this.initialDifficulty(3) + (1 - this.weight(7)) * updated, 1, 10);
+    }
+    const interval = Math.max(1, Math.round(9 * stability * (1 / this.retention - 1)));
+    return { ...reviewed(state, difficulty, day, interval), stability, difficulty: cardDifficulty };
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Seeds per-card state from Leitner buckets, so a deck can move to another scheduler without
+ * losing progress. A card in bucket i is treated as having been answered correctly i times in a
+ * row, with a current interval of 2^i days that ends on the next day its bucket is practiced
+ * (today, if it is practiced today); its FSRS stability is that interval and its difficulty that
+ * of a new card answered Good.
+ *
+ * @param buckets Map representation of learning buckets.
+ * @param day current day number.
+ * @returns the state of every card in buckets.
+ * @throws Error if day is not a nonnegative integer.
+ * @spec.requires buckets is a valid representation of flashcard buckets.
+ */
+export function seedFromBuckets(buckets: BucketMap, day: number): ScheduledDeck {
+  checkDay(day);
+  const deck: ScheduledDeck = new Map();
+  for (const [bucket, cards] of buckets) {
+    const interval = 2 ** bucket;
+    const due = Math.ceil(day / interval) * interval;
+    for (const card of cards) {
+      deck.set(card, {
+        due,
+        interval,
+        lastReview: due - interval,
+        repetitions: bucket,
+        lapses: 0,
+        bucket,
+        ease: INITIAL_EASE,
+        stability: interval,
+        difficulty: FSRS_WEIGHTS[4]!,
+      });
+    }
+  }
+  return deck;
+}
+
+/**
+ * Selects the cards due on a day.
+ *
+ * @param deck cards with their state.
+ * @param day day number.
+ * @returns the cards due on or before day, most overdue first.
+ */
+export function dueOn(deck: ScheduledDeck, day: number): Flashcard[] {
+  return [...deck.entries()]
+    .filter(([, state]) => state.due <= day)
+    .sort(([, a], [, b]) => a.due - b.due)
+    .map(([card]) => card);
+}
+
+/**
+ * Records a review of one card.
+ *
+ * @param deck cards with their state.
+ * @param scheduler learning model.
+ * @param card card that was practiced; if it is not in deck, it is added as a new card first.
+ * @param difficulty how well the user did on the card.
+ * @param day day of the review.
+ * @returns a new deck with the card's state updated; deck itself is not modified.
+ */
+export function reviewCard(
+  deck: ScheduledDeck,
+  scheduler: Scheduler,
+  card: Flashcard,
+  difficulty: AnswerDifficulty,
+  day: number
+): ScheduledDeck {
+  const updated = new Map(deck);
+  updated.set(card, scheduler.review(deck.get(card) ?? scheduler.initialState(day), difficulty, day));
+  return updated;
+}
@@ -0,0 +1,231 @@
+/**
+ * Problem Set 1: Flashcards - Study Sessions
+ *
+ * Runs one day's practice: picks the due cards, orders them into a queue, collects the answers
+ * with their timing, and produces the updated buckets at the end.
+ */
+
+import { Flashcard, AnswerDifficulty, BucketMap } from "./flashcards";
+import { toBucketSets, practice, update } from "./algorithm";
+import { AnswerHistory, HistoryEntry } from "./deck";
+import { GradingOptions, GradeResult, gradeAnswer } from "./grading";
+
+/**
+ * One answer given during a session. It is a HistoryEntry, so session histories can be passed
+ * to computeProgress() and saved with serializeDeck().
+ */
+export type SessionEntry = HistoryEntry & {
+  /** Milliseconds from when the card was shown to when it was answered. */
+  responseTime: number;
+};
+
+export type SessionOptions = {
+  /** Most new cards (never answered before) to show; default 20. */
+  newCardLimit?: number;
+  /** Most review cards (answered before) to show; default 100. */
+  reviewLimit?: number;
+  /** Whether to spread new cards evenly among the reviews instead of showing them after all reviews; default true. */
+  interleave?: boolean;
+  /** A card answered Wrong comes back after this many other cards (or last, if fewer remain); default 3. */
+  requeueGap?: number;
+  /** Earlier answers, used to tell new cards from review cards; default none, so every card in bucket 0 is new. */
+  history?: AnswerHistory;
+  /** Current time in milliseconds, for timestamps; default Date.now. */
+  clock?: () => number;
+};
+
+/**
+ * A mutable study session for one day.
+ *
+ * Only the first answer to a card moves it between buckets, as in update(). A card answered
+ * Wrong is shown again later in the session until it is answered Hard or Easy; those later
+ * answers are recorded in the history but do not move the card out of bucket 0.
+ */
+export class StudySession {
+  // Abstraction function:
+  //   AF(buckets, queue, shownAt, entries, answered, finished) =
+  //     a session whose learner's buckets are now `buckets`, who will be shown the cards of `queue`
+  //     in order (queue[0] shown since time shownAt, if defined), who has given the answers in
+  //     `entries`, in order, to the cards in `answered`, and which has ended iff finished
+  // Representation invariant:
+  //   every card of queue is in some bucket of buckets;
+  //   answered is the set of cards of entries;
+  //   shownAt is undefined if queue is empty;
+  //   queue is empty if finished
+  // Safety from rep exposure:
+  //   all fields are private; buckets is a copy of the caller's map, and the maps, sets and arrays
+  //   returned by finish() and getHistory() are copies; Flashcards are immutable
+
+  private buckets: BucketMap;
+  private readonly queue: Flashcard[];
+  private shownAt: number | undefined = undefined;
+  private readonly entries: SessionEntry[] = [];
+  private readonly answered = new Set<Flashcard>();
+  private finished = false;
+  private readonly requeueGap: number;
+  private readonly clock: () => number;
+
+  /**
+   * Starts a session with the cards due on a day, according to practice().
+   *
+   * @param buckets Map representation of learning buckets; not modified.
+   * @param day current day number (starting from 0).
+   * @param options limits, ordering and clock.
+   * @throws Error if a limit or requeueGap is not a nonnegative integer.
+   * @spec.requires buckets is a valid representation of flashcard buckets.
+   */
+  constructor(buckets: BucketMap, day: number, options: SessionOptions = {}) {
+    const newCardLimit = checkCount("newCardLimit", options.newCardLimit ?? 20);
+    const reviewLimit = checkCount("reviewLimit", options.reviewLimit ?? 100);
+    this.requeueGap = checkCount("requeueGap", options.requeueGap ?? 3);
+    this.clock = options.clock ?? Date.now;
+    this.buckets = new Map([...buckets].map(([bucket, cards]) => [bucket, new Set(cards)]));
+
+    const seen = new Set((options.history ?? []).map((entry) => entry.card));
+    const due = practice(toBucketSets(this.buckets), day);
+    const bucketOf = new Map<Flashcard, number>();
+    for (const [bucket, cards] of this.buckets) {
+      for (const card of cards) {
+        bucketOf.set(card, bucket);
+      }
+    }
+    // Weakest reviews first; new cards in deck order
+    const isNew = (card: Flashcard): boolean => bucketOf.get(card) === 0 && !seen.has(card);
+    const newCards = [...due].filter(isNew).slice(0, newCardLimit);
+    const reviews = [...due]
+      .filter((card) => !isNew(card))
+      .sort((a, b) => bucketOf.get(a)! - bucketOf.get(b)!)
+      .slice(0, reviewLimit);
+    this.queue = options.interleave ?? true ? interleave(reviews, newCards) : [...reviews, ...newCards];
+    this.checkRep();
+  }
+
+  private checkRep(): void {
+    if (this.shownAt !== undefined && this.queue.length === 0) {
+      throw new Error("shown time without a card");
+    }
+    if (this.finished && this.queue.length > 0) {
+      throw new Error("finished session with cards left");
+    }
+  }
+
+  /**
+   * Shows the next card. The time it is first shown starts its response time.
+   *
+   * @returns the card to practice now, or undefined if the session is over.
+   */
+  currentCard(): Flashcard | undefined {
+    const card = this.queue[0];
+    if (card !== undefined && this.shownAt === undefined) {
+      this.shownAt = this.clock();
+    }
+    return card;
+  }
+
+  /**
+   * Records the answer to the current card and moves on to the next one.
+   *
+   * @param difficulty how well the user did on the current card.
+   * @returns the entry recorded for the answer.
+   * @throws Error if there is no current card.
+   */
+  answer(difficulty: AnswerDifficulty): SessionEntry {
+    return this.record(difficulty, this.clock());
+  }
+
+  /**
+   * Grades a typed response to the current card with gradeAnswer(), using the time since the
+   * card was shown as the response time, and records the resulting difficulty like answer().
+   *
+   * @param response what the user typed.
+   * @param options grading options.
+   * @returns the grade, including the difficulty recorded.
+   * @throws Error if there is no current card.
+   */
+  answerTyped(response: string, options: GradingOptions = {}): GradeResult {
+    const card = this.queue[0];
+    if (card === undefined) {
+      throw new Error(this.finished ? "session is finished" : "no card to answer");
+    }
+    const timestamp = this.clock();
+    const grade = gradeAnswer(card, response, Math.max(0, timestamp - (this.shownAt ?? timestamp)), options);
+    this.record(grade.difficulty, timestamp);
+    return grade;
+  }
+
+  /** Records an answer to the current card given at timestamp, and moves on to the next card. */
+  private record(difficulty: AnswerDifficulty, timestamp: number): SessionEntry {
+    const card = this.queue.shift();
+    if (card === undefined) {
+      throw new Error(this.finished ? "session is finished" : "no card to answer");
+    }
+    const entry: SessionEntry = {
+      card,
+      difficulty,
+      timestamp,
+      responseTime: Math.max(0, timestamp - (this.shownAt ?? timestamp)),
+    };
+    this.shownAt = undefined;
+    this.entries.push(entry);
+    if (!this.answered.has(card)) {
+      this.answered.add(card);
+      this.buckets = update(this.buckets, card, difficulty);
+    }
+    if (difficulty === AnswerDifficulty.Wrong) {
+      this.queue.splice(Math.min(this.requeueGap, this.queue.length), 0, card);
+    }
+    this.checkRep();
+    return { ...entry };
+  }
+
+  /**
+   * @returns number of cards still to be shown, counting a re-queued card once per showing.
+   */
+  remaining(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * @returns every answer given so far, oldest first.
+   */
+  getHistory(): SessionEntry[] {
+    return this.entries.map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Ends the session; cards not answered stay in their buckets.
+   *
+   * @returns the learner's buckets after the session.
+   */
+  finish(): BucketMap {
+    this.finished = true;
+    this.queue.length = 0;
+    this.shownAt = undefined;
+    this.checkRep();
+    return new Map([...this.buckets].map(([bucket, cards]) => [bucket, new Set(cards)]));
+  }
+}
+
+function checkCount(name: string, value: number): number {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a nonnegative integer, got ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Spreads the inserted cards evenly through the base cards.
+ *
+ * @returns every card of base and inserted, each list keeping its order.
+ */
+function interleave(base: Flashcard[], inserted: Flashcard[]): Flashcard[] {
+  const result: Flashcard[] = [];
+  let next = 0;
+  inserted.forEach((card, i) => {
+    const until = Math.floor(((i + 1) * base.length) / (inserted.length + 1));
+    result.push(...base.slice(next, until), card);
+    next = until;
+  });
+  result.push(...base.slice(next));
+  return result;
+}
@@ -0,0 +1,200 @@
+import assert from "assert";
+import { AnswerDifficulty, Flashcard, BucketMap } from "../src/flashcards";
+import {
+  Deck,
+  DeckFormatError,
+  DECK_FORMAT_VERSION,
+  cardsOf,
+  serializeDeck,
+  parseDeck,
+  exportCSV,
+  importCSV,
+  exportAnkiTSV,
+  importAnkiTSV,
+} from "../src/deck";
+
+/** Compares cards by content, since parsing creates new Flashcard objects. */
+function contents(cards: Iterable<Flashcard>): Array<[string, string, string, string[]]> {
+  return [...cards].map((card) => [card.front, card.back, card.hint, [...card.tags]]);
+}
+
+function bucketContents(buckets: BucketMap): Array<[number, Array<[string, string, string, string[]]>]> {
+  return [...buckets.keys()].sort((a, b) => a - b).map((bucket) => [bucket, contents(buckets.get(bucket) ?? [])]);
+}
+
+/*
+ * Testing strategy for serializeDeck() and parseDeck():
+ * - Partition on buckets: empty, one bucket, several buckets with gaps
+ * - Partition on history: empty, cards in buckets, cards only in the history
+ * - Partition on version: current, version 1 (migrated), unsupported
+ * - Partition on validity: valid, not JSON, schema violations, card in two buckets
+ */
+describe("serializeDeck() and parseDeck()", () => {
+  it("should round-trip an empty deck", () => {
+    const text = serializeDeck({ buckets: new Map(), history: [] });
+    assert.strictEqual(JSON.parse(text).version, DECK_FORMAT_VERSION);
+    const deck = parseDeck(text);
+    assert.strictEqual(deck.buckets.size, 0);
+    assert.deepStrictEqual(deck.history, []);
+  });
+
+  it("should round-trip buckets and history, keeping card identity", () => {
+    const card1 = new Flashcard("Q1", "A1", "H1", ["verbs"]);
+    const card2 = new Flashcard("Q2", "A2", "", []);
+    const retired = new Flashcard("Q3", "A3", "H3", ["old", "lang::spanish"]);
+    const deck: Deck = {
+      buckets: new Map([
+        [0, new Set([card1])],
+        [3, new Set([card2])],
+      ]),
+      history: [
+        { card: card1, difficulty: AnswerDifficulty.Wrong, timestamp: 1000 },
+        { card: retired, difficulty: AnswerDifficulty.Easy, timestamp: 2000 },
+        { card: card1, difficulty: AnswerDifficulty.Hard, timestamp: 3000 },
+      ],
+    };
+    const loaded = parseDeck(serializeDeck(deck));
+    assert.deepStrictEqual(bucketContents(loaded.buckets), bucketContents(deck.buckets));
+    assert.deepStrictEqual(
+      loaded.history.map((entry) => [entry.card.front, entry.difficulty, entry.timestamp]),
+      [
+        ["Q1", AnswerDifficulty.Wrong, 1000],
+        ["Q3", AnswerDifficulty.Easy, 2000],
+        ["Q1", AnswerDifficulty.Hard, 3000],
+      ]
+    );
+    const [loadedCard1] = [...(loaded.buckets.get(0) ?? [])];
+    assert.strictEqual(loaded.history[0]?.card, loadedCard1);
+    assert.strictEqual(loaded.history[2]?.card, loadedCard1);
+    assert.deepStrictEqual(contents([loaded.history[1]!.card]), contents([retired]));
+  });
+
+  it("should migrate version 1 decks", () => {
+    const v1 = JSON.stringify({
+      version: 1,
+      buckets: [
+        [{ front: "Q1", back: "A1", hint: "", tags: [] }],
+        [],
+        [{ front: "Q2", back: "A2", hint: "H", tags: ["t"] }],
+      ],
+    });
+    const deck = parseDeck(v1);
+    assert.deepStrictEqual(bucketContents(deck.buckets), [
+      [0, [["Q1", "A1", "", []]]],
+      [2, [["Q2", "A2", "H", ["t"]]]],
+    ]);
+    assert.deepStrictEqual(deck.history, []);
+  });
+
+  it("should reject malformed decks with the offending field", () => {
+    const valid = { version: 2, cards: [{ front: "Q", back: "A", hint: "", tags: [] }], history: [] };
+    const cases: Array<[unknown, RegExp]> = [
+      [{ ...valid, version: 7 }, /unsupported deck version 7/],
+      [{ ...valid, cards: [{ front: "Q", back: 5, hint: "", tags: [] }] }, /cards\[0\]\.back must be a string/],
+      [{ ...valid, cards: [{ front: "Q", back: "A", hint: "", tags: [], bucket: -1 }] }, /cards\[0\]\.bucket/],
+      [{ ...valid, history: [{ card: 1, difficulty: "Easy", timestamp: 0 }] }, /history\[0\]\.card/],
+      [{ ...valid, history: [{ card: 0, difficulty: "Medium", timestamp: 0 }] }, /history\[0\]\.difficulty/],
+      [{ version: 1, buckets: [{}] }, /buckets\[0\] must be an array/],
+    ];
+    for (const [data, message] of cases) {
+      assert.throws(
+        () => parseDeck(JSON.stringify(data)),
+        (e: unknown) => e instanceof DeckFormatError && message.test(e.message)
+      );
+    }
+    assert.throws(() => parseDeck("{"), DeckFormatError);
+  });
+
+  it("should refuse to save a card that is in two buckets", () => {
+    const card = new Flashcard("Q", "A", "", []);
+    const buckets = new Map([
+      [0, new Set([card])],
+      [1, new Set([card])],
+    ]);
+    assert.throws(() => serializeDeck({ buckets, history: [] }), /more than one bucket/);
+  });
+});
+
+/*
+ * Testing strategy for cardsOf():
+ * - Partition on buckets: empty, out of order
+ */
+describe("cardsOf()", () => {
+  it("should list cards lowest bucket first", () => {
+    const card1 = new Flashcard("Q1", "A1", "", []);
+    const card2 = new Flashcard("Q2", "A2", "", []);
+    assert.deepStrictEqual(cardsOf(new Map()), []);
+    assert.deepStrictEqual(
+      cardsOf(
+        new Map([
+          [2, new Set([card2])],
+          [0, new Set([card1])],
+        ])
+      ),
+      [card1, card2]
+    );
+  });
+});
+
+/*
+ * Testing strategy for exportCSV(), importCSV(), exportAnkiTSV() and importAnkiTSV():
+ * - Partition on field content: plain, containing delimiter, quotes or line breaks
+ * - Partition on columns: all four, front and back only, too few, too many
+ * - Partition on header: present, absent; Anki headers followed by a front starting with "#"
+ * - Partition on validity: valid, unclosed quote, text after closing quote, empty front
+ */
+describe("CSV and Anki TSV", () => {
+  const tricky = [
+    new Flashcard("hello, world", 'say "hi"', "", ["greetings", "lang::english"]),
+    new Flashcard("multi\nline", "tab\there", "hint", []),
+  ];
+
+  it("should round-trip tricky fields through CSV", () => {
+    const csv = exportCSV(tricky);
+    assert.ok(csv.startsWith("front,back,hint,tags\n"));
+    assert.deepStrictEqual(contents(importCSV(csv)), contents(tricky));
+  });
+
+  it("should round-trip tricky fields through Anki TSV", () => {
+    const tsv = exportAnkiTSV(tricky);
+    assert.ok(tsv.startsWith("#separator:tab\n"));
+    assert.deepStrictEqual(contents(importAnkiTSV(tsv)), contents(tricky));
+  });
+
+  it("should keep a first card whose front starts with # through Anki TSV", () => {
+    const cards = [new Flashcard("#hashtag", "a tag", "", []), new Flashcard("#2", "two", "", ["x"])];
+    const tsv = exportAnkiTSV(cards);
+    assert.ok(tsv.includes('\n"#hashtag"\t'));
+    assert.deepStrictEqual(contents(importAnkiTSV(tsv)), contents(cards));
+    assert.deepStrictEqual(contents(importAnkiTSV("#html:false\n\"#note: x\"\tA\n")), [["#note: x", "A", "", []]]);
+  });
+
+  it("should read CSV without a header or optional columns", () => {
+    assert.deepStrictEqual(contents(importCSV("Q1,A1\r\n\r\nQ2,A2,H2,a b\r\n")), [
+      ["Q1", "A1", "", []],
+      ["Q2", "A2", "H2", ["a", "b"]],
+    ]);
+  });
+
+  it("should report malformed rows with their line numbers", () => {
+    const cases: Array<[string, RegExp]> = [
+      ["front,back\nQ1,A1\nQ2\n", /^line 3: expected 2 to 4 fields/],
+      ["Q1,A1\nQ2,A2,H,t,extra\n", /^line 2: expected 2 to 4 fields/],
+      ['Q1,"multi\nline"\nQ2,"unclosed\n', /^line 3: quoted field is not closed/],
+      ['Q1,"A1"x\n', /^line 1: unexpected text after a quoted field/],
+      ['Q0,A0\nQ1,"multi\nline"x\n', /^line 2: unexpected text after a quoted field/],
+      ["Q1,A1\n ,A2\n", /^line 2: front is empty/],
+    ];
+    for (const [csv, message] of cases) {
+      assert.throws(
+        () => importCSV(csv),
+        (e: unknown) => e instanceof DeckFormatError && message.test(e.message) && e.line !== undefined
+      );
+    }
+    assert.throws(() => importAnkiTSV("#separator:tab\nQ1\n"), /^DeckFormatError: line 2/);
+    assert.throws(
+      () => importAnkiTSV('#separator:tab\nQ1\tA1\n"multi\nline"\tA\tH\tt\textra\n'),
+      /^DeckFormatError: line 3/
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import assert from "assert";
+import { AnswerDifficulty, Flashcard } from "../src/flashcards";
+import {
+  normalizeAnswer,
+  levenshtein,
+  acceptedAnswers,
+  checkAnswer,
+  toDifficulty,
+  gradeAnswer,
+} from "../src/grading";
+
+function card(back: string): Flashcard {
+  return new Flashcard("front", back, "", []);
+}
+
+/*
+ * Testing strategy for normalizeAnswer():
+ * - Partition on text: plain, mixed case, accented, punctuation, extra whitespace
+ * - Partition on options: default, caseSensitive, accentSensitive
+ */
+describe("normalizeAnswer()", () => {
+  it("should ignore case, accents, punctuation and spacing by default", () => {
+    assert.strictEqual(normalizeAnswer("  Crème   Brûlée! "), "creme brulee");
+    assert.strictEqual(normalizeAnswer("rock-and-roll"), "rock and roll");
+    assert.strictEqual(normalizeAnswer("plain"), "plain");
+  });
+
+  it("should keep case or accents when asked", () => {
+    assert.strictEqual(normalizeAnswer("Café", { caseSensitive: true }), "Cafe");
+    assert.strictEqual(normalizeAnswer("Café", { accentSensitive: true }), "café");
+  });
+});
+
+/*
+ * Testing strategy for levenshtein():
+ * - Partition on strings: equal, one empty, insertions, deletions, substitutions
+ * - Partition on characters: ASCII, outside the Basic Multilingual Plane
+ */
+describe("levenshtein()", () => {
+  it("should count edits", () => {
+    assert.strictEqual(levenshtein("kitten", "kitten"), 0);
+    assert.strictEqual(levenshtein("", "abc"), 3);
+    assert.strictEqual(levenshtein("kitten", "sitting"), 3);
+    assert.strictEqual(levenshtein("flaw", "law"), 1);
+  });
+
+  it("should count a character outside the BMP once", () => {
+    assert.strictEqual(levenshtein("a😀b", "ab"), 1);
+  });
+});
+
+/*
+ * Testing strategy for acceptedAnswers():
+ * - Partition on back: one answer, several answers, empty alternatives
+ * - Partition on delimiter: default, custom, empty
+ */
+describe("acceptedAnswers()", () => {
+  it("should split on the delimiter and drop empty alternatives", () => {
+    assert.deepStrictEqual(acceptedAnswers("dog"), ["dog"]);
+    assert.deepStrictEqual(acceptedAnswers(" dog ; hound ;; "), ["dog", "hound"]);
+    assert.deepStrictEqual(acceptedAnswers("dog|hound", "|"), ["dog", "hound"]);
+    assert.deepStrictEqual(acceptedAnswers(";"), [";"]);
+  });
+
+  it("should reject an empty delimiter", () => {
+    assert.throws(() => acceptedAnswers("cat", ""), /delimiter/);
+    assert.throws(() => checkAnswer(card("cat"), "t", { delimiter: "" }), /delimiter/);
+  });
+});
+
+/*
+ * Testing strategy for checkAnswer():
+ * - Partition on match: exact after normalization, within the typo allowance, beyond it, empty response
+ * - Partition on accepted answers: one, several (best one chosen)
+ * - Partition on numbers: equal, within tolerance, outside tolerance, number vs text
+ * - Partition on answer: words, only symbols
+ * - Partition on options: default, invalid
+ */
+describe("checkAnswer()", () => {
+  it("should accept answers that differ only in unimportant ways", () => {
+    assert.deepStrictEqual(checkAnswer(card("The Eiffel Tower"), "the eiffel tower."), {
+      quality: "exact",
+      expected: "The Eiffel Tower",
+      distance: 0,
+    });
+  });
+
+  it("should allow a few typos in proportion to the answer's length", () => {
+    assert.strictEqual(checkAnswer(card("photosynthesis"), "fotosynthesis").quality, "close");
+    assert.strictEqual(checkAnswer(card("cat"), "cot").quality, "wrong");
+    assert.strictEqual(checkAnswer(card("photosynthesis"), "").quality, "wrong");
+    assert.strictEqual(checkAnswer(card("photosynthesis"), "fotosynthesis", { typoRate: 0 }).quality, "wrong");
+  });
+
+  it("should pick the best of several accepted answers", () => {
+    const result = checkAnswer(card("automobile; car"), "cars");
+    assert.strictEqual(result.expected, "car");
+    assert.strictEqual(result.quality, "wrong");
+    assert.deepStrictEqual(checkAnswer(card("automobile; car"), "car"), {
+      quality: "exact",
+      expected: "car",
+      distance: 0,
+    });
+    assert.strictEqual(checkAnswer(card("automobile; car"), "automobil").quality, "close");
+  });
+
+  it("should compare numbers with a tolerance", () => {
+    assert.strictEqual(checkAnswer(card("3.14"), "3.140").quality, "exact");
+    assert.strictEqual(checkAnswer(card("3.14"), "3.15").quality, "wrong");
+    assert.strictEqual(checkAnswer(card("3.14"), "3.15", { numericTolerance: 0.02 }).quality, "exact");
+    assert.strictEqual(checkAnswer(card("1e3"), "1000").quality, "exact");
+    assert.strictEqual(checkAnswer(card("3.14; pi"), "pi").quality, "exact");
+  });
+
+  it("should compare answers made only of symbols as written", () => {
+    assert.strictEqual(checkAnswer(card("+"), "+").quality, "exact");
+    assert.strictEqual(checkAnswer(card("+"), "-").quality, "wrong");
+  });
+
+  it("should reject negative tolerances", () => {
+    assert.throws(() => checkAnswer(card("x"), "x", { typoRate: -1 }), /nonnegative/);
+    assert.throws(() => checkAnswer(card("x"), "x", { numericTolerance: -1 }), /nonnegative/);
+  });
+});
+
+/*
+ * Testing strategy for toDifficulty() and gradeAnswer():
+ * - Partition on quality: exact, close, wrong
+ * - Partition on response time: at most, above slowResponseMs
+ */
+describe("toDifficulty()", () => {
+  it("should map match quality and response time to a difficulty", () => {
+    assert.strictEqual(toDifficulty("exact", 10000), AnswerDifficulty.Easy);
+    assert.strictEqual(toDifficulty("exact", 10001), AnswerDifficulty.Hard);
+    assert.strictEqual(toDifficulty("exact", 3000, { slowResponseMs: 2000 }), AnswerDifficulty.Hard);
+    assert.strictEqual(toDifficulty("close", 0), AnswerDifficulty.Hard);
+    assert.strictEqual(toDifficulty("wrong", 0), AnswerDifficulty.Wrong);
+  });
+});
+
+describe("gradeAnswer()", () => {
+  it("should combine the match with its difficulty", () => {
+    assert.deepStrictEqual(gradeAnswer(card("chien"), "Chien", 1000), {
+      quality: "exact",
+      expected: "chien",
+      distance: 0,
+      difficulty: AnswerDifficulty.Easy,
+    });
+    assert.strictEqual(gradeAnswer(card("chien"), "chein", 1000).difficulty, AnswerDifficulty.Wrong);
+  });
+});
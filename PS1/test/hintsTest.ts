@@ -0,0 +1,176 @@
+import assert from "assert";
+import { AnswerDifficulty, Flashcard } from "../src/flashcards";
+import { graphemes, hintAt, hintsFor, penalizeHints, HintEngine } from "../src/hints";
+
+/*
+ * Testing strategy for graphemes():
+ * - Partition on characters: ASCII, combining accents, emoji sequences
+ */
+describe("graphemes()", () => {
+  it("should keep combined characters together", () => {
+    assert.deepStrictEqual(graphemes("abc"), ["a", "b", "c"]);
+    assert.deepStrictEqual(graphemes("été"), ["é", "t", "é"]);
+    assert.deepStrictEqual(graphemes("👍🏽!"), ["👍🏽", "!"]);
+  });
+});
+
+/*
+ * Testing strategy for hintAt():
+ * - Partition on level: card, shape, firstLetter, skeleton, vowelsHidden
+ * - Partition on answer: one word, several words, punctuation, accented vowels, non-Latin, blank
+ * - Partition on options: default, custom mask and word separator
+ */
+describe("hintAt()", () => {
+  const card = new Flashcard("Q", "cat dog", " a pet ", []);
+
+  it("should give each kind of hint", () => {
+    assert.strictEqual(hintAt("card", card), "a pet");
+    assert.strictEqual(hintAt("shape", card), "2 words: 3, 3 letters");
+    assert.strictEqual(hintAt("firstLetter", card), "c__ / ___");
+    assert.strictEqual(hintAt("skeleton", card), "c_t / d_g");
+    assert.strictEqual(hintAt("vowelsHidden", card), "c_t / d_g");
+  });
+
+  it("should keep punctuation and hide accented vowels", () => {
+    const accented = new Flashcard("Q", "café-crème", "", []);
+    assert.strictEqual(hintAt("skeleton", accented), "c___-____e");
+    assert.strictEqual(hintAt("vowelsHidden", accented), "c_f_-cr_m_");
+    assert.strictEqual(hintAt("shape", accented), "1 word: 9 letters");
+  });
+
+  it("should count non-Latin letters by grapheme", () => {
+    const japanese = new Flashcard("Q", "東京 タワー", "", []);
+    assert.strictEqual(hintAt("shape", japanese), "2 words: 2, 3 letters");
+    assert.strictEqual(hintAt("firstLetter", japanese), "東_ / ___");
+  });
+
+  it("should use the given mask and separator", () => {
+    assert.strictEqual(hintAt("skeleton", card, { mask: "*", wordSeparator: "  " }), "c*t  d*g");
+  });
+
+  it("should give nothing for a blank answer", () => {
+    assert.strictEqual(hintAt("shape", new Flashcard("Q", "  ", "", [])), "");
+  });
+});
+
+/*
+ * Testing strategy for hintsFor():
+ * - Partition on card hint: empty, nonempty
+ * - Partition on levels: default, custom
+ * - Partition on repeats: none, a level repeating an earlier one, a level spelling the whole answer
+ * - Partition on answer: one word, several words, only one letter among special characters
+ * - Partition on masked levels: showing letters an earlier level hid, hiding letters an earlier level showed
+ */
+describe("hintsFor()", () => {
+  it("should list hints from least to most revealing", () => {
+    assert.deepStrictEqual(hintsFor(new Flashcard("Q", "elephant", "big", [])), [
+      "big",
+      "1 word: 8 letters",
+      "e_______",
+      "e______t",
+      "el_ph_nt",
+    ]);
+  });
+
+  it("should reveal more of a longer answer with each hint", () => {
+    assert.deepStrictEqual(hintsFor(new Flashcard("Q", "This is a very long answer", "H", [])), [
+      "H",
+      "6 words: 4, 2, 1, 4, 4, 6 letters",
+      "T___ / __ / _ / ____ / ____ / ______",
+      "T__s / is / a / v__y / l__g / a____r",
+      "Th_s / is / a / v_ry / l_ng / answ_r",
+    ]);
+  });
+
+  it("should leave out empty, repeated and complete hints", () => {
+    assert.deepStrictEqual(hintsFor(new Flashcard("Q", "cat dog", "", [])), [
+      "2 words: 3, 3 letters",
+      "c__ / ___",
+      "c_t / d_g",
+    ]);
+    assert.deepStrictEqual(hintsFor(new Flashcard("Q", "東京", "", [])), ["1 word: 2 letters", "東_"]);
+    assert.deepStrictEqual(hintsFor(new Flashcard("Q", "A!@#$%", "H", [])), ["H", "1 word: 1 letter"]);
+  });
+
+  it("should never hide a letter an earlier hint showed", () => {
+    const answers = [
+      "is a dog",
+      "elephant",
+      "This is a very long answer",
+      "café-crème",
+      "東京 タワー",
+      "A!@#$%",
+    ];
+    for (const back of answers) {
+      const masked = hintsFor(new Flashcard("Q", back, "", [])).filter((hint) => hint.includes("_"));
+      for (let i = 1; i < masked.length; i++) {
+        const before = graphemes(masked[i - 1]!);
+        const after = graphemes(masked[i]!);
+        assert.strictEqual(after.length, before.length);
+        before.forEach((grapheme, j) => {
+          if (grapheme !== "_") {
+            assert.strictEqual(after[j], grapheme, `${masked[i - 1]} -> ${masked[i]}`);
+          }
+        });
+        assert.notDeepStrictEqual(after, before);
+      }
+    }
+    assert.deepStrictEqual(hintsFor(new Flashcard("Q", "is a dog", "", [])).slice(-2), [
+      "i_ / _ / ___",
+      "is / a / d_g",
+    ]);
+  });
+
+  it("should follow the given levels", () => {
+    const card = new Flashcard("Q", "elephant", "big", []);
+    assert.deepStrictEqual(hintsFor(card, { levels: ["vowelsHidden", "card"] }), ["_l_ph_nt", "big"]);
+  });
+});
+
+/*
+ * Testing strategy for penalizeHints():
+ * - Partition on hints used: 0, 1..maxHintsForHard, more, invalid
+ * - Partition on difficulty: Wrong, Hard, Easy
+ */
+describe("penalizeHints()", () => {
+  it("should leave answers without hints alone", () => {
+    assert.strictEqual(penalizeHints(AnswerDifficulty.Easy, 0), AnswerDifficulty.Easy);
+  });
+
+  it("should lower Easy to Hard with a few hints", () => {
+    assert.strictEqual(penalizeHints(AnswerDifficulty.Easy, 1), AnswerDifficulty.Hard);
+    assert.strictEqual(penalizeHints(AnswerDifficulty.Hard, 2), AnswerDifficulty.Hard);
+    assert.strictEqual(penalizeHints(AnswerDifficulty.Wrong, 1), AnswerDifficulty.Wrong);
+  });
+
+  it("should count answers after too many hints as Wrong", () => {
+    assert.strictEqual(penalizeHints(AnswerDifficulty.Easy, 3), AnswerDifficulty.Wrong);
+    assert.strictEqual(penalizeHints(AnswerDifficulty.Easy, 3, 3), AnswerDifficulty.Hard);
+  });
+
+  it("should reject an invalid hint count", () => {
+    assert.throws(() => penalizeHints(AnswerDifficulty.Easy, -1), /nonnegative/);
+  });
+});
+
+/*
+ * Testing strategy for HintEngine:
+ * - Partition on hints given: none, some, all, past the last
+ */
+describe("HintEngine", () => {
+  it("should give hints in order and count them", () => {
+    const engine = new HintEngine(new Flashcard("Q", "cat dog", "pets", []));
+    assert.strictEqual(engine.hintsUsed(), 0);
+    assert.strictEqual(engine.penalize(AnswerDifficulty.Easy), AnswerDifficulty.Easy);
+    assert.strictEqual(engine.next(), "pets");
+    assert.strictEqual(engine.penalize(AnswerDifficulty.Easy), AnswerDifficulty.Hard);
+    assert.strictEqual(engine.next(), "2 words: 3, 3 letters");
+    assert.strictEqual(engine.next(), "c__ / ___");
+    assert.strictEqual(engine.hasNext(), true);
+    assert.strictEqual(engine.next(), "c_t / d_g");
+    assert.strictEqual(engine.hasNext(), false);
+    assert.strictEqual(engine.next(), undefined);
+    assert.strictEqual(engine.hintsUsed(), 4);
+    assert.strictEqual(engine.penalize(AnswerDifficulty.Easy), AnswerDifficulty.Wrong);
+  });
+});
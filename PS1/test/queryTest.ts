@@ -0,0 +1,177 @@
+import assert from "assert";
+import { Flashcard, BucketMap } from "../src/flashcards";
+import { toBucketSets, practice, computeProgress } from "../src/algorithm";
+import { parseQuery, hasTag, matchesQuery, filterBuckets, QueryError } from "../src/query";
+
+function fronts(cards: Iterable<Flashcard>): string[] {
+  return [...cards].map((card) => card.front).sort();
+}
+
+/*
+ * Testing strategy for parseQuery():
+ * - Partition on terms: tag, front, back, bare text, quoted text, each bucket comparison
+ * - Partition on operators: none, implicit AND, AND, OR, NOT, nested NOT, parentheses
+ * - Partition on text: blank, well-formed, malformed (unterminated quote, unbalanced parentheses,
+ *   missing operand, empty field value, malformed bucket filter)
+ */
+describe("parseQuery()", () => {
+  it("should match everything for a blank query", () => {
+    assert.deepStrictEqual(parseQuery("  "), { kind: "all" });
+  });
+
+  it("should parse each kind of term", () => {
+    assert.deepStrictEqual(parseQuery("tag:lang::spanish"), { kind: "tag", tag: "lang::spanish" });
+    assert.deepStrictEqual(parseQuery('front:"to be"'), { kind: "text", field: "front", text: "to be" });
+    assert.deepStrictEqual(parseQuery("back:ser"), { kind: "text", field: "back", text: "ser" });
+    assert.deepStrictEqual(parseQuery("hola"), { kind: "text", field: "either", text: "hola" });
+    assert.deepStrictEqual(parseQuery('"tag:x" "OR"'), {
+      kind: "and",
+      queries: [
+        { kind: "text", field: "either", text: "tag:x" },
+        { kind: "text", field: "either", text: "OR" },
+      ],
+    });
+    assert.deepStrictEqual(parseQuery('"say \\"hi\\""'), { kind: "text", field: "either", text: 'say "hi"' });
+  });
+
+  it("should parse bucket comparisons", () => {
+    const comparisons = ["bucket=1", "bucket:1", "bucket!=1", "bucket<1", "bucket<=1", "bucket>1", "bucket>=1"];
+    assert.deepStrictEqual(
+      comparisons.map((text) => {
+        const query = parseQuery(text);
+        return query.kind === "bucket" ? query.comparison : undefined;
+      }),
+      ["=", "=", "!=", "<", "<=", ">", ">="]
+    );
+  });
+
+  it("should give NOT, AND and OR decreasing precedence", () => {
+    assert.deepStrictEqual(parseQuery("tag:a OR NOT tag:b AND tag:c"), {
+      kind: "or",
+      queries: [
+        { kind: "tag", tag: "a" },
+        { kind: "and", queries: [{ kind: "not", query: { kind: "tag", tag: "b" } }, { kind: "tag", tag: "c" }] },
+      ],
+    });
+    assert.deepStrictEqual(parseQuery("(tag:a OR tag:b) tag:c"), {
+      kind: "and",
+      queries: [
+        { kind: "or", queries: [{ kind: "tag", tag: "a" }, { kind: "tag", tag: "b" }] },
+        { kind: "tag", tag: "c" },
+      ],
+    });
+    assert.deepStrictEqual(parseQuery("NOT NOT x"), {
+      kind: "not",
+      query: { kind: "not", query: { kind: "text", field: "either", text: "x" } },
+    });
+  });
+
+  it("should report malformed queries with their position", () => {
+    assert.throws(() => parseQuery('front:"to be'), (e: unknown) => e instanceof QueryError && e.position === 0);
+    assert.throws(() => parseQuery("(tag:a"), /position 6: missing '\)'/);
+    assert.throws(() => parseQuery("tag:a)"), /position 5: unexpected '\)'/);
+    assert.throws(() => parseQuery("tag:a AND"), /position 9: expected a term/);
+    assert.throws(() => parseQuery("OR tag:a"), /position 0: expected a term, got 'OR'/);
+    assert.throws(() => parseQuery("x tag:"), /position 2: tag: needs a value/);
+    assert.throws(() => parseQuery("bucket>>2"), /malformed bucket filter/);
+  });
+});
+
+/*
+ * Testing strategy for hasTag():
+ * - Partition on card tags: none, exact match, descendant, sibling sharing a prefix, different case
+ */
+describe("hasTag()", () => {
+  const card = new Flashcard("Q", "A", "", ["lang::Spanish::verbs", "grammar"]);
+
+  it("should match a tag and the tags below it", () => {
+    assert.strictEqual(hasTag(card, "grammar"), true);
+    assert.strictEqual(hasTag(card, "lang"), true);
+    assert.strictEqual(hasTag(card, "lang::spanish"), true);
+    assert.strictEqual(hasTag(card, "lang::spanish::verbs"), true);
+  });
+
+  it("should not match partial levels or absent tags", () => {
+    assert.strictEqual(hasTag(card, "lang::span"), false);
+    assert.strictEqual(hasTag(card, "gram"), false);
+    assert.strictEqual(hasTag(new Flashcard("Q", "A", "", []), "grammar"), false);
+  });
+});
+
+/*
+ * Testing strategy for matchesQuery():
+ * - Partition on query kind: all, tag, text in front, back or either, bucket, not, and, or
+ * - Partition on result: true, false
+ */
+describe("matchesQuery()", () => {
+  const card = new Flashcard("to be", "Ser", "", ["lang::spanish::verbs", "irregular"]);
+
+  it("should evaluate terms against the card and its bucket", () => {
+    assert.strictEqual(matchesQuery(parseQuery(""), card, 0), true);
+    assert.strictEqual(matchesQuery(parseQuery("tag:verbs"), card, 0), false);
+    assert.strictEqual(matchesQuery(parseQuery("back:ser"), card, 0), true);
+    assert.strictEqual(matchesQuery(parseQuery("front:ser"), card, 0), false);
+    assert.strictEqual(matchesQuery(parseQuery("BE"), card, 0), true);
+    assert.strictEqual(matchesQuery(parseQuery("bucket>=2"), card, 2), true);
+    assert.strictEqual(matchesQuery(parseQuery("bucket>=2"), card, 1), false);
+  });
+
+  it("should combine terms", () => {
+    assert.strictEqual(matchesQuery(parseQuery("tag:lang::spanish AND NOT tag:irregular"), card, 0), false);
+    assert.strictEqual(matchesQuery(parseQuery("tag:lang::french OR tag:irregular"), card, 0), true);
+    assert.strictEqual(matchesQuery(parseQuery("ser bucket<1"), card, 0), true);
+  });
+});
+
+/*
+ * Testing strategy for filterBuckets():
+ * - Partition on query: text, parsed, matching no cards, matching some cards of a bucket, all cards
+ * - Partition on use: with practice(), with computeProgress()
+ */
+describe("filterBuckets()", () => {
+  const hablar = new Flashcard("to speak", "hablar", "", ["lang::spanish::verbs"]);
+  const ser = new Flashcard("to be", "ser", "", ["lang::spanish::verbs", "irregular"]);
+  const casa = new Flashcard("house", "casa", "", ["lang::spanish::nouns"]);
+  const parler = new Flashcard("to speak", "parler", "", ["lang::french::verbs"]);
+  const buckets: BucketMap = new Map([
+    [0, new Set([hablar, parler])],
+    [1, new Set([ser])],
+    [2, new Set([casa])],
+  ]);
+
+  it("should keep the matching cards in their buckets", () => {
+    const selected = filterBuckets(buckets, "tag:lang::spanish AND NOT tag:irregular OR tag:lang::french");
+    assert.deepStrictEqual(
+      [...selected].map(([bucket, cards]) => [bucket, fronts(cards)]),
+      [
+        [0, ["to speak", "to speak"]],
+        [2, ["house"]],
+      ]
+    );
+    assert.deepStrictEqual(
+      filterBuckets(buckets, parseQuery("bucket>=1")),
+      new Map([
+        [1, new Set([ser])],
+        [2, new Set([casa])],
+      ])
+    );
+    assert.deepStrictEqual(filterBuckets(buckets, "tag:german"), new Map());
+    assert.deepStrictEqual(filterBuckets(buckets, ""), buckets);
+    assert.strictEqual(buckets.get(0)!.size, 2);
+  });
+
+  it("should let practice() and computeProgress() run on a subdeck", () => {
+    const spanish = filterBuckets(buckets, "tag:lang::spanish");
+    assert.deepStrictEqual(fronts(practice(toBucketSets(spanish), 2)), ["to be", "to speak"]);
+    assert.deepStrictEqual(computeProgress(spanish, []), {
+      totalCards: 3,
+      masteredCards: 1,
+      strugglingCards: 1,
+      averageBucket: 1,
+    });
+  });
+
+  it("should reject a malformed query", () => {
+    assert.throws(() => filterBuckets(buckets, "(tag:a"), QueryError);
+  });
+});
@@ -0,0 +1,108 @@
+import assert from "assert";
+import { Flashcard } from "../src/flashcards";
+import {
+  powersOfTwo,
+  fibonacci,
+  intervalTable,
+  withRetirement,
+  isDue,
+  dueCards,
+  previewSchedule,
+} from "../src/schedule";
+
+/*
+ * Testing strategy for the interval policies:
+ * - Partition on policy: powersOfTwo, fibonacci, intervalTable, withRetirement
+ * - Partition on bucket: 0, inside a table, past the end of a table, at or past the retired bucket
+ * - Partition on validity: valid, empty table, non-positive or fractional interval, bad retired bucket
+ */
+describe("interval policies", () => {
+  it("should double intervals for powersOfTwo", () => {
+    assert.deepStrictEqual([0, 1, 2, 5].map(powersOfTwo()), [1, 2, 4, 32]);
+  });
+
+  it("should follow the Fibonacci numbers", () => {
+    assert.deepStrictEqual([0, 1, 2, 3, 4, 5, 9].map(fibonacci()), [1, 2, 3, 5, 8, 13, 89]);
+  });
+
+  it("should repeat the last entry of a table", () => {
+    assert.deepStrictEqual([0, 1, 2, 7].map(intervalTable([1, 3, 7])), [1, 3, 7, 7]);
+    assert.throws(() => intervalTable([]), /empty/);
+    assert.throws(() => intervalTable([1, 0]), /positive integer/);
+    assert.throws(() => intervalTable([1.5]), /positive integer/);
+  });
+
+  it("should retire buckets at and past the retired bucket", () => {
+    assert.deepStrictEqual([0, 2, 3, 4].map(withRetirement(powersOfTwo(), 3)), [1, 4, Infinity, Infinity]);
+    assert.throws(() => withRetirement(powersOfTwo(), -1), /nonnegative integer/);
+  });
+});
+
+/*
+ * Testing strategy for isDue() and dueCards():
+ * - Partition on day: 0, divisible by the interval, not divisible, invalid (negative, fractional)
+ * - Partition on policy: default, custom, retired bucket, policy returning an invalid interval
+ * - Partition on buckets: empty, some empty buckets, several due buckets
+ */
+describe("isDue() and dueCards()", () => {
+  it("should make every bucket due on day 0", () => {
+    assert.ok([0, 1, 2, 10].every((bucket) => isDue(bucket, 0)));
+  });
+
+  it("should make bucket i due on days divisible by 2^i by default", () => {
+    assert.deepStrictEqual(
+      [1, 2, 3, 4, 5, 6, 7, 8].map((day) => isDue(2, day)),
+      [false, false, false, true, false, false, false, true]
+    );
+  });
+
+  it("should never make a retired bucket due", () => {
+    assert.strictEqual(isDue(3, 0, withRetirement(powersOfTwo(), 3)), false);
+  });
+
+  it("should reject invalid days and intervals", () => {
+    assert.throws(() => isDue(0, -1), /nonnegative integer/);
+    assert.throws(() => isDue(0, 1.5), /nonnegative integer/);
+    assert.throws(() => isDue(0, 1, () => 0), /positive integer/);
+  });
+
+  it("should collect the cards of all due buckets", () => {
+    const card1 = new Flashcard("Q1", "A1", "H1", []);
+    const card2 = new Flashcard("Q2", "A2", "H2", []);
+    const card3 = new Flashcard("Q3", "A3", "H3", []);
+    const buckets = [new Set([card1]), new Set<Flashcard>(), new Set([card2]), new Set([card3])];
+    assert.deepStrictEqual(dueCards([], 3), new Set());
+    assert.deepStrictEqual(dueCards(buckets, 4), new Set([card1, card2]));
+    assert.deepStrictEqual(dueCards(buckets, 3, intervalTable([1, 1, 2, 3])), new Set([card1, card3]));
+  });
+});
+
+/*
+ * Testing strategy for previewSchedule():
+ * - Partition on days: 0, 1, several
+ * - Partition on start day: 0, > 0
+ * - Partition on validity: valid, negative days
+ */
+describe("previewSchedule()", () => {
+  it("should list the due cards of each day in order", () => {
+    const card1 = new Flashcard("Q1", "A1", "H1", []);
+    const card2 = new Flashcard("Q2", "A2", "H2", []);
+    const buckets = [new Set([card1]), new Set([card2])];
+    assert.deepStrictEqual(previewSchedule(buckets, 3, 3), [
+      { day: 3, cards: new Set([card1]) },
+      { day: 4, cards: new Set([card1, card2]) },
+      { day: 5, cards: new Set([card1]) },
+    ]);
+    assert.deepStrictEqual(previewSchedule(buckets, 0, 0), []);
+  });
+
+  it("should use the given policy", () => {
+    const card = new Flashcard("Q", "A", "H", []);
+    const preview = previewSchedule([new Set<Flashcard>(), new Set([card])], 0, 7, intervalTable([1, 3]));
+    assert.deepStrictEqual(
+      preview.filter((day) => day.cards.size > 0).map((day) => day.day),
+      [0, 3, 6]
+    );
+    assert.throws(() => previewSchedule([], 0, -1), /nonnegative integer/);
+  });
+});
@@ -0,0 +1,207 @@
+import assert from "assert";
+import { AnswerDifficulty, Flashcard } from "../src/flashcards";
+import { intervalTable, withRetirement, powersOfTwo } from "../src/schedule";
+import {
+  CardState,
+  Scheduler,
+  LeitnerScheduler,
+  SM2Scheduler,
+  FSRSScheduler,
+  MIN_EASE,
+  INITIAL_EASE,
+  seedFromBuckets,
+  dueOn,
+  reviewCard,
+} from "../src/scheduler";
+
+/** Reviews a new card on the days it comes due, with the given answers. */
+function reviewSequence(scheduler: Scheduler, answers: AnswerDifficulty[]): CardState[] {
+  const states: CardState[] = [];
+  let state = scheduler.initialState(0);
+  for (const answer of answers) {
+    state = scheduler.review(state, answer, state.due);
+    states.push(state);
+  }
+  return states;
+}
+
+/*
+ * Testing strategy for LeitnerScheduler:
+ * - Partition on answer: Wrong, Hard, Easy
+ * - Partition on review day: on a practice day of the bucket, between practice days
+ * - Partition on policy: default, custom, retired bucket
+ */
+describe("LeitnerScheduler", () => {
+  it("should move buckets like update() and schedule the next practice day", () => {
+    const leitner = new LeitnerScheduler();
+    const states = reviewSequence(leitner, [AnswerDifficulty.Easy, AnswerDifficulty.Easy, AnswerDifficulty.Hard]);
+    assert.deepStrictEqual(
+      states.map((s) => [s.bucket, s.due]),
+      [
+        [1, 2],
+        [2, 4],
+        [2, 8],
+      ]
+    );
+    const wrong = leitner.review(states[2]!, AnswerDifficulty.Wrong, 8);
+    assert.deepStrictEqual([wrong.bucket, wrong.due, wrong.lapses, wrong.repetitions], [0, 9, 1, 0]);
+  });
+
+  it("should align the due day with the bucket's practice days", () => {
+    const state = { ...new LeitnerScheduler().initialState(0), bucket: 1 };
+    assert.strictEqual(new LeitnerScheduler().review(state, AnswerDifficulty.Easy, 5).due, 8);
+    assert.strictEqual(new LeitnerScheduler(intervalTable([1, 3])).review(state, AnswerDifficulty.Hard, 5).due, 6);
+  });
+
+  it("should never schedule a retired card again", () => {
+    const leitner = new LeitnerScheduler(withRetirement(powersOfTwo(), 1));
+    assert.strictEqual(leitner.review(leitner.initialState(0), AnswerDifficulty.Easy, 0).due, Infinity);
+  });
+});
+
+/*
+ * Testing strategy for SM2Scheduler:
+ * - Partition on answer: Wrong, Hard, Easy
+ * - Partition on repetitions: first, second, later review
+ * - Partition on ease: default, at the minimum
+ */
+describe("SM2Scheduler", () => {
+  it("should schedule 1, 6, then interval times ease days", () => {
+    const states = reviewSequence(new SM2Scheduler(), [
+      AnswerDifficulty.Easy,
+      AnswerDifficulty.Easy,
+      AnswerDifficulty.Easy,
+    ]);
+    assert.deepStrictEqual(
+      states.map((s) => s.interval),
+      [1, 6, Math.round(6 * (INITIAL_EASE + 0.3))]
+    );
+    assert.ok(Math.abs(states[2]!.ease - (INITIAL_EASE + 0.3)) < 1e-9);
+  });
+
+  it("should lower the ease on hard and wrong answers, but not below the minimum", () => {
+    const sm2 = new SM2Scheduler();
+    const hard = sm2.review(sm2.initialState(0), AnswerDifficulty.Hard, 0);
+    assert.ok(Math.abs(hard.ease - (INITIAL_EASE - 0.14)) < 1e-9);
+    const states = reviewSequence(sm2, Array<AnswerDifficulty>(10).fill(AnswerDifficulty.Wrong));
+    assert.strictEqual(states[9]!.ease, MIN_EASE);
+    assert.strictEqual(states[9]!.interval, 1);
+  });
+
+  it("should restart the interval after a lapse", () => {
+    const states = reviewSequence(new SM2Scheduler(), [
+      AnswerDifficulty.Easy,
+      AnswerDifficulty.Easy,
+      AnswerDifficulty.Wrong,
+      AnswerDifficulty.Easy,
+    ]);
+    assert.deepStrictEqual(
+      states.map((s) => [s.interval, s.lapses]),
+      [
+        [1, 0],
+        [6, 0],
+        [1, 1],
+        [1, 1],
+      ]
+    );
+  });
+});
+
+/*
+ * Testing strategy for FSRSScheduler:
+ * - Partition on answer: Wrong, Hard, Easy
+ * - Partition on card: new, reviewed
+ * - Partition on retention: default, higher
+ * - Partition on validity: valid, bad retention, wrong number of weights
+ */
+describe("FSRSScheduler", () => {
+  it("should start new cards at the stability of their first grade", () => {
+    const fsrs = new FSRSScheduler();
+    const first = [AnswerDifficulty.Wrong, AnswerDifficulty.Hard, AnswerDifficulty.Easy].map((answer) =>
+      fsrs.review(fsrs.initialState(0), answer, 0)
+    );
+    assert.deepStrictEqual(
+      first.map((s) => s.stability),
+      [0.4, 0.6, 2.4]
+    );
+    assert.ok(first[0]!.difficulty > first[1]!.difficulty && first[1]!.difficulty > first[2]!.difficulty);
+  });
+
+  it("should grow stability with correct answers, more for easy ones, and shrink it on lapses", () => {
+    const fsrs = new FSRSScheduler();
+    const easy = reviewSequence(fsrs, Array<AnswerDifficulty>(4).fill(AnswerDifficulty.Easy));
+    for (let i = 1; i < easy.length; i++) {
+      assert.ok(easy[i]!.stability > easy[i - 1]!.stability);
+      assert.ok(easy[i]!.interval >= easy[i - 1]!.interval);
+    }
+    const hard = fsrs.review(easy[1]!, AnswerDifficulty.Hard, easy[1]!.due);
+    assert.ok(hard.stability < easy[2]!.stability);
+    const lapse = fsrs.review(easy[3]!, AnswerDifficulty.Wrong, easy[3]!.due);
+    assert.ok(lapse.stability < easy[3]!.stability);
+    assert.strictEqual(lapse.lapses, 1);
+  });
+
+  it("should review more often for a higher retention", () => {
+    const card = reviewSequence(new FSRSScheduler(), [AnswerDifficulty.Easy, AnswerDifficulty.Easy])[1]!;
+    const strict = new FSRSScheduler(0.97).review(card, AnswerDifficulty.Easy, card.due);
+    const relaxed = new FSRSScheduler(0.9).review(card, AnswerDifficulty.Easy, card.due);
+    assert.ok(strict.interval < relaxed.interval);
+  });
+
+  it("should compute retrievability from the days since the last review", () => {
+    const fsrs = new FSRSScheduler();
+    const state = { ...fsrs.initialState(0), lastReview: 10, stability: 5 };
+    assert.strictEqual(fsrs.retrievability(fsrs.initialState(0), 3), 1);
+    assert.strictEqual(fsrs.retrievability(state, 10), 1);
+    assert.ok(Math.abs(fsrs.retrievability(state, 15) - 0.9) < 1e-9);
+  });
+
+  it("should reject bad parameters", () => {
+    assert.throws(() => new FSRSScheduler(1), /retention/);
+    assert.throws(() => new FSRSScheduler(0.9, [1, 2, 3]), /17 weights/);
+  });
+});
+
+/*
+ * Testing strategy for seedFromBuckets(), dueOn() and reviewCard():
+ * - Partition on bucket: 0, > 0
+ * - Partition on day: practice day of the bucket, between practice days
+ * - Partition on card: in the deck, new
+ */
+describe("seedFromBuckets(), dueOn() and reviewCard()", () => {
+  const card0 = new Flashcard("Q0", "A0", "H0", []);
+  const card2 = new Flashcard("Q2", "A2", "H2", []);
+  const buckets = new Map([
+    [0, new Set([card0])],
+    [2, new Set([card2])],
+  ]);
+
+  it("should seed state that matches the Leitner schedule", () => {
+    const deck = seedFromBuckets(buckets, 5);
+    assert.deepStrictEqual([deck.get(card0)!.due, deck.get(card2)!.due], [5, 8]);
+    assert.deepStrictEqual(
+      [deck.get(card2)!.interval, deck.get(card2)!.repetitions, deck.get(card2)!.stability],
+      [4, 2, 4]
+    );
+    assert.deepStrictEqual(dueOn(deck, 5), [card0]);
+    assert.deepStrictEqual(dueOn(deck, 9), [card0, card2]);
+    assert.deepStrictEqual(dueOn(seedFromBuckets(buckets, 8), 8), [card0, card2]);
+  });
+
+  it("should update one card without modifying the deck", () => {
+    const deck = seedFromBuckets(buckets, 8);
+    const newCard = new Flashcard("Q", "A", "H", []);
+    const sm2 = new SM2Scheduler();
+    const updated = reviewCard(
+      reviewCard(deck, sm2, card2, AnswerDifficulty.Easy, 8),
+      sm2,
+      newCard,
+      AnswerDifficulty.Easy,
+      8
+    );
+    assert.strictEqual(deck.get(card2)!.due, 8);
+    assert.strictEqual(updated.get(card2)!.interval, Math.round(4 * (INITIAL_EASE + 0.1)));
+    assert.strictEqual(updated.get(newCard)!.due, 9);
+    assert.strictEqual(deck.has(newCard), false);
+  });
+});
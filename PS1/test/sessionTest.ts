@@ -0,0 +1,170 @@
+import assert from "assert";
+import { AnswerDifficulty, Flashcard, BucketMap } from "../src/flashcards";
+import { computeProgress } from "../src/algorithm";
+import { StudySession } from "../src/session";
+
+/** A clock that advances by step milliseconds every time it is read. */
+function fakeClock(start: number, step: number): () => number {
+  let now = start - step;
+  return () => (now += step);
+}
+
+function fronts(cards: Iterable<Flashcard>): string[] {
+  return [...cards].map((card) => card.front);
+}
+
+/** Answers every card the same way until the session runs out, returning the order shown. */
+function runSession(session: StudySession, answer: (card: Flashcard) => AnswerDifficulty): string[] {
+  const shown: string[] = [];
+  for (let card = session.currentCard(); card !== undefined; card = session.currentCard()) {
+    shown.push(card.front);
+    session.answer(answer(card));
+  }
+  return shown;
+}
+
+/*
+ * Testing strategy for StudySession:
+ * - Partition on due cards: none, new only, reviews only, both
+ * - Partition on limits: below, at, above the number of cards
+ * - Partition on interleave: true, false
+ * - Partition on answers: Wrong (re-queued, with fewer or more remaining cards than the gap), Hard, Easy
+ * - Partition on history: none, some cards answered before
+ * - Partition on use after the session ends: answer() after finish(), with no cards left
+ * - Partition on answerTyped(): exact and quick, exact and slow, close, wrong
+ */
+describe("StudySession", () => {
+  const n1 = new Flashcard("N1", "A", "H", []);
+  const n2 = new Flashcard("N2", "A", "H", []);
+  const r0 = new Flashcard("R0", "A", "H", []);
+  const r1 = new Flashcard("R1", "A", "H", []);
+  const r2 = new Flashcard("R2", "A", "H", []);
+
+  function deck(): BucketMap {
+    return new Map([
+      [0, new Set([n1, r0, n2])],
+      [1, new Set([r1])],
+      [2, new Set([r2])],
+    ]);
+  }
+  const history = [{ card: r0, difficulty: AnswerDifficulty.Wrong, timestamp: 0 }];
+
+  it("should finish at once when nothing is due", () => {
+    const session = new StudySession(new Map([[1, new Set([r1])]]), 1);
+    assert.strictEqual(session.currentCard(), undefined);
+    assert.strictEqual(session.remaining(), 0);
+    assert.throws(() => session.answer(AnswerDifficulty.Easy), /no card/);
+  });
+
+  it("should show reviews weakest first and spread new cards among them", () => {
+    const session = new StudySession(deck(), 4, { history });
+    assert.deepStrictEqual(runSession(session, () => AnswerDifficulty.Easy), ["R0", "N1", "R1", "N2", "R2"]);
+    const separate = new StudySession(deck(), 4, { history, interleave: false });
+    assert.deepStrictEqual(runSession(separate, () => AnswerDifficulty.Easy), ["R0", "R1", "R2", "N1", "N2"]);
+  });
+
+  it("should respect the new card and review limits", () => {
+    const session = new StudySession(deck(), 4, { history, newCardLimit: 1, reviewLimit: 2 });
+    assert.deepStrictEqual(runSession(session, () => AnswerDifficulty.Easy).sort(), ["N1", "R0", "R1"]);
+    assert.throws(() => new StudySession(deck(), 4, { newCardLimit: -1 }), /newCardLimit/);
+  });
+
+  it("should treat all of bucket 0 as new without history", () => {
+    const session = new StudySession(deck(), 1, { newCardLimit: 2 });
+    assert.deepStrictEqual(runSession(session, () => AnswerDifficulty.Easy), ["N1", "R0"]);
+  });
+
+  it("should re-queue wrong answers until they are answered correctly", () => {
+    const session = new StudySession(deck(), 4, { history, interleave: false, requeueGap: 1 });
+    let misses = 0;
+    const shown = runSession(session, (card) =>
+      card === r1 && misses++ < 2 ? AnswerDifficulty.Wrong : AnswerDifficulty.Easy
+    );
+    assert.deepStrictEqual(shown, ["R0", "R1", "R2", "R1", "N1", "R1", "N2"]);
+    const buckets = session.finish();
+    // Only the first answer moves a card: R1 stays in bucket 0 although it was later answered Easy
+    assert.deepStrictEqual(fronts(buckets.get(0) ?? []).sort(), ["R1"]);
+    assert.deepStrictEqual(fronts(buckets.get(1) ?? []).sort(), ["N1", "N2", "R0"]);
+    assert.deepStrictEqual(fronts(buckets.get(3) ?? []), ["R2"]);
+  });
+
+  it("should put a wrong answer last when fewer cards remain than the gap", () => {
+    const session = new StudySession(deck(), 4, { history, interleave: false });
+    session.currentCard();
+    session.answer(AnswerDifficulty.Easy);
+    session.answer(AnswerDifficulty.Easy);
+    session.answer(AnswerDifficulty.Easy);
+    assert.strictEqual(session.currentCard(), n1);
+    session.answer(AnswerDifficulty.Wrong);
+    assert.deepStrictEqual(runSession(session, () => AnswerDifficulty.Easy), ["N2", "N1"]);
+  });
+
+  it("should record timestamps and response times usable by computeProgress", () => {
+    const session = new StudySession(deck(), 1, { clock: fakeClock(1000, 250) });
+    session.currentCard();
+    session.answer(AnswerDifficulty.Hard);
+    session.currentCard();
+    session.answer(AnswerDifficulty.Wrong);
+    const entries = session.getHistory();
+    assert.deepStrictEqual(
+      entries.map((e) => [e.card.front, e.difficulty, e.timestamp, e.responseTime]),
+      [
+        ["N1", AnswerDifficulty.Hard, 1250, 250],
+        ["R0", AnswerDifficulty.Wrong, 1750, 250],
+      ]
+    );
+    const buckets = session.finish();
+    assert.deepStrictEqual(computeProgress(buckets, entries), {
+      totalCards: 5,
+      masteredCards: 1,
+      strugglingCards: 3,
+      averageBucket: 0.6,
+    });
+  });
+
+  it("should keep unanswered cards in place and stop after finish()", () => {
+    const original = deck();
+    const session = new StudySession(original, 0);
+    session.currentCard();
+    session.answer(AnswerDifficulty.Easy);
+    const buckets = session.finish();
+    assert.deepStrictEqual(fronts(buckets.get(1) ?? []).sort(), ["N1", "R1"]);
+    assert.deepStrictEqual(fronts(original.get(0) ?? []), ["N1", "R0", "N2"]);
+    assert.strictEqual(session.currentCard(), undefined);
+    assert.throws(() => session.answer(AnswerDifficulty.Easy), /finished/);
+  });
+
+  it("should grade typed answers by match and response time", () => {
+    const cards = [
+      new Flashcard("Q1", "paris", "H", []),
+      new Flashcard("Q2", "paris", "H", []),
+      new Flashcard("Q3", "london", "H", []),
+    ];
+    const session = new StudySession(new Map([[0, new Set(cards)]]), 0, {
+      interleave: false,
+      clock: fakeClock(0, 6000),
+    });
+    session.currentCard();
+    const quick = session.answerTyped("Paris");
+    assert.strictEqual(quick.quality, "exact");
+    assert.strictEqual(quick.difficulty, AnswerDifficulty.Easy);
+    session.currentCard();
+    const slow = session.answerTyped("paris", { slowResponseMs: 5000 });
+    assert.strictEqual(slow.difficulty, AnswerDifficulty.Hard);
+    session.currentCard();
+    const wrong = session.answerTyped("berlin");
+    assert.strictEqual(wrong.difficulty, AnswerDifficulty.Wrong);
+    assert.strictEqual(session.currentCard(), cards[2]);
+    assert.strictEqual(session.answerTyped("londn").quality, "close");
+    assert.deepStrictEqual(
+      session.getHistory().map((entry) => [entry.card.front, entry.difficulty, entry.responseTime]),
+      [
+        ["Q1", AnswerDifficulty.Easy, 6000],
+        ["Q2", AnswerDifficulty.Hard, 6000],
+        ["Q3", AnswerDifficulty.Wrong, 6000],
+        ["Q3", AnswerDifficulty.Hard, 6000],
+      ]
+    );
+    assert.throws(() => session.answerTyped("paris"), /no card/);
+  });
+});